@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { ApiKeyRecord } from '../types';
+import { getApiKeyService } from '../services/apiKeyService';
+import { DEFAULT_QUOTA, getQuotaService } from '../services/quotaService';
+import { getApiKeyIdentity } from '../middleware/auth';
+import { sendError } from '../utils/apiError';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('adminController');
+
+const apiKeyService = getApiKeyService();
+const quotaService = getQuotaService();
+
+// The hash stays in the store
+const describeApiKey = ({ hash, ...record }: ApiKeyRecord) => record;
+
+export const listApiKeys = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const keys = (await apiKeyService.list()).map(describeApiKey);
+    res.status(200).json({
+      count: keys.length,
+      keys
+    });
+  } catch (error) {
+    log.error('Failed to list API keys', { error });
+    sendError(res, 500, 'internal_error', 'Failed to list API keys');
+  }
+};
+
+export const createApiKey = async (req: Request, res: Response): Promise<void> => {
+  const { name, scopes } = req.body;
+  try {
+    const { record, key } = await apiKeyService.create(name, scopes, getApiKeyIdentity(res)?.keyId);
+    // The only time the key is shown
+    res.status(201).json({ ...describeApiKey(record), key });
+  } catch (error) {
+    log.error('Failed to create API key', { error });
+    sendError(res, 500, 'internal_error', 'Failed to create API key');
+  }
+};
+
+export const revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await apiKeyService.revoke(req.params.id);
+    if (!record) {
+      sendError(res, 404, 'not_found', 'API key not found');
+      return;
+    }
+    res.status(200).json(describeApiKey(record));
+  } catch (error) {
+    log.error(`Failed to revoke API key ${req.params.id}`, { error });
+    sendError(res, 500, 'internal_error', 'Failed to revoke API key');
+  }
+};
+
+const describeQuota = async (record: ApiKeyRecord) => ({
+  keyId: record.id,
+  limits: await quotaService.getLimits(record.id),
+  overrides: record.quota || {},
+  defaults: DEFAULT_QUOTA,
+  usage: quotaService.getUsage(record.id)
+});
+
+export const getApiKeyQuota = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await apiKeyService.get(req.params.id);
+    if (!record) {
+      sendError(res, 404, 'not_found', 'API key not found');
+      return;
+    }
+    res.status(200).json(await describeQuota(record));
+  } catch (error) {
+    log.error(`Failed to get quota of API key ${req.params.id}`, { error });
+    sendError(res, 500, 'internal_error', 'Failed to get quota');
+  }
+};
+
+export const updateApiKeyQuota = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await apiKeyService.setQuota(req.params.id, req.body);
+    if (!record) {
+      sendError(res, 404, 'not_found', 'API key not found');
+      return;
+    }
+    res.status(200).json(await describeQuota(record));
+  } catch (error) {
+    log.error(`Failed to update quota of API key ${req.params.id}`, { error });
+    sendError(res, 500, 'internal_error', 'Failed to update quota');
+  }
+};
@@ -1,101 +1,172 @@
 import { Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import BrowserManager from '../utils/browserManager';
-import { Bot, JoinRequest, Task } from '../types';
-import { generateSignature } from '../utils/signature';
-import { generateBots } from '../utils/botUtils';
-import { SystemMonitor } from '../utils/SystemMoniter';
-import { BotManager } from '../utils/botManager';
-import { WorkerManager, ActiveWorkerInfo } from '../utils/workerManager';
-
-const globalActiveWorkers = new Map<string, ActiveWorkerInfo>();
-const browserManager = BrowserManager.getInstance(); // Use singleton instance
-const systemMonitor = new SystemMonitor();
-const workerManager = new WorkerManager(systemMonitor);
+import { z } from 'zod';
+import { JoinProgressListener, JoinRequest } from '../types';
+import { JobEvent, JobManager, JobResult } from '../utils/jobManager';
+import { JoinResult, getMeetingService } from '../services/meetingService';
+import { apiError, sendError } from '../utils/apiError';
+import { UpdateSessionSchema } from '../schemas/meetingSchemas';
+import { canManage, getApiKeyIdentity } from '../middleware/auth';
+import { releaseJoinQuota } from '../middleware/quota';
+import { addLogContext, createLogger } from '../utils/logger';
+
+const log = createLogger('meetingController');
+
+const meetingService = getMeetingService();
+const { browserManager, systemMonitor, workerManager, sessionManager, activeWorkers: globalActiveWorkers } = meetingService;
+const jobManager = new JobManager();
+
+// HTTP form of a join result; async jobs store the same shape
+const toJobResult = (result: JoinResult): JobResult => {
+  switch (result.status) {
+    case 'invalid':
+      return { statusCode: 400, body: apiError('validation_failed', 'Request validation failed', { details: result.details }) };
+    case 'at_capacity':
+      return {
+        statusCode: 503,
+        body: apiError('at_capacity', 'System at capacity', { message: result.error, currentLoad: result.systemLoad })
+      };
+    case 'stopped':
+      return { statusCode: 409, body: apiError('session_stopped', result.error, { sessionId: result.sessionId }) };
+    case 'failed':
+      return {
+        statusCode: 500,
+        body: apiError('join_failed', 'Failed to process bots', { message: result.error, sessionId: result.sessionId, systemLoad: result.systemLoad })
+      };
+    case 'joined':
+    case 'partially_failed': {
+      const { status, sessionId, totalBots, successes, ...summary } = result;
+      return {
+        statusCode: status === 'partially_failed' ? 207 : 200,
+        body: { success: successes > 0, sessionId, message: `${successes}/${totalBots} bots joined`, ...summary }
+      };
+    }
+  }
+};
+
+// A join that threw instead of returning a result, e.g. for missing SDK credentials
+const toFailure = (error: unknown, sessionId?: string): JobResult => ({
+  statusCode: 500,
+  body: apiError('join_failed', 'Failed to process bots', { message: error instanceof Error ? error.message : String(error), sessionId })
+});
+
+// Fails the session of a join that threw and closes whatever it had opened
+const failSession = (sessionId: string, error: unknown): Promise<void> =>
+  sessionManager.markFailed(sessionId, error instanceof Error ? error.message : String(error), globalActiveWorkers).catch(closeError => {
+    log.error(`Failed to close session ${sessionId}`, { error: closeError });
+  });
+
+// Settles the job with the join's result. A join that throws fails its session too, so neither is left running.
+const completeJob = (jobId: string, result: Promise<JoinResult>, sessionId: string): void => {
+  result
+    .then(joined => jobManager.complete(jobId, toJobResult(joined)))
+    .catch(error => {
+      log.error(`Join for job ${jobId} failed`, { error });
+      jobManager.complete(jobId, toFailure(error, sessionId));
+      return failSession(sessionId, error);
+    });
+};
 
 export const joinMeeting = async (req: Request, res: Response): Promise<void> => {
-  console.log(`[${new Date().toISOString()}] Received join meeting request`);
-  const { bots, meetingId, password, botCount = 0, duration = 60 } = req.body as JoinRequest;
+  // Already parsed against JoinRequestSchema by the route
+  const request = req.body as JoinRequest;
+  log.info('Received join meeting request', { meetingId: request.meetingId });
+  const runAsync = request.async === true || req.query.async === 'true';
+  const createdBy = getApiKeyIdentity(res);
 
-  if (!meetingId || !password) {
-    console.error(`[${new Date().toISOString()}] Missing required fields`);
-    res.status(400).json({ error: 'Missing required fields' });
+  // Tab events only start once the join is under way, after the job below exists;
+  // synchronous joins have no job, so theirs go nowhere
+  let jobId = '';
+  const listener: JoinProgressListener = {
+    onTabOpened: (tabId, botIds, joinState) => jobManager.emit(jobId, 'tab_opened', { tabId, botIds, joinState }),
+    onTabFailed: (botIds, error) => jobManager.emit(jobId, 'tab_failed', { botIds, error }),
+    onWorkerStarted: (taskId, botIds) => jobManager.emit(jobId, 'worker_started', { taskId, botIds })
+  };
+  let started;
+  try {
+    started = await meetingService.startJoin(request, listener, createdBy);
+    // Its session or queue entry now counts against the key's quota
+    releaseJoinQuota(res);
+    if (started.status !== 'accepted' && started.status !== 'queued') {
+      const { statusCode, body } = toJobResult(started);
+      res.status(statusCode).json(body);
+      return;
+    }
+    if (started.status === 'accepted' && !runAsync) {
+      const { statusCode, body } = toJobResult(await started.result);
+      res.status(statusCode).json(body);
+      return;
+    }
+  } catch (error) {
+    log.error('Failed to start join', { error });
+    const sessionId = started?.status === 'accepted' ? started.session.id : undefined;
+    if (sessionId) {
+      await failSession(sessionId, error);
+    }
+    const { statusCode, body } = toFailure(error, sessionId);
+    res.status(statusCode).json(body);
     return;
   }
 
-  const finalDuration = Math.max(1, Math.floor(duration));
-  const finalBots = bots && bots.length > 0 ? [...bots] : [];
-  if (botCount > 0) {
-    finalBots.push(...generateBots(botCount, finalBots));
+  // Queued joins always answer 202, whether or not the caller asked for async mode
+  const job = jobManager.createJob(started.status === 'accepted' ? started.session.id : undefined);
+  jobId = job.id;
+  addLogContext({ jobId });
+  if (started.status === 'accepted') {
+    completeJob(job.id, started.result, started.session.id);
+  } else {
+    job.queueId = started.queue.id;
+    jobManager.emit(job.id, 'queued', { ...started.queue });
+    started.started
+      .then(admitted => {
+        if (admitted.status !== 'accepted') {
+          jobManager.complete(job.id, toJobResult(admitted));
+          return;
+        }
+        job.sessionId = admitted.session.id;
+        jobManager.emit(job.id, 'admitted', { sessionId: admitted.session.id });
+        completeJob(job.id, admitted.result, admitted.session.id);
+      })
+      .catch(error => {
+        log.error(`Queued join for job ${job.id} could not be started`, { error });
+        jobManager.complete(job.id, toFailure(error));
+      });
   }
 
-  if (finalBots.length === 0) {
-    console.error(`[${new Date().toISOString()}] No bots provided`);
-    res.status(400).json({ error: 'No bots provided' });
+  res.status(202).json({
+    jobId: job.id,
+    sessionId: job.sessionId,
+    queue: started.status === 'queued' ? started.queue : undefined,
+    statusUrl: `/api/jobs/${job.id}`,
+    eventsUrl: `/api/jobs/${job.id}/events`
+  });
+};
+
+export const getQueue = (req: Request, res: Response): void => {
+  const entries = meetingService.admissionQueue.list();
+  res.status(200).json({
+    count: entries.length,
+    entries
+  });
+};
+
+export const cancelQueuedJoin = (req: Request, res: Response): void => {
+  const entry = meetingService.admissionQueue.describe(req.params.id);
+  if (!entry) {
+    sendError(res, 404, 'not_found', 'Queue entry not found');
     return;
   }
-
-  if (!systemMonitor.canHandleMoreWorkers(finalBots.length, globalActiveWorkers)) {
-    console.error(`[${new Date().toISOString()}] System capacity exceeded`);
-    res.status(503).json({
-      error: 'System at capacity',
-      message: 'Too many bots. Try again later or with fewer bots.',
-      currentLoad: systemMonitor.getMetrics()
-    });
+  // Keys may only cancel their own joins, unless they are admins
+  if (!canManage(res, entry.createdBy)) {
+    sendError(res, 403, 'forbidden', 'Queue entry belongs to another API key');
     return;
   }
 
-  const origin = process.env.NEXT_PUBLIC_CLIENT_URL || 'https://zoom-bots.vercel.app';
-  const signature = await generateSignature(meetingId, 0, finalDuration);
-
-  try {
-    // Initialize the browser first
-    await browserManager.launchBrowser();
-    
-    // Create and initialize BotManager
-    const botManager = new BotManager();
-    await botManager.launchBrowsers(); // Initialize browsers
-    
-    const tabResults = await botManager.joinMeetingForBots(finalBots, meetingId, password, finalDuration, origin, signature);
-
-    const tasks: Task[] = tabResults.map(result => ({
-      botPair: finalBots.filter(bot => result.botIds.includes(bot.id.toString())),
-      meetingId,
-      password,
-      origin,
-      signature,
-      browserType: 'chromium',
-      keepOpenOnTimeout: true,
-      skipJoinIndicator: true,
-      selectorTimeout: 86400000,
-      optimizedJoin: true,
-      disableVideo: true,
-      disableAudio: true,
-      lowResolution: true,
-      duration: finalDuration * 60 * 1000
-    }));
-
-    const results = await workerManager.executeTasks(tasks, finalDuration, globalActiveWorkers);
-    const successes = results.filter(r => r.success).length;
-    const failures = results.filter(r => !r.success);
-
-    res.status(failures.length > 0 ? 207 : 200).json({
-      success: successes > 0,
-      message: `${successes}/${finalBots.length} bots processed successfully`,
-      keptOpenTabs: tabResults.length,
-      tabsWillCloseAt: new Date(Date.now() + finalDuration * 60 * 1000).toISOString(),
-      durationMinutes: finalDuration,
-      failures,
-      systemLoad: systemMonitor.getMetrics()
-    });
-  } catch (error) {
-    console.error(`[${new Date().toISOString()}] Processing error: ${error}`);
-    res.status(500).json({
-      error: 'Failed to process bots',
-      details: error instanceof Error ? error.message : String(error),
-      systemLoad: systemMonitor.getMetrics()
-    });
-  }
+  meetingService.admissionQueue.cancel(entry.id);
+  res.status(200).json({
+    success: true,
+    queueId: entry.id,
+    cancelledAt: new Date().toISOString()
+  });
 };
 
 export const getActiveWorkers = (req: Request, res: Response): void => {
@@ -108,6 +179,186 @@ export const getActiveWorkers = (req: Request, res: Response): void => {
   });
 };
 
+export const getBrowserStats = (req: Request, res: Response): void => {
+  res.status(200).json(meetingService.getBrowserPool());
+};
+
+export const getSessions = (req: Request, res: Response): void => {
+  // Keys without the admin scope only see their own sessions
+  const sessions = sessionManager.listSessions()
+    .filter(session => canManage(res, session.createdBy))
+    .map(session => sessionManager.describeSession(session));
+  res.status(200).json({
+    count: sessions.length,
+    sessions
+  });
+};
+
+export const getSession = (req: Request, res: Response): void => {
+  const session = sessionManager.getSession(req.params.id);
+  if (!session) {
+    sendError(res, 404, 'not_found', 'Session not found');
+    return;
+  }
+  if (!canManage(res, session.createdBy)) {
+    sendError(res, 403, 'forbidden', 'Session belongs to another API key');
+    return;
+  }
+  res.status(200).json(sessionManager.describeSession(session));
+};
+
+export const stopSession = async (req: Request, res: Response): Promise<void> => {
+  const session = sessionManager.getSession(req.params.id);
+  if (!session) {
+    sendError(res, 404, 'not_found', 'Session not found');
+    return;
+  }
+  if (!canManage(res, session.createdBy)) {
+    sendError(res, 403, 'forbidden', 'Session belongs to another API key');
+    return;
+  }
+
+  const { closedTabs, terminatedWorkers } = await sessionManager.stopSession(session.id, globalActiveWorkers);
+  res.status(200).json({
+    success: true,
+    sessionId: session.id,
+    closedTabs,
+    terminatedWorkers,
+    stoppedAt: new Date().toISOString()
+  });
+};
+
+export const updateSession = async (req: Request, res: Response): Promise<void> => {
+  const session = sessionManager.getSession(req.params.id);
+  if (!session) {
+    sendError(res, 404, 'not_found', 'Session not found');
+    return;
+  }
+  if (!canManage(res, session.createdBy)) {
+    sendError(res, 403, 'forbidden', 'Session belongs to another API key');
+    return;
+  }
+
+  const { durationMinutes, endsAt } = req.body as z.infer<typeof UpdateSessionSchema>;
+  if (session.status !== 'active' || !session.startedAt) {
+    sendError(res, 409, 'conflict', `Session is ${session.status}`);
+    return;
+  }
+
+  const newEndsAt = endsAt !== undefined
+    ? Date.parse(endsAt)
+    : Date.parse(session.startedAt) + Number(durationMinutes) * 60 * 1000;
+
+  if (Number.isNaN(newEndsAt) || newEndsAt <= Date.now()) {
+    sendError(res, 400, 'validation_failed', 'New end time must be in the future', {
+      details: [{ path: endsAt !== undefined ? 'body.endsAt' : 'body.durationMinutes', code: 'not_in_future', message: 'New end time must be in the future' }]
+    });
+    return;
+  }
+
+  let signatureReissued;
+  try {
+    ({ signatureReissued } = await sessionManager.rescheduleSession(session.id, newEndsAt, globalActiveWorkers));
+  } catch (error) {
+    log.error(`Failed to reschedule session ${session.id}`, { error });
+    sendError(res, 500, 'internal_error', 'Failed to reschedule session', { message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  res.status(200).json({
+    success: true,
+    signatureReissued,
+    session: sessionManager.describeSession(session)
+  });
+};
+
+export const stopMeetingBots = async (req: Request, res: Response): Promise<void> => {
+  const { meetingId } = req.params;
+  const running = sessionManager.findRunningSessionsByMeeting(meetingId);
+  if (running.length === 0) {
+    sendError(res, 404, 'not_found', 'No running sessions for meeting');
+    return;
+  }
+  // Only the caller's own sessions are stopped, unless it is an admin
+  const sessions = running.filter(session => canManage(res, session.createdBy));
+  if (sessions.length === 0) {
+    sendError(res, 403, 'forbidden', 'Sessions for meeting belong to other API keys');
+    return;
+  }
+
+  let closedTabs = 0;
+  let terminatedWorkers = 0;
+  for (const session of sessions) {
+    const result = await sessionManager.stopSession(session.id, globalActiveWorkers);
+    closedTabs += result.closedTabs;
+    terminatedWorkers += result.terminatedWorkers;
+  }
+
+  res.status(200).json({
+    success: true,
+    meetingId,
+    sessionIds: sessions.map(session => session.id),
+    closedTabs,
+    terminatedWorkers,
+    stoppedAt: new Date().toISOString()
+  });
+};
+
+export const getJob = (req: Request, res: Response): void => {
+  const job = jobManager.getJob(req.params.id);
+  if (!job) {
+    sendError(res, 404, 'not_found', 'Job not found');
+    return;
+  }
+  res.status(200).json({
+    id: job.id,
+    sessionId: job.sessionId,
+    status: job.status,
+    // Live position and estimate while the join waits for capacity
+    queue: job.queueId ? meetingService.admissionQueue.describe(job.queueId) ?? undefined : undefined,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+    eventCount: job.events.length,
+    result: job.result
+  });
+};
+
+export const streamJobEvents = (req: Request, res: Response): void => {
+  const job = jobManager.getJob(req.params.id);
+  if (!job) {
+    sendError(res, 404, 'not_found', 'Job not found');
+    return;
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const writeEvent = (event: JobEvent): void => {
+    res.write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, timestamp: event.timestamp })}\n\n`);
+  };
+
+  // Replay history so late or reconnecting clients see every event
+  const lastEventId = parseInt(req.header('Last-Event-ID') || '0') || 0;
+  job.events.filter(event => event.seq > lastEventId).forEach(writeEvent);
+
+  if (job.status !== 'running') {
+    res.end();
+    return;
+  }
+
+  const unsubscribe = jobManager.subscribe(job.id, event => {
+    writeEvent(event);
+    if (event.type === 'job_done') {
+      unsubscribe();
+      res.end();
+    }
+  });
+  req.on('close', unsubscribe);
+};
+
 export const terminateAllWorkers = async (req: Request, res: Response): Promise<void> => {
   const count = globalActiveWorkers.size;
   const totalBots = Array.from(globalActiveWorkers.values()).reduce((sum, info) => sum + info.botCount, 0);
@@ -120,9 +371,16 @@ export const terminateAllWorkers = async (req: Request, res: Response): Promise<
   });
 };
 
+// Runs once on startup, before any new joins arrive
+export const restoreState = async (): Promise<void> => {
+  await browserManager.cleanupOrphans();
+  const { resumed, interrupted } = await sessionManager.restore();
+  log.info(`State restored: ${resumed} session(s) resumed, ${interrupted} interrupted`);
+};
+
 export const gracefulShutdown = async (): Promise<void> => {
-  console.log(`[${new Date().toISOString()}] Server shutting down`);
+  log.info('Server shutting down');
   await workerManager.gracefulShutdown(globalActiveWorkers);
   await browserManager.closeBrowser();
-  console.log(`[${new Date().toISOString()}] Shutdown complete`);
+  log.info('Shutdown complete');
 };
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { Request, Response } from 'express';
+import { registry } from '../utils/metrics';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('metrics');
+
+// Prometheus text exposition of everything registered in utils/metrics
+export const metrics = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.set('Content-Type', registry.contentType);
+    res.end(await registry.metrics());
+  } catch (error) {
+    log.error('Failed to collect metrics', { error });
+    res.status(500).end();
+  }
+};
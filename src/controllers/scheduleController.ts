@@ -0,0 +1,223 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { ApiKeyIdentity, Schedule } from '../types';
+import { getScheduleRepository } from '../schedule/scheduleRepository';
+import { describeNextRun, getRunAt, getScheduleTimeZone } from '../schedule/scheduleTime';
+import { ScheduleBody, ScheduleInput, validateScheduleInput } from '../schedule/scheduleValidation';
+import { ScheduleQuerySchema } from '../schemas/scheduleSchemas';
+import { sendError } from '../utils/apiError';
+import { canManage, getApiKeyIdentity } from '../middleware/auth';
+import { ANONYMOUS_QUOTA_KEY, getQuotaService } from '../services/quotaService';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('scheduleController');
+
+const scheduleRepository = getScheduleRepository();
+
+const describeSchedule = (schedule: Schedule) => {
+  // Credentials stay in the store
+  const { password, ...rest } = schedule;
+  return {
+    ...rest,
+    timeZone: getScheduleTimeZone(schedule),
+    nextRun: describeNextRun(schedule)
+  };
+};
+
+// Refuses a schedule whose runs could never fit the quota of the key that owns it. Each run
+// is checked against the key's usage again when it fires.
+const fitsQuota = async (res: Response, owner: ApiKeyIdentity | undefined, schedule: ScheduleInput): Promise<boolean> => {
+  const keyId = owner?.keyId ?? ANONYMOUS_QUOTA_KEY;
+  let denial;
+  try {
+    denial = await getQuotaService().checkScheduleLimits(keyId, schedule.bots.length, schedule.duration);
+  } catch (error) {
+    log.error(`Failed to check quota for ${keyId}`, { error });
+    sendError(res, 503, 'quota_unavailable', 'Quota could not be checked; try again later');
+    return false;
+  }
+  if (denial) {
+    sendError(res, 429, denial.code, denial.error, { limit: denial.limit, remaining: denial.remaining });
+    return false;
+  }
+  return true;
+};
+
+// Bodies, params and queries are already parsed against schemas/scheduleSchemas.ts by the routes
+
+export const createSchedule = async (req: Request, res: Response): Promise<void> => {
+  const { value, details } = validateScheduleInput(req.body as ScheduleBody);
+  if (!value) {
+    sendError(res, 400, 'validation_failed', 'Invalid schedule', { details });
+    return;
+  }
+  const createdBy = getApiKeyIdentity(res);
+  if (!(await fitsQuota(res, createdBy, value))) return;
+
+  try {
+    const schedule = await scheduleRepository.create(createdBy ? { ...value, createdBy } : value);
+    log.info(`Created schedule ${schedule.id} for meeting ${schedule.meetingId}`);
+    res.status(201).json(describeSchedule(schedule));
+  } catch (error) {
+    log.error('Failed to create schedule', { error });
+    sendError(res, 500, 'internal_error', 'Failed to create schedule');
+  }
+};
+
+export const getSchedules = async (req: Request, res: Response): Promise<void> => {
+  const { userId, status, from, to } = req.query as unknown as z.infer<typeof ScheduleQuerySchema>;
+
+  try {
+    // Keys without the admin scope only see their own schedules
+    const schedules = (await scheduleRepository.listUpcoming())
+      .filter(schedule => canManage(res, schedule.createdBy))
+      .filter(schedule => userId === undefined || schedule.userId === userId)
+      .filter(schedule => status === undefined || schedule.status === status)
+      .filter(schedule => {
+        // Keeps schedules with a run inside [from, to); for recurring ones, any occurrence in the range
+        if (!from && !to) return true;
+        const runAt = getRunAt(schedule, from || new Date(0));
+        return runAt !== null && (!from || runAt >= from) && (!to || runAt < to);
+      })
+      .map(describeSchedule);
+    res.status(200).json({
+      count: schedules.length,
+      schedules
+    });
+  } catch (error) {
+    log.error('Failed to list schedules', { error });
+    sendError(res, 500, 'internal_error', 'Failed to list schedules');
+  }
+};
+
+export const getSchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const schedule = await scheduleRepository.getById(req.params.id);
+    if (!schedule) {
+      sendError(res, 404, 'not_found', 'Schedule not found');
+      return;
+    }
+    if (!canManage(res, schedule.createdBy)) {
+      sendError(res, 403, 'forbidden', 'Schedule belongs to another API key');
+      return;
+    }
+    res.status(200).json(describeSchedule(schedule));
+  } catch (error) {
+    log.error(`Failed to get schedule ${req.params.id}`, { error });
+    sendError(res, 500, 'internal_error', 'Failed to get schedule');
+  }
+};
+
+export const updateSchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const schedule = await scheduleRepository.getById(req.params.id);
+    if (!schedule) {
+      sendError(res, 404, 'not_found', 'Schedule not found');
+      return;
+    }
+    if (!canManage(res, schedule.createdBy)) {
+      sendError(res, 403, 'forbidden', 'Schedule belongs to another API key');
+      return;
+    }
+    if (schedule.status !== 'scheduled') {
+      sendError(res, 409, 'conflict', `Schedule is ${schedule.status}`);
+      return;
+    }
+
+    const { value, details } = validateScheduleInput(req.body as ScheduleBody, schedule);
+    if (!value) {
+      sendError(res, 400, 'validation_failed', 'Invalid schedule', { details });
+      return;
+    }
+    if (!(await fitsQuota(res, schedule.createdBy, value))) return;
+
+    // Fields dropped by the update (e.g. scheduledAt after switching to a local date) are cleared
+    const cleared = (['scheduledAt', 'scheduledDate', 'scheduledTime', 'recurrence'] as const)
+      .filter(field => schedule[field] !== undefined && value[field] === undefined);
+    await scheduleRepository.update(schedule.id, {
+      ...value,
+      ...Object.fromEntries(cleared.map(field => [field, undefined]))
+    });
+
+    const updated = await scheduleRepository.getById(schedule.id);
+    res.status(200).json(describeSchedule(updated || { ...schedule, ...value }));
+  } catch (error) {
+    log.error(`Failed to update schedule ${req.params.id}`, { error });
+    sendError(res, 500, 'internal_error', 'Failed to update schedule');
+  }
+};
+
+export const cancelSchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const schedule = await scheduleRepository.getById(req.params.id);
+    if (!schedule) {
+      sendError(res, 404, 'not_found', 'Schedule not found');
+      return;
+    }
+    if (!canManage(res, schedule.createdBy)) {
+      sendError(res, 403, 'forbidden', 'Schedule belongs to another API key');
+      return;
+    }
+    if (schedule.status !== 'scheduled') {
+      sendError(res, 409, 'conflict', `Schedule is ${schedule.status}`);
+      return;
+    }
+
+    await scheduleRepository.updateStatus(schedule.id, 'cancelled');
+    log.info(`Cancelled schedule ${schedule.id}`);
+    res.status(200).json(describeSchedule({ ...schedule, status: 'cancelled' }));
+  } catch (error) {
+    log.error(`Failed to cancel schedule ${req.params.id}`, { error });
+    sendError(res, 500, 'internal_error', 'Failed to cancel schedule');
+  }
+};
+
+export const deleteSchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const schedule = await scheduleRepository.getById(req.params.id);
+    if (!schedule) {
+      sendError(res, 404, 'not_found', 'Schedule not found');
+      return;
+    }
+    if (!canManage(res, schedule.createdBy)) {
+      sendError(res, 403, 'forbidden', 'Schedule belongs to another API key');
+      return;
+    }
+    if (schedule.status === 'running') {
+      sendError(res, 409, 'conflict', 'Schedule is running; wait for its session to end or stop it first');
+      return;
+    }
+
+    await scheduleRepository.delete(schedule.id);
+    log.info(`Deleted schedule ${schedule.id}`);
+    res.status(200).json({ success: true, id: schedule.id });
+  } catch (error) {
+    log.error(`Failed to delete schedule ${req.params.id}`, { error });
+    sendError(res, 500, 'internal_error', 'Failed to delete schedule');
+  }
+};
+
+export const getScheduleOccurrences = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const schedule = await scheduleRepository.getById(req.params.id);
+    if (schedule && !canManage(res, schedule.createdBy)) {
+      sendError(res, 403, 'forbidden', 'Schedule belongs to another API key');
+      return;
+    }
+    const occurrences = (await scheduleRepository.getOccurrences(req.params.id))
+      .sort((a, b) => a.occurrenceAt.localeCompare(b.occurrenceAt));
+    // A deleted schedule keeps its occurrences, so only ids with neither are unknown
+    if (occurrences.length === 0 && !schedule) {
+      sendError(res, 404, 'not_found', 'Schedule not found');
+      return;
+    }
+    res.status(200).json({
+      scheduleId: req.params.id,
+      count: occurrences.length,
+      occurrences
+    });
+  } catch (error) {
+    log.error(`Failed to list occurrences for schedule ${req.params.id}`, { error });
+    sendError(res, 500, 'internal_error', 'Failed to list schedule occurrences');
+  }
+};
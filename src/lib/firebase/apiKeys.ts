@@ -0,0 +1,37 @@
+import { collection, doc, getDoc, getDocs, setDoc } from 'firebase/firestore';
+import { firestore } from '.';
+import { ApiKeyRecord } from '../../types';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('firebase/apiKeys');
+
+export const apiKeysCollection = collection(firestore, 'apiKeys');
+
+export const getApiKeys = async (): Promise<ApiKeyRecord[]> => {
+  try {
+    const querySnapshot = await getDocs(apiKeysCollection);
+    return querySnapshot.docs.map(doc => doc.data() as ApiKeyRecord);
+  } catch (error) {
+    log.error('Error getting API keys', { error });
+    throw error;
+  }
+};
+
+export const getApiKey = async (id: string): Promise<ApiKeyRecord | null> => {
+  try {
+    const keySnap = await getDoc(doc(apiKeysCollection, id));
+    return keySnap.exists() ? keySnap.data() as ApiKeyRecord : null;
+  } catch (error) {
+    log.error('Error getting API key', { error });
+    throw error;
+  }
+};
+
+export const saveApiKey = async (record: ApiKeyRecord): Promise<void> => {
+  try {
+    await setDoc(doc(apiKeysCollection, record.id), record);
+  } catch (error) {
+    log.error('Error saving API key', { error });
+    throw error;
+  }
+};
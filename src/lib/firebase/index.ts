@@ -1,6 +1,6 @@
 import { getApp, getApps, initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
-import { collection, getFirestore } from "firebase/firestore";
+import { collection, connectFirestoreEmulator, getFirestore } from "firebase/firestore";
 import { getStorage } from "firebase/storage";
 import { firebaseConfig } from "./config";
 
@@ -10,6 +10,12 @@ export const firebaseAuth = getAuth(app);
 export const firestore = getFirestore(app);
 export const fireStorage = getStorage(app);
 
+// Lets the scheduler run offline against `firebase emulators:start`
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  const [host, port] = process.env.FIRESTORE_EMULATOR_HOST.split(":");
+  connectFirestoreEmulator(firestore, host, parseInt(port || "8080"));
+}
+
 export const firestoreCollections = {
   usersCol: collection(firestore, "users"),
   previousSchedules: collection(firestore, "previousSchedules"),
@@ -0,0 +1,46 @@
+import { collection, doc, runTransaction } from 'firebase/firestore';
+import { firestore } from '.';
+import { LeaseRecord } from '../../types';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('firebase/lease');
+
+export const leasesCollection = collection(firestore, 'leases');
+
+// Writes `record` only if `canTake` holds for the stored lease, inside a transaction so
+// two instances can't both take an expired lease
+export const takeLease = async (
+  name: string,
+  canTake: (current: LeaseRecord | null) => boolean,
+  record: LeaseRecord
+): Promise<boolean> => {
+  try {
+    return await runTransaction(firestore, async transaction => {
+      const leaseRef = doc(leasesCollection, name);
+      const leaseSnap = await transaction.get(leaseRef);
+      if (!canTake(leaseSnap.exists() ? leaseSnap.data() as LeaseRecord : null)) {
+        return false;
+      }
+      transaction.set(leaseRef, record);
+      return true;
+    });
+  } catch (error) {
+    log.error('Error taking lease', { error });
+    throw error;
+  }
+};
+
+export const releaseLease = async (name: string, holderId: string): Promise<void> => {
+  try {
+    await runTransaction(firestore, async transaction => {
+      const leaseRef = doc(leasesCollection, name);
+      const leaseSnap = await transaction.get(leaseRef);
+      if (leaseSnap.exists() && (leaseSnap.data() as LeaseRecord).holderId === holderId) {
+        transaction.delete(leaseRef);
+      }
+    });
+  } catch (error) {
+    log.error('Error releasing lease', { error });
+    throw error;
+  }
+};
@@ -1,169 +1,208 @@
-import { collection, addDoc, getDocs, updateDoc, deleteDoc, doc, query, where, serverTimestamp, getDoc } from 'firebase/firestore';
+import { collection, addDoc, getDocs, updateDoc, deleteDoc, doc, query, where, serverTimestamp, getDoc, setDoc, runTransaction } from 'firebase/firestore';
 import { firestore } from '.';
+import { Schedule, ScheduledBot, ScheduleOccurrence, ScheduleOutcome, ScheduleRunResult } from '../../types';
+import { normalizeScheduleBots } from '../../utils/botUtils';
+import { createLogger } from '../../utils/logger';
 
-export interface Bot {
-  id: string;
-  name: string;
-  countryCode: string;
-  country?: string;
-  status: string; // Changed from string | undefined to string
-  flag?: string;
-}
-
-export interface Schedule {
-  id: string;
-  meetingId: string;
-  password: string;
-  quantity: number;
-  duration: number;
-  countryCode: string;
-  scheduledDate?: string;
-  scheduledTime?: string;
-  status: 'scheduled' | 'cancelled' | 'completed';
-  bots: any;
-  userId: string;
-  createdAt: any;
-  updatedAt?: any;
-}
+const log = createLogger('firebase/schedule');
+
+export type { Schedule };
+export type Bot = ScheduledBot;
 
 export const previousSchedulesCollection = collection(firestore, 'previousSchedules');
 export const upcomingMeetingsCollection = collection(firestore, 'upcomingMeetings');
+export const scheduleOccurrencesCollection = collection(firestore, 'scheduleOccurrences');
+
+export const savePreviousSchedule = async (schedule: Omit<Schedule, 'id' | 'createdAt'>): Promise<string> => {
+  try {
+    const docRef = await addDoc(previousSchedulesCollection, {
+      ...schedule,
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    log.error('Error saving previous schedule', { error });
+    throw error;
+  }
+};
+
+export const getPreviousSchedules = async (userId?: string): Promise<Schedule[]> => {
+  try {
+    const q = userId
+      ? query(previousSchedulesCollection, where('userId', '==', userId))
+      : query(previousSchedulesCollection);
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as Schedule[];
+  } catch (error) {
+    log.error('Error getting previous schedules', { error });
+    throw error;
+  }
+};
+
+export const saveUpcomingMeeting = async (meeting: Omit<Schedule, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
+  try {
+    const normalizedBots = normalizeScheduleBots(meeting.bots);
+
+    const docRef = await addDoc(upcomingMeetingsCollection, {
+      ...meeting,
+      bots: normalizedBots,
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    log.error('Error saving upcoming meeting', { error });
+    throw error;
+  }
+};
+
+export const getUpcomingMeetings = async (date: string, time: string): Promise<Schedule[]> => {
+    try {
+      const q = query(
+        upcomingMeetingsCollection,
+        where('scheduledDate', '==', date),
+        where('scheduledTime', '==', time),
+        where('status', 'in', ['scheduled'])
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as Schedule[];
+    } catch (error) {
+      log.error('Error getting upcoming meetings', { error });
+      throw error;
+    }
+  };
+
+export const getScheduledMeetings = async (): Promise<Schedule[]> => {
+  try {
+    const q = query(upcomingMeetingsCollection, where('status', '==', 'scheduled'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as Schedule[];
+  } catch (error) {
+    log.error('Error getting scheduled meetings', { error });
+    throw error;
+  }
+};
+
+export const updateUpcomingMeeting = async (meetingId: string, updates: Partial<Omit<Schedule, 'id'>>): Promise<void> => {
+  try {
+    const meetingRef = doc(upcomingMeetingsCollection, meetingId);
+    await updateDoc(meetingRef, {
+      ...updates,
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    log.error('Error updating upcoming meeting', { error });
+    throw error;
+  }
+};
+
+// Applies `updates` only if `canClaim` still holds for the stored meeting, inside a
+// transaction so two scheduler instances can't both claim the same run
+export const claimUpcomingMeeting = async (
+  meetingId: string,
+  canClaim: (meeting: Schedule) => boolean,
+  updates: Partial<Omit<Schedule, 'id'>>
+): Promise<boolean> => {
+  try {
+    return await runTransaction(firestore, async transaction => {
+      const meetingRef = doc(upcomingMeetingsCollection, meetingId);
+      const meetingSnap = await transaction.get(meetingRef);
+      if (!meetingSnap.exists()) throw new Error('Meeting not found');
+      if (!canClaim({ id: meetingSnap.id, ...meetingSnap.data() } as Schedule)) {
+        return false;
+      }
+      transaction.update(meetingRef, { ...updates, updatedAt: serverTimestamp() });
+      return true;
+    });
+  } catch (error) {
+    log.error('Error claiming upcoming meeting', { error });
+    throw error;
+  }
+};
+
+export const deleteUpcomingMeeting = async (meetingId: string): Promise<void> => {
+  try {
+    const meetingRef = doc(upcomingMeetingsCollection, meetingId);
+    await deleteDoc(meetingRef);
+  } catch (error) {
+    log.error('Error deleting upcoming meeting', { error });
+    throw error;
+  }
+};
+
+export const getMeetingById = async (meetingId: string): Promise<Schedule | null> => {
+  try {
+    const meetingRef = doc(upcomingMeetingsCollection, meetingId);
+    const meetingSnap = await getDoc(meetingRef);
+    if (meetingSnap.exists()) {
+      return { id: meetingSnap.id, ...meetingSnap.data() } as Schedule;
+    }
+    return null;
+  } catch (error) {
+    log.error('Error fetching meeting by ID', { error });
+    throw error;
+  }
+};
+
+export const getAllUpcomingMeetings = async (): Promise<Schedule[]> => {
+  try {
+    const querySnapshot = await getDocs(upcomingMeetingsCollection);
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as Schedule[];
+  } catch (error) {
+    log.error('Error getting all upcoming meetings', { error });
+    throw error;
+  }
+};
+
+export const completeUpcomingMeeting = async (
+  meetingId: string,
+  status: ScheduleOutcome = 'completed',
+  lastRun?: ScheduleRunResult
+): Promise<void> => {
+  try {
+    const meeting = await getMeetingById(meetingId);
+    if (!meeting) throw new Error('Meeting not found');
+
+    const updates = lastRun ? { status, lastRun } : { status };
+    await updateUpcomingMeeting(meetingId, updates);
+    const { id, ...meetingWithoutId } = meeting;
+    await savePreviousSchedule({
+      ...meetingWithoutId,
+      ...updates
+    });
+  } catch (error) {
+    log.error('Error completing upcoming meeting', { error });
+    throw error;
+  }
+};
+
+export const saveOccurrence = async (occurrence: ScheduleOccurrence): Promise<void> => {
+  try {
+    await setDoc(doc(scheduleOccurrencesCollection, occurrence.id), occurrence);
+  } catch (error) {
+    log.error('Error saving schedule occurrence', { error });
+    throw error;
+  }
+};
 
-// export const savePreviousSchedule = async (schedule: Omit<Schedule, 'id' | 'createdAt'>): Promise<string> => {
-//   try {
-//     const docRef = await addDoc(previousSchedulesCollection, {
-//       ...schedule,
-//       createdAt: serverTimestamp()
-//     });
-//     return docRef.id;
-//   } catch (error) {
-//     console.error('Error saving previous schedule:', error);
-//     throw error;
-//   }
-// };
-
-// export const getPreviousSchedules = async (userId: string): Promise<Schedule[]> => {
-//   try {
-//     const q = query(
-//       previousSchedulesCollection,
-//       where('userId', '==', userId)
-//     );
-//     const querySnapshot = await getDocs(q);
-//     return querySnapshot.docs.map(doc => ({
-//       id: doc.id,
-//       ...doc.data()
-//     })) as Schedule[];
-//   } catch (error) {
-//     console.error('Error getting previous schedules:', error);
-//     throw error;
-//   }
-// };
-
-// export const saveUpcomingMeeting = async (meeting: Omit<Schedule, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
-//   try {
-//     const normalizedBots = meeting.bots.map((bot:any) => ({
-//       id: bot.id,
-//       name: bot.name,
-//       countryCode: bot.countryCode,
-//       country: bot.country || '',
-//       status: bot.status || 'Ready',
-//       flag: bot.flag || ''
-//     }));
-
-//     const docRef = await addDoc(upcomingMeetingsCollection, {
-//       ...meeting,
-//       bots: normalizedBots,
-//       createdAt: serverTimestamp()
-//     });
-//     return docRef.id;
-//   } catch (error) {
-//     console.error('Error saving upcoming meeting:', error);
-//     throw error;
-//   }
-// };
-
-// export const getUpcomingMeetings = async (date: string, time: string): Promise<Schedule[]> => {
-//     try {
-//       const q = query(
-//         upcomingMeetingsCollection,
-//         where('scheduledDate', '==', date),
-//         where('scheduledTime', '==', time),
-//         where('status', 'in', ['scheduled'])
-//       );
-//       const querySnapshot = await getDocs(q);
-//       return querySnapshot.docs.map(doc => ({
-//         id: doc.id,
-//         ...doc.data(),
-//       })) as Schedule[];
-//     } catch (error) {
-//       console.error('Error getting upcoming meetings:', error);
-//       throw error;
-//     }
-//   };
-
-// export const updateUpcomingMeeting = async (meetingId: string, updates: Partial<Omit<Schedule, 'id'>>): Promise<void> => {
-//   try {
-//     const meetingRef = doc(upcomingMeetingsCollection, meetingId);
-//     await updateDoc(meetingRef, {
-//       ...updates,
-//       updatedAt: serverTimestamp()
-//     });
-//   } catch (error) {
-//     console.error('Error updating upcoming meeting:', error);
-//     throw error;
-//   }
-// };
-
-// export const deleteUpcomingMeeting = async (meetingId: string): Promise<void> => {
-//   try {
-//     const meetingRef = doc(upcomingMeetingsCollection, meetingId);
-//     await deleteDoc(meetingRef);
-//   } catch (error) {
-//     console.error('Error deleting upcoming meeting:', error);
-//     throw error;
-//   }
-// };
-
-// export const getMeetingById = async (meetingId: string): Promise<Schedule | null> => {
-//   try {
-//     const meetingRef = doc(upcomingMeetingsCollection, meetingId);
-//     const meetingSnap = await getDoc(meetingRef);
-//     if (meetingSnap.exists()) {
-//       return { id: meetingSnap.id, ...meetingSnap.data() } as Schedule;
-//     }
-//     return null;
-//   } catch (error) {
-//     console.error('Error fetching meeting by ID:', error);
-//     throw error;
-//   }
-// };
-
-// export const getAllUpcomingMeetings = async (): Promise<Schedule[]> => {
-//   try {
-//     const querySnapshot = await getDocs(upcomingMeetingsCollection);
-//     return querySnapshot.docs.map(doc => ({
-//       id: doc.id,
-//       ...doc.data()
-//     })) as Schedule[];
-//   } catch (error) {
-//     console.error('Error getting all upcoming meetings:', error);
-//     throw error;
-//   }
-// };
-
-// export const completeUpcomingMeeting = async (meetingId: string): Promise<void> => {
-//   try {
-//     const meeting = await getMeetingById(meetingId);
-//     if (!meeting) throw new Error('Meeting not found');
-
-//     await updateUpcomingMeeting(meetingId, { status: 'completed' });
-//     const { id, ...meetingWithoutId } = meeting;
-//     await savePreviousSchedule({
-//       ...meetingWithoutId,
-//       status: 'completed'
-//     });
-//   } catch (error) {
-//     console.error('Error completing upcoming meeting:', error);
-//     throw error;
-//   }
-// };
\ No newline at end of file
+export const getOccurrences = async (scheduleId: string): Promise<ScheduleOccurrence[]> => {
+  try {
+    const q = query(scheduleOccurrencesCollection, where('scheduleId', '==', scheduleId));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => doc.data() as ScheduleOccurrence);
+  } catch (error) {
+    log.error('Error getting schedule occurrences', { error });
+    throw error;
+  }
+};
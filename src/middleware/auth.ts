@@ -0,0 +1,64 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiKeyIdentity, ApiKeyScope } from '../types';
+import { getApiKeyService, hasScope } from '../services/apiKeyService';
+import { sendError } from '../utils/apiError';
+import { addLogContext, createLogger } from '../utils/logger';
+
+const log = createLogger('auth');
+
+// Only for local development: every request is let through without a key
+export const AUTH_DISABLED = process.env.API_AUTH === 'off';
+
+const readKey = (req: Request): string | undefined => {
+  const authorization = req.header('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return req.header('X-API-Key')?.trim() || undefined;
+};
+
+// Rejects requests without a valid, unrevoked key that has `scope`, and records the key on
+// the response's locals for the handler (see getApiKeyIdentity)
+export const requireScope = (scope: ApiKeyScope) => async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (AUTH_DISABLED) {
+    next();
+    return;
+  }
+
+  const key = readKey(req);
+  if (!key) {
+    sendError(res, 401, 'unauthorized', 'Missing API key; send it as "Authorization: Bearer <key>" or "X-API-Key"');
+    return;
+  }
+
+  let identity: ApiKeyIdentity | null;
+  try {
+    identity = await getApiKeyService().authenticate(key);
+  } catch (error) {
+    log.error('Failed to check API key', { error });
+    sendError(res, 503, 'auth_unavailable', 'API keys could not be checked; try again later');
+    return;
+  }
+  if (!identity) {
+    sendError(res, 401, 'unauthorized', 'Invalid or revoked API key');
+    return;
+  }
+  if (!hasScope(identity, scope)) {
+    sendError(res, 403, 'forbidden', `API key lacks the ${scope} scope`, { requiredScope: scope });
+    return;
+  }
+
+  res.locals.apiKey = identity;
+  addLogContext({ keyId: identity.keyId });
+  next();
+};
+
+// Undefined when auth is disabled
+export const getApiKeyIdentity = (res: Response): ApiKeyIdentity | undefined => res.locals.apiKey;
+
+// Whether the request's key may change something `owner` created: its own sessions, joins and
+// schedules, or anything for admins. Records made without a key, or with auth disabled, are open to all.
+export const canManage = (res: Response, owner?: ApiKeyIdentity): boolean => {
+  const identity = getApiKeyIdentity(res);
+  return !identity || !owner || owner.keyId === identity.keyId || hasScope(identity, 'admin');
+};
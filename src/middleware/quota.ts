@@ -0,0 +1,57 @@
+import { NextFunction, Request, Response } from 'express';
+import { JoinRequest } from '../types';
+import { ANONYMOUS_QUOTA_KEY, getQuotaService, QuotaRemaining } from '../services/quotaService';
+import { getApiKeyIdentity } from './auth';
+import { sendError } from '../utils/apiError';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('quota');
+
+// Sends what is left of each limit, e.g. `concurrent-bots=40, bot-minutes=2300, requests=9`.
+// Unlimited ones are left out.
+const setRemainingHeader = (res: Response, remaining: QuotaRemaining): void => {
+  const parts = [
+    ['concurrent-bots', remaining.maxConcurrentBots],
+    ['bot-minutes', remaining.maxBotMinutesPerDay],
+    ['requests', remaining.maxJoinRequestsPerMinute]
+  ].filter(([, left]) => left !== null).map(([name, left]) => `${name}=${left}`);
+  if (parts.length > 0) {
+    res.setHeader('X-Quota-Remaining', parts.join(', '));
+  }
+};
+
+// Runs after validate(), so the body is a parsed JoinRequest. Rejects with 429 when the
+// caller's key is over its request rate or the join would exceed its bot quota, counting
+// its running, queued and reserved bots. Otherwise reserves the bots (see releaseJoinQuota).
+export const enforceJoinQuota = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const request = req.body as JoinRequest;
+  const keyId = getApiKeyIdentity(res)?.keyId ?? ANONYMOUS_QUOTA_KEY;
+
+  let decision;
+  try {
+    decision = await getQuotaService().admitJoin(keyId, request.bots.length + request.botCount, request.duration);
+  } catch (error) {
+    log.error(`Failed to check quota for ${keyId}`, { error });
+    sendError(res, 503, 'quota_unavailable', 'Quota could not be checked; try again later');
+    return;
+  }
+
+  setRemainingHeader(res, decision.remaining);
+  if (!decision.allowed) {
+    log.warn(`Join by ${keyId} refused: ${decision.error}`);
+    if (decision.retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', decision.retryAfterSeconds.toString());
+    }
+    sendError(res, 429, decision.code, decision.error, { limit: decision.limit, remaining: decision.remaining });
+    return;
+  }
+  // Held until the handler has created the session or queue entry, or the request ends without one
+  res.locals.quotaRelease = decision.release;
+  res.on('close', decision.release);
+  next();
+};
+
+// Gives back the bots reserved by enforceJoinQuota, once the join counts them itself
+export const releaseJoinQuota = (res: Response): void => {
+  (res.locals.quotaRelease as (() => void) | undefined)?.();
+};
@@ -0,0 +1,34 @@
+import { AsyncResource } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger, runWithLogContext } from '../utils/logger';
+
+const log = createLogger('http');
+
+// A caller's own id is kept when it looks like one, so logs can be matched across services
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Gives every request a correlation id, echoed in `X-Request-Id`, that is added to every log
+// line written while handling it, and logs the request once it has been answered. Mounted
+// after express.json(): the body parser's stream callbacks would lose the context.
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.header('X-Request-Id');
+  const requestId = header && REQUEST_ID.test(header) ? header : uuidv4();
+  const startedAt = process.hrtime.bigint();
+  res.setHeader('X-Request-Id', requestId);
+
+  runWithLogContext({ requestId }, () => {
+    // Bound so the line also carries ids added while handling, such as the API key
+    res.on('finish', AsyncResource.bind(() => {
+      const durationMs = Math.round(Number(process.hrtime.bigint() - startedAt) / 1e6);
+      const fields = { method: req.method, path: req.originalUrl, status: res.statusCode, durationMs };
+      const message = `${req.method} ${req.originalUrl} ${res.statusCode} ${durationMs}ms`;
+      if (res.statusCode >= 500) {
+        log.error(message, fields);
+      } else {
+        log.info(message, fields);
+      }
+    }));
+    next();
+  });
+};
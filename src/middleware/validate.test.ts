@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { validate } from './validate';
+
+// Only what validate() reads and answers with
+const call = (req: Partial<Request>) => {
+  const sent: { status?: number; body?: unknown; next: boolean } = { next: false };
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return this;
+    }
+  } as unknown as Response;
+  const middleware = validate({
+    body: z.object({ name: z.string().min(1), count: z.number().default(1) }),
+    params: z.object({ id: z.string().uuid() })
+  });
+  middleware(req as Request, res, (() => { sent.next = true; }) as NextFunction);
+  return sent;
+};
+
+describe('validate', () => {
+  it('replaces each part with its parsed value', () => {
+    const req: Partial<Request> = { body: { name: 'Bot1', extra: true }, params: { id: '00000000-0000-4000-8000-000000000000' } };
+    const sent = call(req);
+
+    assert.equal(sent.next, true);
+    assert.deepEqual(req.body, { name: 'Bot1', count: 1 });
+  });
+
+  it('answers 400 with every invalid field of every part', () => {
+    const req: Partial<Request> = { body: { name: '' }, params: { id: 'abc' } };
+    const sent = call(req);
+
+    assert.equal(sent.next, false);
+    assert.equal(sent.status, 400);
+    assert.deepEqual(sent.body, {
+      error: 'Request validation failed',
+      code: 'validation_failed',
+      details: [
+        { path: 'body.name', code: 'too_small', message: 'String must contain at least 1 character(s)' },
+        { path: 'params.id', code: 'invalid_string', message: 'Invalid uuid' }
+      ]
+    });
+    assert.deepEqual(req.body, { name: '' });
+  });
+});
@@ -0,0 +1,32 @@
+import { NextFunction, Request, Response } from 'express';
+import { ZodTypeAny } from 'zod';
+import { ApiErrorDetail, sendError, toErrorDetails } from '../utils/apiError';
+
+interface RequestSchemas {
+  body?: ZodTypeAny;
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+}
+
+// Rejects the request with a 400 listing every invalid field, or replaces each validated
+// part with its parsed value (defaults applied, unknown fields dropped) before the handler runs
+export const validate = (schemas: RequestSchemas) => (req: Request, res: Response, next: NextFunction): void => {
+  const details: ApiErrorDetail[] = [];
+  const parsed: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+  (Object.keys(schemas) as (keyof RequestSchemas)[]).forEach(part => {
+    const result = schemas[part]!.safeParse(req[part] ?? {});
+    if (result.success) {
+      parsed[part] = result.data;
+    } else {
+      details.push(...toErrorDetails(result.error, [part]));
+    }
+  });
+
+  if (details.length > 0) {
+    sendError(res, 400, 'validation_failed', 'Request validation failed', { details });
+    return;
+  }
+  Object.assign(req, parsed);
+  next();
+};
@@ -0,0 +1,18 @@
+import express from 'express';
+import { createApiKey, getApiKeyQuota, listApiKeys, revokeApiKey, updateApiKeyQuota } from '../controllers/adminController';
+import { terminateAllWorkers } from '../controllers/meetingController';
+import { requireScope } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { ApiKeyParamsSchema, CreateApiKeySchema, UpdateQuotaSchema } from '../schemas/adminSchemas';
+
+const router = express.Router();
+
+router.use('/admin', requireScope('admin'));
+router.get('/admin/api-keys', listApiKeys);
+router.post('/admin/api-keys', validate({ body: CreateApiKeySchema }), createApiKey);
+router.delete('/admin/api-keys/:id', validate({ params: ApiKeyParamsSchema }), revokeApiKey);
+router.get('/admin/api-keys/:id/quota', validate({ params: ApiKeyParamsSchema }), getApiKeyQuota);
+router.put('/admin/api-keys/:id/quota', validate({ params: ApiKeyParamsSchema, body: UpdateQuotaSchema }), updateApiKeyQuota);
+router.post('/admin/workers/terminate', terminateAllWorkers);
+
+export default router;
@@ -1,10 +1,24 @@
 import express from 'express';
-import { joinMeeting } from '../controllers/meetingController';
+import { joinMeeting, getQueue, cancelQueuedJoin, getSessions, getSession, updateSession, stopSession, stopMeetingBots, getJob, streamJobEvents, getBrowserStats } from '../controllers/meetingController';
 import { health } from '../controllers/health';
+import { requireScope } from '../middleware/auth';
+import { enforceJoinQuota } from '../middleware/quota';
+import { validate } from '../middleware/validate';
+import { IdParamsSchema, JoinQuerySchema, JoinRequestSchema, MeetingParamsSchema, UpdateSessionSchema } from '../schemas/meetingSchemas';
 
 const router = express.Router();
 
   router.get('/health',health)
-router.post('/join-meeting', joinMeeting);
+router.post('/join-meeting', requireScope('join'), validate({ body: JoinRequestSchema, query: JoinQuerySchema }), enforceJoinQuota, joinMeeting);
+router.get('/sessions', requireScope('read'), getSessions);
+router.get('/sessions/:id', requireScope('read'), validate({ params: IdParamsSchema }), getSession);
+router.patch('/sessions/:id', requireScope('join'), validate({ params: IdParamsSchema, body: UpdateSessionSchema }), updateSession);
+router.delete('/sessions/:id', requireScope('join'), validate({ params: IdParamsSchema }), stopSession);
+router.delete('/meetings/:meetingId/bots', requireScope('join'), validate({ params: MeetingParamsSchema }), stopMeetingBots);
+router.get('/browsers', requireScope('read'), getBrowserStats);
+router.get('/queue', requireScope('read'), getQueue);
+router.delete('/queue/:id', requireScope('join'), validate({ params: IdParamsSchema }), cancelQueuedJoin);
+router.get('/jobs/:id', requireScope('read'), validate({ params: IdParamsSchema }), getJob);
+router.get('/jobs/:id/events', requireScope('read'), validate({ params: IdParamsSchema }), streamJobEvents);
 
 export default router;
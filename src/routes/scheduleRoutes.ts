@@ -0,0 +1,25 @@
+import express from 'express';
+import {
+  createSchedule,
+  getSchedules,
+  getSchedule,
+  updateSchedule,
+  cancelSchedule,
+  deleteSchedule,
+  getScheduleOccurrences
+} from '../controllers/scheduleController';
+import { requireScope } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { ScheduleBodySchema, ScheduleParamsSchema, ScheduleQuerySchema } from '../schemas/scheduleSchemas';
+
+const router = express.Router();
+
+router.post('/schedules', requireScope('join'), validate({ body: ScheduleBodySchema }), createSchedule);
+router.get('/schedules', requireScope('read'), validate({ query: ScheduleQuerySchema }), getSchedules);
+router.get('/schedules/:id', requireScope('read'), validate({ params: ScheduleParamsSchema }), getSchedule);
+router.patch('/schedules/:id', requireScope('join'), validate({ params: ScheduleParamsSchema, body: ScheduleBodySchema }), updateSchedule);
+router.post('/schedules/:id/cancel', requireScope('join'), validate({ params: ScheduleParamsSchema }), cancelSchedule);
+router.delete('/schedules/:id', requireScope('join'), validate({ params: ScheduleParamsSchema }), deleteSchedule);
+router.get('/schedules/:id/occurrences', requireScope('read'), validate({ params: ScheduleParamsSchema }), getScheduleOccurrences);
+
+export default router;
@@ -0,0 +1,80 @@
+import { deleteField } from 'firebase/firestore';
+import { Schedule, ScheduleOccurrence, ScheduleOutcome, ScheduleRunResult, ScheduleStatus } from '../types';
+import { ScheduleRepository } from './scheduleRepository';
+import { isClaimable, isDue } from './scheduleTime';
+
+// Loaded on first use: initializing the Firebase app fails without its config, and the
+// local store shouldn't need one. Set FIRESTORE_EMULATOR_HOST to use a local emulator.
+const firestoreSchedules = () => import('../lib/firebase/schedule');
+
+export class FirestoreScheduleRepository implements ScheduleRepository {
+  async getDueMeetings(from: Date, to: Date): Promise<Schedule[]> {
+    // Schedules can be in any time zone, so the window is applied to each run instant here
+    const { getScheduledMeetings } = await firestoreSchedules();
+    return (await getScheduledMeetings()).filter(meeting => isDue(meeting, from, to));
+  }
+
+  async claim(id: string, runAt: string, updates: Partial<Omit<Schedule, 'id'>> = {}): Promise<boolean> {
+    const { claimUpcomingMeeting } = await firestoreSchedules();
+    return claimUpcomingMeeting(id, meeting => isClaimable(meeting, runAt), { ...updates, lastOccurrenceAt: runAt });
+  }
+
+  async listUpcoming(): Promise<Schedule[]> {
+    const { getAllUpcomingMeetings } = await firestoreSchedules();
+    return getAllUpcomingMeetings();
+  }
+
+  async getById(id: string): Promise<Schedule | null> {
+    const { getMeetingById } = await firestoreSchedules();
+    return getMeetingById(id);
+  }
+
+  async create(schedule: Omit<Schedule, 'id' | 'createdAt' | 'updatedAt'>): Promise<Schedule> {
+    const { saveUpcomingMeeting, getMeetingById } = await firestoreSchedules();
+    const id = await saveUpcomingMeeting(schedule);
+    const created = await getMeetingById(id);
+    if (!created) {
+      throw new Error('Meeting not found');
+    }
+    return created;
+  }
+
+  async delete(id: string): Promise<void> {
+    const { deleteUpcomingMeeting } = await firestoreSchedules();
+    await deleteUpcomingMeeting(id);
+  }
+
+  async updateStatus(id: string, status: ScheduleStatus, lastRun?: ScheduleRunResult): Promise<void> {
+    const { updateUpcomingMeeting } = await firestoreSchedules();
+    await updateUpcomingMeeting(id, lastRun ? { status, lastRun } : { status });
+  }
+
+  async complete(id: string, status: ScheduleOutcome, lastRun?: ScheduleRunResult): Promise<void> {
+    const { completeUpcomingMeeting } = await firestoreSchedules();
+    await completeUpcomingMeeting(id, status, lastRun);
+  }
+
+  async getHistory(userId?: string): Promise<Schedule[]> {
+    const { getPreviousSchedules } = await firestoreSchedules();
+    return getPreviousSchedules(userId);
+  }
+
+  async update(id: string, updates: Partial<Omit<Schedule, 'id'>>): Promise<void> {
+    const { updateUpcomingMeeting } = await firestoreSchedules();
+    // Firestore rejects undefined values; they mean "remove this field" here
+    const fields = Object.fromEntries(
+      Object.entries(updates).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+    );
+    await updateUpcomingMeeting(id, fields);
+  }
+
+  async saveOccurrence(occurrence: ScheduleOccurrence): Promise<void> {
+    const { saveOccurrence } = await firestoreSchedules();
+    await saveOccurrence(occurrence);
+  }
+
+  async getOccurrences(scheduleId: string): Promise<ScheduleOccurrence[]> {
+    const { getOccurrences } = await firestoreSchedules();
+    return getOccurrences(scheduleId);
+  }
+}
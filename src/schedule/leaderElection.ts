@@ -0,0 +1,69 @@
+import { hostname } from 'os';
+import { LeaderLease } from './leaderLease';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('leaderElection');
+
+// Keeps trying to hold a LeaderLease and renews it while held. If the leader dies or can't
+// reach the lease store, its lease expires and another instance takes over on its next try.
+export class LeaderElection {
+  private lease: LeaderLease;
+  private holderId: string;
+  private timer?: NodeJS.Timeout;
+  private leader = false;
+  // Leadership is only trusted until the last successful renewal would have expired
+  private heldUntil = 0;
+  private readonly TTL_MS = parseInt(process.env.LEADER_LEASE_SECONDS || '60') * 1000;
+
+  constructor(lease: LeaderLease, holderId: string = process.env.INSTANCE_ID || `${hostname()}-${process.pid}`) {
+    this.lease = lease;
+    this.holderId = holderId;
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+    // Renewing three times per TTL leaves room for a slow or failed renewal
+    this.timer = setInterval(() => this.renew(), this.TTL_MS / 3);
+    this.timer.unref();
+    await this.renew();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (this.leader) {
+      this.setLeader(false);
+      await this.lease.release(this.holderId);
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader && Date.now() < this.heldUntil;
+  }
+
+  private async renew(): Promise<void> {
+    const requestedAt = Date.now();
+    try {
+      const acquired = await this.lease.acquire(this.holderId, this.TTL_MS);
+      if (acquired) {
+        this.heldUntil = requestedAt + this.TTL_MS;
+      }
+      this.setLeader(acquired);
+    } catch (error) {
+      // Stay leader until the lease would have expired; the next renewal may still succeed
+      log.error(`Failed to renew leader lease for ${this.holderId}`, { error });
+      if (!this.isLeader()) {
+        this.setLeader(false);
+      }
+    }
+  }
+
+  private setLeader(leader: boolean): void {
+    if (leader !== this.leader) {
+      log.info(`${this.holderId} ${leader ? 'acquired' : 'lost'} the leader lease`);
+    }
+    this.leader = leader;
+  }
+}
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileLeaderLease, LeaderLease, MemoryLeaderLease } from './leaderLease';
+import { LeaderElection } from './leaderElection';
+
+const TTL_MS = 60 * 1000;
+
+// Both stores must behave alike, so each runs the same checks
+const leaseContract = (createLease: () => LeaderLease) => {
+  it('is held by one holder until it expires', async () => {
+    const lease = createLease();
+    assert.equal(await lease.acquire('a', TTL_MS), true);
+    assert.equal(await lease.acquire('b', TTL_MS), false);
+
+    // Renewing moves the expiry on
+    mock.timers.tick(TTL_MS - 1);
+    assert.equal(await lease.acquire('a', TTL_MS), true);
+    mock.timers.tick(TTL_MS - 1);
+    assert.equal(await lease.acquire('b', TTL_MS), false);
+
+    mock.timers.tick(1);
+    assert.equal(await lease.acquire('b', TTL_MS), true);
+    assert.equal(await lease.acquire('a', TTL_MS), false);
+  });
+
+  it('can be released early by its holder only', async () => {
+    const lease = createLease();
+    await lease.acquire('a', TTL_MS);
+
+    await lease.release('b');
+    assert.equal(await lease.acquire('b', TTL_MS), false);
+    await lease.release('a');
+    assert.equal(await lease.acquire('b', TTL_MS), true);
+  });
+};
+
+describe('leader leases', () => {
+  let dir: string;
+  let leases = 0;
+
+  beforeEach(async () => {
+    // Only the clock; the file lock still waits on real timers
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-01-01T10:00:00Z') });
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'leader-lease-'));
+  });
+
+  afterEach(async () => {
+    mock.timers.reset();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('MemoryLeaderLease', () => {
+    // Memory leases are shared across the process, so each test takes a fresh name
+    leaseContract(() => new MemoryLeaderLease(`scheduler-${++leases}`));
+  });
+
+  describe('FileLeaderLease', () => {
+    leaseContract(() => new FileLeaderLease(path.join(dir, 'scheduler.lease')));
+
+    it('treats an unreadable lease file as free', async () => {
+      const filePath = path.join(dir, 'scheduler.lease');
+      await fs.writeFile(filePath, '{"holderId": "a"');
+
+      assert.equal(await new FileLeaderLease(filePath).acquire('b', TTL_MS), true);
+      assert.equal(JSON.parse(await fs.readFile(filePath, 'utf8')).holderId, 'b');
+    });
+  });
+});
+
+describe('LeaderElection', () => {
+  let acquire: (holderId: string) => Promise<boolean>;
+  let released: string[];
+  let election: LeaderElection;
+  // Lets a renewal started by the interval finish; setImmediate isn't mocked
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setInterval', 'Date'], now: Date.parse('2025-01-01T10:00:00Z') });
+    acquire = async () => true;
+    released = [];
+    const lease: LeaderLease = {
+      acquire: holderId => acquire(holderId),
+      release: async holderId => {
+        released.push(holderId);
+      }
+    };
+    election = new LeaderElection(lease, 'instance-1');
+  });
+
+  afterEach(async () => {
+    await election.stop();
+    mock.timers.reset();
+  });
+
+  it('leads while it holds the lease', async () => {
+    await election.start();
+    assert.equal(election.isLeader(), true);
+
+    acquire = async () => false;
+    mock.timers.tick(TTL_MS / 3);
+    await flush();
+    assert.equal(election.isLeader(), false);
+  });
+
+  it('stays leader through failed renewals until its lease would expire', async () => {
+    await election.start();
+    acquire = async () => {
+      throw new Error('Store unavailable');
+    };
+
+    mock.timers.tick(TTL_MS / 3);
+    await flush();
+    assert.equal(election.isLeader(), true);
+    mock.timers.tick(TTL_MS / 3);
+    await flush();
+    mock.timers.tick(TTL_MS / 3);
+    await flush();
+    assert.equal(election.isLeader(), false);
+  });
+
+  it('releases the lease when stopped', async () => {
+    await election.start();
+    await election.stop();
+
+    assert.equal(election.isLeader(), false);
+    assert.deepEqual(released, ['instance-1']);
+  });
+});
@@ -0,0 +1,145 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { LeaseRecord } from '../types';
+import { STATE_DIR } from '../utils/stateStore';
+import { withFileLock } from '../utils/fileLock';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('leaderLease');
+
+// A named lease at most one holder has at a time. Holders renew it before it expires;
+// once it expires anyone may take it over. Expiry is checked against the caller's clock,
+// so the TTL must be well above the clock skew between hosts.
+export interface LeaderLease {
+  // Takes the lease if it is free or expired, or extends it if `holderId` already has it
+  acquire(holderId: string, ttlMs: number): Promise<boolean>;
+  // Gives the lease up early if `holderId` has it, so another holder doesn't wait for it to expire
+  release(holderId: string): Promise<void>;
+}
+
+const canTake = (current: LeaseRecord | null, holderId: string, now: number): boolean =>
+  !current || current.holderId === holderId || current.expiresAt <= now;
+
+const createRecord = (holderId: string, ttlMs: number, now: number): LeaseRecord => ({
+  holderId,
+  expiresAt: now + ttlMs,
+  renewedAt: new Date(now).toISOString()
+});
+
+// Shared by every MemoryLeaderLease in the process, so instances in one test contend for it
+const memoryLeases = new Map<string, LeaseRecord>();
+
+// Only elects a leader among holders in this process: for single-process setups and tests
+export class MemoryLeaderLease implements LeaderLease {
+  private name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  async acquire(holderId: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    if (!canTake(memoryLeases.get(this.name) || null, holderId, now)) {
+      return false;
+    }
+    memoryLeases.set(this.name, createRecord(holderId, ttlMs, now));
+    return true;
+  }
+
+  async release(holderId: string): Promise<void> {
+    if (memoryLeases.get(this.name)?.holderId === holderId) {
+      memoryLeases.delete(this.name);
+    }
+  }
+}
+
+// Elects a leader among processes on one host, e.g. PM2 instances sharing STATE_DIR. The
+// lease file is only read and written while holding `<file>.lock`, created exclusively.
+export class FileLeaderLease implements LeaderLease {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async acquire(holderId: string, ttlMs: number): Promise<boolean> {
+    return this.withLock(async () => {
+      const now = Date.now();
+      if (!canTake(await this.read(), holderId, now)) {
+        return false;
+      }
+      await fs.writeFile(this.filePath, JSON.stringify(createRecord(holderId, ttlMs, now), null, 2));
+      return true;
+    });
+  }
+
+  async release(holderId: string): Promise<void> {
+    await this.withLock(async () => {
+      if ((await this.read())?.holderId === holderId) {
+        await fs.rm(this.filePath, { force: true });
+      }
+    });
+  }
+
+  private async read(): Promise<LeaseRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as LeaseRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      // A torn or hand-edited file counts as free rather than blocking every instance forever
+      log.warn(`Ignoring unreadable lease file ${this.filePath}`, { error });
+      return null;
+    }
+  }
+
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return withFileLock(this.filePath, fn);
+  }
+}
+
+// Loaded on first use, as in FirestoreScheduleRepository
+const firestoreLeases = () => import('../lib/firebase/lease');
+
+// Elects a leader across hosts through the `leases` collection
+export class FirestoreLeaderLease implements LeaderLease {
+  private name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  async acquire(holderId: string, ttlMs: number): Promise<boolean> {
+    const { takeLease } = await firestoreLeases();
+    const now = Date.now();
+    return takeLease(this.name, current => canTake(current, holderId, now), createRecord(holderId, ttlMs, now));
+  }
+
+  async release(holderId: string): Promise<void> {
+    const { releaseLease } = await firestoreLeases();
+    await releaseLease(this.name, holderId);
+  }
+}
+
+// Defaults to the store the schedules live in, so every instance that can see a schedule contends for the same lease
+export const createLeaderLease = (name: string): LeaderLease => {
+  const kind = process.env.LEADER_LEASE_STORE
+    || process.env.SCHEDULE_STORE
+    || (process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ? 'firestore' : 'file');
+  // A shared lease over per-process schedules would leave the schedules created on every
+  // instance but the leader unfired
+  if (kind !== 'memory' && process.env.SCHEDULE_STORE === 'memory') {
+    throw new Error(`LEADER_LEASE_STORE=${kind} needs a shared SCHEDULE_STORE; memory schedules only exist in one process`);
+  }
+  switch (kind) {
+    case 'firestore':
+      return new FirestoreLeaderLease(name);
+    case 'file':
+      return new FileLeaderLease(path.join(STATE_DIR, `${name}.lease`));
+    case 'memory':
+      return new MemoryLeaderLease(name);
+    default:
+      throw new Error(`Unknown LEADER_LEASE_STORE: ${kind}`);
+  }
+};
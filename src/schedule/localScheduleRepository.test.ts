@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalScheduleRepository } from './localScheduleRepository';
+import { Schedule } from '../types';
+
+const RUN_AT = '2025-01-01T10:00:00.000Z';
+
+const input = (): Omit<Schedule, 'id' | 'createdAt' | 'updatedAt'> => ({
+  meetingId: '123',
+  password: 'secret',
+  quantity: 1,
+  duration: 30,
+  countryCode: 'US',
+  scheduledAt: RUN_AT,
+  status: 'scheduled',
+  bots: [{ name: 'Bot1' }],
+  userId: 'user-1'
+});
+
+describe('LocalScheduleRepository', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'schedules-'));
+    filePath = path.join(dir, 'schedules.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('lets only one process claim a run', async () => {
+    // Two repositories on one file, as two PM2 instances would have
+    const first = new LocalScheduleRepository(filePath);
+    const second = new LocalScheduleRepository(filePath);
+    const { id } = await first.create(input());
+
+    const claims = await Promise.all([first.claim(id, RUN_AT, { status: 'running' }), second.claim(id, RUN_AT, { status: 'running' })]);
+    assert.deepEqual(claims.filter(Boolean), [true]);
+    const claimed = await second.getById(id);
+    assert.equal(claimed?.status, 'running');
+    assert.equal(claimed?.lastOccurrenceAt, RUN_AT);
+  });
+
+  it('claims each run of a recurring schedule once, in order', async () => {
+    const repository = new LocalScheduleRepository(filePath);
+    const { id } = await repository.create(input());
+
+    assert.equal(await repository.claim(id, RUN_AT), true);
+    assert.equal(await repository.claim(id, RUN_AT), false);
+    assert.equal(await repository.claim(id, '2025-01-01T09:00:00.000Z'), false);
+    assert.equal(await repository.claim(id, '2025-01-02T10:00:00.000Z'), true);
+  });
+
+  it('reads changes made by other processes', async () => {
+    const first = new LocalScheduleRepository(filePath);
+    const second = new LocalScheduleRepository(filePath);
+    const { id } = await first.create(input());
+    await second.update(id, { duration: 45, scheduledAt: undefined });
+
+    const updated = await first.getById(id);
+    assert.equal(updated?.duration, 45);
+    assert.equal('scheduledAt' in (updated || {}), false);
+    assert.deepEqual(updated?.bots, [{ id: '1', name: 'Bot1', countryCode: '', country: '', status: 'Ready', flag: '' }]);
+  });
+
+  it('leaves the file alone when a change fails', async () => {
+    const repository = new LocalScheduleRepository(filePath);
+    await repository.create(input());
+    const before = await fs.readFile(filePath, 'utf8');
+
+    await assert.rejects(repository.updateStatus('unknown', 'cancelled'), /Meeting not found/);
+    assert.equal(await fs.readFile(filePath, 'utf8'), before);
+    // Later changes still go through
+    await repository.create(input());
+    assert.equal((await repository.listUpcoming()).length, 2);
+  });
+
+  it('keeps schedules in memory without a file', async () => {
+    const repository = new LocalScheduleRepository();
+    const { id } = await repository.create(input());
+    await repository.complete(id, 'completed');
+
+    assert.equal((await repository.getById(id))?.status, 'completed');
+    assert.deepEqual((await repository.getHistory('user-1')).map(meeting => meeting.meetingId), ['123']);
+    assert.deepEqual(await fs.readdir(dir), []);
+  });
+});
@@ -0,0 +1,168 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Schedule, ScheduleOccurrence, ScheduleOutcome, ScheduleRunResult, ScheduleStatus } from '../types';
+import { ScheduleRepository } from './scheduleRepository';
+import { isClaimable, isDue } from './scheduleTime';
+import { normalizeScheduleBots } from '../utils/botUtils';
+import { withFileLock } from '../utils/fileLock';
+
+interface LocalScheduleData {
+  upcoming: Schedule[];
+  history: Schedule[];
+  occurrences: ScheduleOccurrence[];
+}
+
+const emptyData = (): LocalScheduleData => ({ upcoming: [], history: [], occurrences: [] });
+
+// Keeps schedules in memory, or in a JSON file when a path is given. The file uses the same
+// shape as the Firestore collections. It is re-read on every call and only changed under
+// `<file>.lock`, so processes sharing it (PM2 instances) see each other's schedules, and
+// meetings added by editing it are picked up on the next read.
+export class LocalScheduleRepository implements ScheduleRepository {
+  private filePath?: string;
+  private data: LocalScheduleData = emptyData();
+  // Changes from this process queue here before taking the file lock
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath?: string, initial?: Partial<LocalScheduleData>) {
+    this.filePath = filePath;
+    if (initial) {
+      this.data = { upcoming: initial.upcoming || [], history: initial.history || [], occurrences: initial.occurrences || [] };
+    }
+  }
+
+  async getDueMeetings(from: Date, to: Date): Promise<Schedule[]> {
+    return (await this.read()).upcoming.filter(meeting => isDue(meeting, from, to));
+  }
+
+  claim(id: string, runAt: string, updates: Partial<Omit<Schedule, 'id'>> = {}): Promise<boolean> {
+    // Checked and updated under the lock, so only one process claims the run
+    return this.change(data => {
+      const meeting = this.findMeeting(data, id);
+      if (!isClaimable(meeting, runAt)) {
+        return false;
+      }
+      Object.assign(meeting, updates, { lastOccurrenceAt: runAt, updatedAt: new Date().toISOString() });
+      return true;
+    });
+  }
+
+  async listUpcoming(): Promise<Schedule[]> {
+    return [...(await this.read()).upcoming];
+  }
+
+  async getById(id: string): Promise<Schedule | null> {
+    return (await this.read()).upcoming.find(meeting => meeting.id === id) || null;
+  }
+
+  create(schedule: Omit<Schedule, 'id' | 'createdAt' | 'updatedAt'>): Promise<Schedule> {
+    return this.change(data => {
+      const created: Schedule = {
+        ...schedule,
+        id: uuidv4(),
+        bots: normalizeScheduleBots(schedule.bots),
+        createdAt: new Date().toISOString()
+      };
+      data.upcoming.push(created);
+      return created;
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.change(data => {
+      this.findMeeting(data, id);
+      data.upcoming = data.upcoming.filter(meeting => meeting.id !== id);
+    });
+  }
+
+  updateStatus(id: string, status: ScheduleStatus, lastRun?: ScheduleRunResult): Promise<void> {
+    return this.change(data => {
+      const meeting = this.findMeeting(data, id);
+      meeting.status = status;
+      meeting.updatedAt = new Date().toISOString();
+      if (lastRun) {
+        meeting.lastRun = lastRun;
+      }
+    });
+  }
+
+  complete(id: string, status: ScheduleOutcome, lastRun?: ScheduleRunResult): Promise<void> {
+    return this.change(data => {
+      const meeting = this.findMeeting(data, id);
+      meeting.status = status;
+      if (lastRun) {
+        meeting.lastRun = lastRun;
+      }
+      meeting.updatedAt = new Date().toISOString();
+      data.history.push({ ...meeting, id: uuidv4(), createdAt: new Date().toISOString() });
+    });
+  }
+
+  async getHistory(userId?: string): Promise<Schedule[]> {
+    return (await this.read()).history.filter(meeting => !userId || meeting.userId === userId);
+  }
+
+  update(id: string, updates: Partial<Omit<Schedule, 'id'>>): Promise<void> {
+    return this.change(data => {
+      const meeting = this.findMeeting(data, id);
+      Object.assign(meeting, updates, { updatedAt: new Date().toISOString() });
+      Object.keys(updates)
+        .filter(key => updates[key as keyof typeof updates] === undefined)
+        .forEach(key => delete meeting[key as keyof Schedule]);
+    });
+  }
+
+  saveOccurrence(occurrence: ScheduleOccurrence): Promise<void> {
+    return this.change(data => {
+      data.occurrences = [...data.occurrences.filter(o => o.id !== occurrence.id), occurrence];
+    });
+  }
+
+  async getOccurrences(scheduleId: string): Promise<ScheduleOccurrence[]> {
+    return (await this.read()).occurrences.filter(occurrence => occurrence.scheduleId === scheduleId);
+  }
+
+  private findMeeting(data: LocalScheduleData, id: string): Schedule {
+    const meeting = data.upcoming.find(m => m.id === id);
+    if (!meeting) {
+      throw new Error('Meeting not found');
+    }
+    return meeting;
+  }
+
+  // Writes go through a temp file and a rename, so reads never see a torn file and need no lock
+  private async read(): Promise<LocalScheduleData> {
+    if (!this.filePath) return this.data;
+
+    try {
+      const contents = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as Partial<LocalScheduleData>;
+      return { upcoming: contents.upcoming || [], history: contents.history || [], occurrences: contents.occurrences || [] };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return emptyData();
+      }
+      throw error;
+    }
+  }
+
+  // Reads the latest data, applies `apply` and writes it back, all under the file lock.
+  // Nothing is written when `apply` throws.
+  private change<T>(apply: (data: LocalScheduleData) => T): Promise<T> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve().then(() => apply(this.data));
+    }
+
+    const run = this.writeChain.then(() => withFileLock(filePath, async () => {
+      const data = await this.read();
+      const result = apply(data);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(`${filePath}.tmp`, JSON.stringify(data, null, 2));
+      await fs.rename(`${filePath}.tmp`, filePath);
+      return result;
+    }));
+    this.writeChain = run.then(() => undefined, () => undefined);
+    return run;
+  }
+}
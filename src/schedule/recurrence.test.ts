@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextOccurrence, parseRule } from './recurrence';
+
+const next = (rule: string, after: string, extra: { exceptDates?: string[]; until?: string } = {}, timeZone = 'UTC', startDate = '2025-01-06'): string | undefined =>
+  getNextOccurrence({ rule, ...extra }, startDate, '09:00', timeZone, new Date(after))?.toISOString();
+
+describe('parseRule', () => {
+  it('reads the supported parts', () => {
+    assert.deepEqual(parseRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE'), { freq: 'WEEKLY', interval: 2, byDay: [1, 3] });
+    assert.deepEqual(parseRule('freq=monthly;bymonthday=1,15;count=6'), { freq: 'MONTHLY', interval: 1, byMonthDay: [1, 15], count: 6 });
+  });
+
+  it('rejects what it cannot schedule', () => {
+    assert.throws(() => parseRule('FREQ=YEARLY'), /Unsupported recurrence frequency: YEARLY/);
+    assert.throws(() => parseRule('INTERVAL=2'), /Unsupported recurrence frequency: missing/);
+    assert.throws(() => parseRule('FREQ=DAILY;BYHOUR=9'), /Unsupported recurrence rule parts: BYHOUR/);
+    assert.throws(() => parseRule('FREQ=DAILY;INTERVAL=0'), /INTERVAL must be a positive integer/);
+    assert.throws(() => parseRule('FREQ=WEEKLY;BYDAY=1MO'), /Unsupported BYDAY value: 1MO/);
+    assert.throws(() => parseRule('FREQ=MONTHLY;BYMONTHDAY=32'), /Unsupported BYMONTHDAY value: 32/);
+    assert.throws(() => parseRule('FREQ=DAILY;COUNT=0'), /COUNT must be a positive integer/);
+    assert.throws(() => parseRule('FREQ=DAILY;INTERVAL'), /Malformed recurrence rule part: INTERVAL/);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('returns an occurrence at exactly `after`', () => {
+    assert.equal(next('FREQ=DAILY', '2025-01-07T09:00:00Z'), '2025-01-07T09:00:00.000Z');
+  });
+
+  it('steps daily rules by their interval', () => {
+    assert.equal(next('FREQ=DAILY;INTERVAL=3', '2025-01-07T00:00:00Z'), '2025-01-09T09:00:00.000Z');
+  });
+
+  it('runs weekly rules on their days, every INTERVAL weeks', () => {
+    // 2025-01-06 is a Monday
+    assert.equal(next('FREQ=WEEKLY;BYDAY=MO,WE', '2025-01-07T00:00:00Z'), '2025-01-08T09:00:00.000Z');
+    assert.equal(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', '2025-01-09T00:00:00Z'), '2025-01-20T09:00:00.000Z');
+    assert.equal(next('FREQ=WEEKLY', '2025-01-07T00:00:00Z'), '2025-01-13T09:00:00.000Z');
+  });
+
+  it('skips months without the day of the month', () => {
+    assert.equal(next('FREQ=MONTHLY', '2025-02-01T00:00:00Z', {}, 'UTC', '2025-01-31'), '2025-03-31T09:00:00.000Z');
+    assert.equal(next('FREQ=MONTHLY;BYMONTHDAY=1,15', '2025-01-16T00:00:00Z'), '2025-02-01T09:00:00.000Z');
+  });
+
+  it('stops after COUNT occurrences, counting excepted dates', () => {
+    assert.equal(next('FREQ=DAILY;COUNT=3', '2025-01-08T00:00:00Z'), '2025-01-08T09:00:00.000Z');
+    assert.equal(next('FREQ=DAILY;COUNT=3', '2025-01-08T10:00:00Z'), undefined);
+    assert.equal(next('FREQ=DAILY;COUNT=3', '2025-01-08T00:00:00Z', { exceptDates: ['2025-01-08'] }), undefined);
+  });
+
+  it('skips excepted dates and stops after `until`', () => {
+    assert.equal(next('FREQ=DAILY', '2025-01-06T10:00:00Z', { exceptDates: ['2025-01-07'] }), '2025-01-08T09:00:00.000Z');
+    assert.equal(next('FREQ=DAILY', '2025-01-09T10:00:00Z', { until: '2025-01-10' }), '2025-01-10T09:00:00.000Z');
+    assert.equal(next('FREQ=DAILY', '2025-01-10T10:00:00Z', { until: '2025-01-10' }), undefined);
+  });
+
+  it('keeps the local time across a DST change', () => {
+    assert.equal(next('FREQ=DAILY', '2025-03-29T09:00:00Z', {}, 'Europe/Berlin', '2025-03-28'), '2025-03-30T07:00:00.000Z');
+    assert.equal(next('FREQ=DAILY', '2025-10-25T08:00:00Z', {}, 'Europe/Berlin', '2025-10-24'), '2025-10-26T08:00:00.000Z');
+  });
+
+  it('returns null when nothing matches before `until`', () => {
+    assert.equal(next('FREQ=MONTHLY;BYMONTHDAY=31;BYDAY=SU', '2025-01-01T00:00:00Z', { until: '2025-06-30' }), undefined);
+  });
+});
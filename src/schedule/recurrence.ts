@@ -0,0 +1,145 @@
+import { ScheduleRecurrence } from '../types';
+import { zonedTimeToUtc } from '../utils/timeZone';
+
+// A subset of RFC 5545 RRULE: FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (plain
+// weekdays), BYMONTHDAY and COUNT. The start date and time come from the schedule and
+// are wall-clock time in its zone, so occurrences stay at 09:00 local across DST changes.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface ParsedRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: number[];
+  byMonthDay?: number[];
+  count?: number;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stops the scan for rules that never match again, e.g. FREQ=MONTHLY;BYMONTHDAY=31;BYDAY=MO
+const MAX_SCAN_DAYS = 366 * 10;
+
+export const parseRule = (rule: string): ParsedRule => {
+  const fields = new Map<string, string>();
+  for (const part of rule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Malformed recurrence rule part: ${part}`);
+    }
+    fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error(`Unsupported recurrence frequency: ${freq ?? 'missing'}`);
+  }
+  const unsupported = Array.from(fields.keys()).filter(key => !['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT'].includes(key));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported recurrence rule parts: ${unsupported.join(', ')}`);
+  }
+
+  const interval = parseInt(fields.get('INTERVAL') || '1');
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error('INTERVAL must be a positive integer');
+  }
+
+  const parsed: ParsedRule = { freq, interval };
+  if (fields.has('BYDAY')) {
+    parsed.byDay = fields.get('BYDAY')!.split(',').map(day => {
+      const index = WEEKDAYS.indexOf(day);
+      if (index === -1) {
+        throw new Error(`Unsupported BYDAY value: ${day}`);
+      }
+      return index;
+    });
+  }
+  if (fields.has('BYMONTHDAY')) {
+    parsed.byMonthDay = fields.get('BYMONTHDAY')!.split(',').map(day => {
+      const value = parseInt(day);
+      if (!Number.isInteger(value) || value < 1 || value > 31) {
+        throw new Error(`Unsupported BYMONTHDAY value: ${day}`);
+      }
+      return value;
+    });
+  }
+  if (fields.has('COUNT')) {
+    parsed.count = parseInt(fields.get('COUNT')!);
+    if (!Number.isInteger(parsed.count) || parsed.count < 1) {
+      throw new Error('COUNT must be a positive integer');
+    }
+  }
+  return parsed;
+};
+
+// Calendar dates are handled as UTC midnights so day arithmetic ignores the host's zone
+const toDay = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const formatDay = (day: number): string => new Date(day).toISOString().slice(0, 10);
+
+const matchesRule = (rule: ParsedRule, startDay: number, day: number): boolean => {
+  const start = new Date(startDay);
+  const current = new Date(day);
+  const daysSinceStart = Math.round((day - startDay) / DAY_MS);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return daysSinceStart % rule.interval === 0
+        && (!rule.byDay || rule.byDay.includes(current.getUTCDay()))
+        && (!rule.byMonthDay || rule.byMonthDay.includes(current.getUTCDate()));
+    case 'WEEKLY': {
+      // Weeks start on Monday, as RRULE's default WKST
+      const startWeek = startDay - ((start.getUTCDay() + 6) % 7) * DAY_MS;
+      const weeksSinceStart = Math.floor((day - startWeek) / (7 * DAY_MS));
+      const days = rule.byDay || [start.getUTCDay()];
+      return weeksSinceStart % rule.interval === 0 && days.includes(current.getUTCDay());
+    }
+    case 'MONTHLY': {
+      const monthsSinceStart = (current.getUTCFullYear() - start.getUTCFullYear()) * 12 + current.getUTCMonth() - start.getUTCMonth();
+      const monthDays = rule.byMonthDay || [start.getUTCDate()];
+      return monthsSinceStart % rule.interval === 0
+        && monthDays.includes(current.getUTCDate())
+        && (!rule.byDay || rule.byDay.includes(current.getUTCDay()));
+    }
+  }
+};
+
+// First occurrence at or after `after`, or null once the rule has run out
+export const getNextOccurrence = (
+  recurrence: ScheduleRecurrence,
+  startDate: string,
+  startTime: string,
+  timeZone: string,
+  after: Date
+): Date | null => {
+  const rule = parseRule(recurrence.rule);
+  const startDay = toDay(startDate);
+  const untilDay = recurrence.until ? toDay(recurrence.until) : Infinity;
+  const exceptions = new Set(recurrence.exceptDates || []);
+
+  // Without COUNT the scan can begin shortly before `after`; with COUNT every earlier occurrence has to be counted
+  const afterDay = toDay(new Date(after.getTime() - 2 * DAY_MS).toISOString().slice(0, 10));
+  const scanFrom = rule.count ? startDay : Math.max(startDay, afterDay);
+  const scanUntil = Math.min(untilDay, Math.max(startDay, afterDay) + MAX_SCAN_DAYS * DAY_MS);
+  let occurrences = 0;
+
+  for (let day = scanFrom; day <= scanUntil; day += DAY_MS) {
+    if (!matchesRule(rule, startDay, day)) continue;
+
+    occurrences++;
+    if (rule.count && occurrences > rule.count) return null;
+
+    const date = formatDay(day);
+    if (exceptions.has(date)) continue;
+
+    const occurrence = zonedTimeToUtc(date, startTime, timeZone);
+    if (occurrence >= after) {
+      return occurrence;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import MeetingScheduler from './schedule';
+import { LeaderElection } from './leaderElection';
+import { LocalScheduleRepository } from './localScheduleRepository';
+import { JoinResult, MeetingService } from '../services/meetingService';
+import { QuotaDecision, QuotaService } from '../services/quotaService';
+import { JoinRequestInput, Schedule, Session } from '../types';
+
+const NOW = Date.parse('2025-01-06T09:03:00Z');
+
+const meeting = (fields: Partial<Schedule>): Omit<Schedule, 'id' | 'createdAt' | 'updatedAt'> => ({
+  meetingId: '123',
+  password: 'secret',
+  quantity: 2,
+  duration: 60,
+  countryCode: 'US',
+  status: 'scheduled',
+  bots: [{ id: 'a', name: 'Alice' }, { id: 'b', name: 'Bob' }],
+  userId: 'user-1',
+  createdBy: { keyId: 'key', name: 'key', scopes: ['join'] },
+  ...fields
+});
+
+describe('MeetingScheduler', () => {
+  let repository: LocalScheduleRepository;
+  let joins: JoinRequestInput[];
+  let successes: number;
+  let quota: (bots: number, durationMinutes: number) => QuotaDecision;
+  let leader: boolean;
+  let finishSession: (session: Session) => void;
+  let scheduler: MeetingScheduler;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: NOW });
+    repository = new LocalScheduleRepository();
+    joins = [];
+    successes = 2;
+    quota = () => ({ allowed: true, remaining: {}, release: () => undefined } as unknown as QuotaDecision);
+    leader = true;
+
+    // Joins are accepted straight away and settle with `successes` bots in
+    const meetingService = {
+      onSessionFinished: (listener: (session: Session) => void) => {
+        finishSession = listener;
+      },
+      startJoin: async (request: JoinRequestInput) => {
+        joins.push(request);
+        const sessionId = `session-${joins.length}`;
+        const result = successes > 0
+          ? { status: 'joined', sessionId, totalBots: 2, successes, failures: [], keptOpenTabs: 1 }
+          : { status: 'failed', sessionId, error: 'No bots joined (wrong_password)' };
+        return { status: 'accepted', session: { id: sessionId }, result: Promise.resolve(result as JoinResult) };
+      }
+    } as unknown as MeetingService;
+    const quotaService = {
+      admitScheduledRun: async (_keyId: string, bots: number, durationMinutes: number) => quota(bots, durationMinutes)
+    } as unknown as QuotaService;
+    const election = {
+      start: async () => undefined,
+      stop: async () => undefined,
+      isLeader: () => leader
+    } as unknown as LeaderElection;
+    scheduler = new MeetingScheduler(repository, meetingService, election, quotaService);
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    mock.timers.reset();
+  });
+
+  it('launches a due run once, for what is left of its duration', async () => {
+    const created = await repository.create(meeting({ scheduledAt: '2025-01-06T09:00:00Z' }));
+    await scheduler.job();
+    await scheduler.job();
+
+    assert.equal(joins.length, 1);
+    assert.deepEqual([joins[0].duration, joins[0].bots?.map(bot => bot.id)], [57, [1, 2]]);
+    const running = await repository.getById(created.id);
+    assert.equal(running?.status, 'running');
+    assert.deepEqual([running?.lastRun?.sessionId, running?.lastRun?.lateMinutes, running?.lastRun?.message], ['session-1', 3, '2/2 bots joined']);
+  });
+
+  it('completes the run when its session ends', async () => {
+    const created = await repository.create(meeting({ scheduledAt: '2025-01-06T09:00:00Z' }));
+    await scheduler.job();
+    finishSession({ id: 'session-1', scheduleId: created.id, status: 'stopped', endedAt: '2025-01-06T10:00:00Z' } as Session);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const [finished] = await repository.getHistory();
+    assert.equal(finished.status, 'completed');
+    assert.deepEqual([finished.lastRun?.finishedAt, finished.lastRun?.message], ['2025-01-06T10:00:00Z', '2/2 bots joined; session stopped']);
+  });
+
+  it('fails the run when no bot gets in', async () => {
+    successes = 0;
+    const created = await repository.create(meeting({ scheduledAt: '2025-01-06T09:00:00Z' }));
+    await scheduler.job();
+
+    const failed = await repository.getById(created.id);
+    assert.equal(failed?.status, 'failed');
+    assert.equal(failed?.lastRun?.error, 'No bots joined (wrong_password)');
+  });
+
+  it('misses runs past the grace period or over the quota', async () => {
+    quota = () => ({ allowed: false, error: 'Would exceed 1 concurrent bots' } as unknown as QuotaDecision);
+    const late = await repository.create(meeting({ scheduledAt: '2025-01-06T08:50:00Z' }));
+    const overQuota = await repository.create(meeting({ meetingId: '456', scheduledAt: '2025-01-06T09:00:00Z' }));
+    await scheduler.job();
+
+    assert.deepEqual(joins, []);
+    assert.deepEqual([(await repository.getById(late.id))?.status, (await repository.getById(late.id))?.lastRun?.missedReason], [
+      'missed',
+      'Not started within the 10-minute grace period (13 minutes late)'
+    ]);
+    assert.equal((await repository.getById(overQuota.id))?.lastRun?.missedReason, 'Over the quota of API key key: Would exceed 1 concurrent bots');
+  });
+
+  it('catches a recurring schedule up on the runs it missed', async () => {
+    const created = await repository.create(meeting({
+      scheduledDate: '2025-01-03',
+      scheduledTime: '09:00',
+      timeZone: 'UTC',
+      recurrence: { rule: 'FREQ=DAILY' }
+    }));
+    // Created before the scheduler went down for three days
+    await repository.update(created.id, { createdAt: '2025-01-01T00:00:00Z' });
+    await scheduler.job();
+
+    assert.equal(joins.length, 1);
+    const occurrences = await repository.getOccurrences(created.id);
+    assert.deepEqual(occurrences.map(occurrence => [occurrence.occurrenceAt, occurrence.status]), [
+      ['2025-01-03T09:00:00.000Z', 'missed'],
+      ['2025-01-04T09:00:00.000Z', 'missed'],
+      ['2025-01-05T09:00:00.000Z', 'missed'],
+      ['2025-01-06T09:00:00.000Z', 'running']
+    ]);
+    const schedule = await repository.getById(created.id);
+    assert.deepEqual([schedule?.status, schedule?.lastOccurrenceAt], ['scheduled', '2025-01-06T09:00:00.000Z']);
+  });
+
+  it('leaves runs to the leader', async () => {
+    leader = false;
+    const created = await repository.create(meeting({ scheduledAt: '2025-01-06T09:00:00Z' }));
+    await scheduler.job();
+
+    assert.deepEqual(joins, []);
+    assert.equal((await repository.getById(created.id))?.status, 'scheduled');
+  });
+});
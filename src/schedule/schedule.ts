@@ -1,142 +1,351 @@
 // src/schedule/schedule.ts
 import schedule from 'node-schedule';
-// import { getUpcomingMeetings } from '../lib/firebase/schedule';
-import { joinMeeting } from '../controllers/meetingController';
-import { JoinRequest } from '../types';
-
-// Mock response and request implementation for non-HTTP context
-class MockResponse {
-  statusCode: number;
-  responseData: any;
-
-  constructor() {
-    this.statusCode = 200;
-    this.responseData = null;
-  }
+import { JoinResult, MeetingService } from '../services/meetingService';
+import { ANONYMOUS_QUOTA_KEY, QuotaService } from '../services/quotaService';
+import { OccurrenceStatus, Schedule, ScheduleOccurrence, ScheduleOutcome, ScheduleRunResult, Session } from '../types';
+import { LeaderElection } from './leaderElection';
+import { ScheduleRepository } from './scheduleRepository';
+import { getRunAt } from './scheduleTime';
+import { QUEUE_MAX_WAIT_SECONDS } from '../schemas/meetingSchemas';
+import { toJoinBots } from '../utils/botUtils';
+import { scheduleRunsFinished, scheduleRunsStarted, schedulerLeader } from '../utils/metrics';
+import { createLogger, runWithLogContext } from '../utils/logger';
+
+const log = createLogger('schedule');
+
+// Missed runs a recurring schedule works through per tick; a long outage is caught up over several ticks
+const MAX_CATCH_UP_RUNS = 100;
 
-  status(code: number) {
-    this.statusCode = code;
-    return this;
+// Scheduled runs can't be retried later, so they go ahead of API requests in the admission queue
+const SCHEDULED_RUN_PRIORITY = 10;
+
+export default class MeetingScheduler {
+  private task: schedule.Job;
+  private repository: ScheduleRepository;
+  private meetingService: MeetingService;
+  private quotaService: QuotaService;
+  private election: LeaderElection;
+  // How late a run may still be launched; later runs are marked 'missed'
+  private readonly GRACE_MS = parseInt(process.env.SCHEDULE_GRACE_MINUTES || '10') * 60 * 1000;
+
+  // Every instance runs a scheduler, but only the holder of the election's lease fires runs
+  // Runs count against the quota of the API key that created their schedule
+  constructor(repository: ScheduleRepository, meetingService: MeetingService, election: LeaderElection, quotaService: QuotaService) {
+    this.repository = repository;
+    this.meetingService = meetingService;
+    this.quotaService = quotaService;
+    this.election = election;
+    this.task = schedule.scheduleJob('*/1 * * * *', this.job.bind(this));
+    this.election.start().catch(error => {
+      log.error('Error starting scheduler leader election', { error });
+    });
+    // Runs settle on the instance that launched their session, leader or not
+    this.meetingService.onSessionFinished(session => {
+      runWithLogContext({ sessionId: session.id, meetingId: session.meetingId }, () =>
+        this.finishRun(session).catch(error => {
+          log.error(`Error settling scheduled run for session ${session.id}`, { error });
+        })
+      );
+    });
   }
 
-  json(data: any) {
-    this.responseData = data;
-    return this;
+  // Stops firing runs and hands the lease to another instance
+  async stop() {
+    this.task.cancel();
+    await this.election.stop();
   }
-}
 
-class MockRequest {
-  body: any;
+  async job() {
+    const leader = this.election.isLeader();
+    schedulerLeader.set(leader ? 1 : 0);
+    if (!leader) {
+      return;
+    }
+
+    try {
+      // Every unclaimed run up to the end of the current minute is picked up, including runs
+      // that came due while the process was down; schedules resolve to UTC instants in their own zone
+      const now = new Date();
+      const windowEnd = new Date(Math.floor(now.getTime() / 60000) * 60000 + 60000);
+
+      let meetings = await this.repository.getDueMeetings(new Date(0), windowEnd);
+
+      if (meetings.length > 0) {
+        // Deduplicate meetings by meetingId
+        const uniqueMeetingIds = new Set();
+        meetings = meetings.filter(meeting => {
+          if (uniqueMeetingIds.has(meeting.meetingId)) {
+            return false;
+          }
+          uniqueMeetingIds.add(meeting.meetingId);
+          return true;
+        });
 
-  constructor(body: any) {
-    this.body = body;
+        log.info(`Processing ${meetings.length} unique upcoming meetings at ${now.toISOString()}`, { scheduleIds: meetings.map(meeting => meeting.id) });
+
+        // Meetings are launched side by side, so one slow join doesn't hold up the rest;
+        // each run's claim keeps it from starting twice
+        await Promise.all(meetings.map(meeting =>
+          // The sessions a run starts are logged under its schedule too
+          runWithLogContext({ scheduleId: meeting.id, meetingId: meeting.meetingId }, () =>
+            this.fireDueRuns(meeting, now, windowEnd).catch(error => {
+              log.error(`Error firing meeting ${meeting.meetingId}`, { error });
+            })
+          )
+        ));
+      } else {
+        log.info(`No meetings scheduled at ${now.toISOString()}`);
+      }
+    } catch (error) {
+      log.error('Error in scheduler job', { error });
+    }
   }
-}
 
-export default class MeetingScheduler {
-  private task: schedule.Job;
+  // Launches the earliest unclaimed run for what is left of its duration, or marks it missed
+  // when it is past the grace period, no time is left or it doesn't fit the quota of the key
+  // that created the schedule. Recurring schedules first mark every older run they missed.
+  private async fireDueRuns(meeting: Schedule, now: Date, windowEnd: Date) {
+    let current = meeting;
+    for (let runs = 0; runs < MAX_CATCH_UP_RUNS; runs++) {
+      const runAt = getRunAt(current);
+      if (!runAt || runAt >= windowEnd) return;
 
-  constructor() {
-    this.task = schedule.scheduleJob('*/1 * * * *', this.job.bind(this));
+      const lateMs = Math.max(0, now.getTime() - runAt.getTime());
+      const lateMinutes = Math.floor(lateMs / 60000);
+      const durationMinutes = (current.duration || 60) - lateMinutes;
+      let missedReason: string | undefined;
+      if (lateMs > this.GRACE_MS) {
+        missedReason = `Not started within the ${this.GRACE_MS / 60000}-minute grace period (${lateMinutes} minutes late)`;
+      } else if (durationMinutes < 1) {
+        missedReason = `Started ${lateMinutes} minutes late, after the meeting would have ended`;
+      }
+
+      if (!missedReason) {
+        const keyId = current.createdBy?.keyId ?? ANONYMOUS_QUOTA_KEY;
+        const quota = await this.quotaService.admitScheduledRun(keyId, (current.bots || []).length, durationMinutes);
+        if (quota.allowed) {
+          // Held until the run's session or queue entry counts the bots itself
+          try {
+            if (current.recurrence) {
+              await this.processOccurrence(current, runAt, lateMinutes, durationMinutes, quota.release);
+            } else {
+              await this.processMeeting(current, runAt, lateMinutes, durationMinutes, quota.release);
+            }
+          } finally {
+            quota.release();
+          }
+          return;
+        }
+        missedReason = `Over the quota of API key ${keyId}: ${quota.error}`;
+      }
+
+      if (!(await this.markMissed(current, runAt, missedReason)) || !current.recurrence) return;
+      current = { ...current, lastOccurrenceAt: runAt.toISOString() };
+    }
   }
 
-  private async job() {
+  private async processMeeting(meeting: Schedule, runAt: Date, lateMinutes: number, durationMinutes: number, releaseQuota: () => void) {
+    const run = this.startRun(meeting, lateMinutes);
+    // Claim the run first so neither the next tick nor another instance starts it again
+    if (!(await this.repository.claim(meeting.id, runAt.toISOString(), { status: 'running', lastRun: run }))) {
+      log.info(`Meeting ${meeting.meetingId} was already claimed`);
+      return;
+    }
+    scheduleRunsStarted.inc();
+
     try {
-      const today = new Date();
-      const indianTime = today
-      .toLocaleTimeString('en-IN', {
-        timeZone: 'Asia/Kolkata',
-        hour12: true,
-        hour: '2-digit',
-        minute: '2-digit',
-      })
-      .split(' ')[0];
-
-      const currentISTDate = today
-      .toLocaleDateString('en-IN', { 
-        timeZone: 'Asia/Kolkata', 
-        year: 'numeric', 
-        month: '2-digit', 
-        day: '2-digit' 
-      })
-      .split('/')
-      .reverse()
-      .join('-');
-
-      const currentISTTime = today
-  .toLocaleTimeString('en-IN', { 
-    timeZone: 'Asia/Kolkata', 
-    hour12: false, 
-    hour: '2-digit', 
-    minute: '2-digit' 
-  })
-  .slice(0, 5);
-
-      // let meetings = await getUpcomingMeetings(currentISTDate, currentISTTime);
-
-      // console.log(`Indian time: ${indianTime}`);
-      // if (meetings.length > 0) {
-      //   // Deduplicate meetings by meetingId
-      //   const uniqueMeetingIds = new Set();
-      //   meetings = meetings.filter(meeting => {
-      //     if (uniqueMeetingIds.has(meeting.meetingId)) {
-      //       return false;
-      //     }
-      //     uniqueMeetingIds.add(meeting.meetingId);
-      //     return true;
-      //   });
-
-      //   console.log(`Processing ${meetings.length} unique upcoming meetings at ${currentISTDate} ${currentISTTime}:`, meetings);
-        
-      //   // Process each unique meeting
-      //   for (const meeting of meetings) {
-      //     await this.processMeeting(meeting);
-      //   }
-      // } else {
-      //   console.log(`No meetings scheduled at ${currentISTDate} ${currentISTTime}`);
-      // }
+      log.info(`Processing meeting: ${meeting.meetingId}${lateMinutes > 0 ? ` (${lateMinutes} minutes late)` : ''}`);
+      const joined = this.recordJoin(run, await this.joinScheduledMeeting(meeting, runAt, durationMinutes, releaseQuota));
+      if (joined.successes === 0) {
+        scheduleRunsFinished.inc({ outcome: 'failed' });
+        await this.repository.complete(meeting.id, 'failed', { ...joined, finishedAt: new Date().toISOString() });
+      } else {
+        // Stays 'running' until its session ends; see finishRun
+        await this.repository.updateStatus(meeting.id, 'running', joined);
+      }
     } catch (error) {
-      console.error('Error in scheduler job:', error);
+      log.error(`Error processing meeting ${meeting.meetingId}`, { error });
+      scheduleRunsFinished.inc({ outcome: 'failed' });
+      const failed = { ...run, error: String(error), finishedAt: new Date().toISOString() };
+      await this.repository.complete(meeting.id, 'failed', failed).catch(updateError => {
+        log.error(`Error marking meeting ${meeting.meetingId} as failed`, { error: updateError });
+      });
     }
   }
 
-  private async processMeeting(meeting: any) {
+  // A recurring schedule stays 'scheduled'; each run gets its own occurrence record
+  private async processOccurrence(meeting: Schedule, occurrenceAt: Date, lateMinutes: number, durationMinutes: number, releaseQuota: () => void) {
+    const occurrence = this.createOccurrence(meeting, occurrenceAt, 'running', this.startRun(meeting, lateMinutes));
+    const claimed = { ...meeting, lastOccurrenceAt: occurrence.occurrenceAt };
+    // Claim the occurrence first so the next tick moves on to the following one
+    if (!(await this.repository.claim(meeting.id, occurrence.occurrenceAt, { lastRun: occurrence.run }))) {
+      log.info(`Occurrence ${occurrence.occurrenceAt} of meeting ${meeting.meetingId} was already claimed`);
+      return;
+    }
+    scheduleRunsStarted.inc();
+
     try {
-      console.log(`Processing meeting: ${meeting.meetingId}`);
-      
-      // Create a join request from the meeting data
-      // Pass the actual bots array from the meeting data
-      const joinRequest: JoinRequest = {
-        meetingId: meeting.meetingId,
-        password: meeting.password,
-        bots: meeting.bots || [], // Use the actual bot objects with their names
-        botCount: 0, // Set to 0 to use only the provided bots array
-        duration: meeting.duration || 60
-      };
-
-      // Debug log to show the actual bot data being passed
-      console.log(`Using bots data:`, joinRequest.bots.map(bot => bot.name || `Bot-${bot.id}`));
-
-      // Create mock request and response objects
-      const mockReq = new MockRequest({ ...joinRequest });
-      const mockRes = new MockResponse();
-      
-      // Call joinMeeting with the mock objects
-      await joinMeeting(mockReq as any, mockRes as any);
-      
-      // Log the result
-      console.log(`Meeting ${meeting.meetingId} processing result:`, 
-        mockRes.statusCode, 
-        mockRes.responseData
-      );
-      
-      // Optionally update the meeting status in your database
-      // await updateMeetingStatus(meeting.id, 'PROCESSING', mockRes.responseData);
-      
+      log.info(`Processing occurrence ${occurrence.occurrenceAt} of meeting: ${meeting.meetingId}`);
+      await this.repository.saveOccurrence(occurrence);
+
+      const joined = this.recordJoin(occurrence.run, await this.joinScheduledMeeting(meeting, occurrenceAt, durationMinutes, releaseQuota));
+      if (joined.successes === 0) {
+        scheduleRunsFinished.inc({ outcome: 'failed' });
+        await this.finishOccurrence(claimed, occurrence, 'failed', { ...joined, finishedAt: new Date().toISOString() });
+      } else {
+        await this.repository.saveOccurrence({ ...occurrence, run: joined });
+        await this.repository.update(meeting.id, { lastRun: joined });
+      }
     } catch (error) {
-      console.error(`Error processing meeting ${meeting.meetingId}:`, error);
-      // Optionally update meeting status to failed
-      // await updateMeetingStatus(meeting.id, 'FAILED', { error: String(error) });
+      log.error(`Error processing occurrence ${occurrence.occurrenceAt} of meeting ${meeting.meetingId}`, { error });
+      scheduleRunsFinished.inc({ outcome: 'failed' });
+      const failed = { ...occurrence.run, error: String(error), finishedAt: new Date().toISOString() };
+      await this.finishOccurrence(claimed, occurrence, 'failed', failed).catch(saveError => {
+        log.error(`Error recording failed occurrence of meeting ${meeting.meetingId}`, { error: saveError });
+      });
     }
   }
-}
\ No newline at end of file
+
+  // Returns false when the run had already been claimed elsewhere
+  private async markMissed(meeting: Schedule, runAt: Date, reason: string): Promise<boolean> {
+    const run: ScheduleRunResult = { ...this.startRun(meeting), finishedAt: new Date().toISOString(), missedReason: reason };
+    const updates: Partial<Schedule> = meeting.recurrence ? { lastRun: run } : { status: 'missed', lastRun: run };
+    if (!(await this.repository.claim(meeting.id, runAt.toISOString(), updates))) {
+      return false;
+    }
+
+    log.warn(`Run at ${runAt.toISOString()} of meeting ${meeting.meetingId} missed: ${reason}`);
+    scheduleRunsFinished.inc({ outcome: 'missed' });
+    if (meeting.recurrence) {
+      const occurrence = this.createOccurrence(meeting, runAt, 'missed', run);
+      await this.finishOccurrence({ ...meeting, lastOccurrenceAt: occurrence.occurrenceAt }, occurrence, 'missed', run);
+    } else {
+      await this.repository.complete(meeting.id, 'missed', run);
+    }
+    return true;
+  }
+
+  private createOccurrence(meeting: Schedule, occurrenceAt: Date, status: OccurrenceStatus, run: ScheduleRunResult): ScheduleOccurrence {
+    return {
+      id: `${meeting.id}_${occurrenceAt.toISOString()}`,
+      scheduleId: meeting.id,
+      occurrenceAt: occurrenceAt.toISOString(),
+      status,
+      run
+    };
+  }
+
+  private async finishOccurrence(meeting: Schedule, occurrence: ScheduleOccurrence, status: ScheduleOutcome, run: ScheduleRunResult) {
+    await this.repository.saveOccurrence({ ...occurrence, status, run });
+    // The parent is archived once its rule has no occurrences left
+    if (getRunAt(meeting, new Date(occurrence.occurrenceAt))) {
+      await this.repository.update(meeting.id, { lastRun: run });
+    } else {
+      await this.repository.complete(meeting.id, 'completed', run);
+    }
+  }
+
+  // Settles the schedule or occurrence whose run started this session. The session names its
+  // schedule and the lookup goes through the repository, so runs still settle after a restart
+  // resumes their session.
+  private async finishRun(session: Session) {
+    if (!session.scheduleId) return;
+    const meeting = await this.repository.getById(session.scheduleId);
+    if (!meeting || meeting.lastRun?.sessionId !== session.id || meeting.lastRun.finishedAt) return;
+
+    const run = this.settleRun(meeting.lastRun, session);
+    const status = this.getOutcome(run, session);
+    log.info(`Meeting ${meeting.meetingId} run finished as ${status}: ${run.message}`);
+    scheduleRunsFinished.inc({ outcome: status });
+
+    if (!meeting.recurrence) {
+      await this.repository.complete(meeting.id, status, run);
+      return;
+    }
+    const occurrence = (await this.repository.getOccurrences(meeting.id))
+      .find(candidate => candidate.status === 'running' && candidate.run.sessionId === session.id);
+    if (occurrence) {
+      await this.finishOccurrence(meeting, occurrence, status, run);
+    }
+  }
+
+  private startRun(meeting: Schedule, lateMinutes = 0): ScheduleRunResult {
+    const run: ScheduleRunResult = {
+      startedAt: new Date().toISOString(),
+      totalBots: (meeting.bots || []).length,
+      successes: 0,
+      failures: 0,
+      tabsOpened: 0,
+      tabsFailed: 0
+    };
+    if (lateMinutes > 0) {
+      run.lateMinutes = lateMinutes;
+    }
+    return run;
+  }
+
+  private recordJoin(run: ScheduleRunResult, result: JoinResult): ScheduleRunResult {
+    const joined: ScheduleRunResult = { ...run, joinStatus: result.status, joinedAt: new Date().toISOString() };
+    if ('sessionId' in result) {
+      joined.sessionId = result.sessionId;
+    }
+    if ('error' in result) {
+      return { ...joined, failures: run.totalBots, error: result.error };
+    }
+
+    const failedTabs = new Set(result.failures
+      .filter(failure => failure.tabId && (failure.joinState === 'failed' || failure.joinState === 'ended'))
+      .map(failure => failure.tabId));
+    return {
+      ...joined,
+      totalBots: result.totalBots,
+      successes: result.successes,
+      failures: result.failures.length,
+      tabsOpened: result.keptOpenTabs,
+      tabsFailed: failedTabs.size,
+      message: `${result.successes}/${result.totalBots} bots joined`
+    };
+  }
+
+  private settleRun(run: ScheduleRunResult, session: Session): ScheduleRunResult {
+    const settled: ScheduleRunResult = {
+      ...run,
+      finishedAt: session.endedAt || new Date().toISOString(),
+      message: `${run.message ? `${run.message}; ` : ''}session ${session.status}`
+    };
+    if (session.error) settled.error = session.error;
+    return settled;
+  }
+
+  // A session cut short by a crash or restart only partly did its job
+  private getOutcome(run: ScheduleRunResult, session: Session): ScheduleOutcome {
+    if (run.failures > 0 || session.status === 'failed' || session.status === 'interrupted') {
+      return 'partially_failed';
+    }
+    return 'completed';
+  }
+
+  private async joinScheduledMeeting(meeting: Schedule, runAt: Date, durationMinutes: number, releaseQuota: () => void): Promise<JoinResult> {
+    const bots = toJoinBots(meeting.bots || []);
+    log.info('Using bots data', { bots: bots.map(bot => bot.name) });
+
+    let started = await this.meetingService.startJoin({
+      meetingId: meeting.meetingId,
+      password: meeting.password,
+      bots,
+      botCount: 0,
+      duration: durationMinutes,
+      priority: SCHEDULED_RUN_PRIORITY,
+      // At capacity, the run waits in the queue for what is left of its grace period
+      maxWaitSeconds: Math.min(QUEUE_MAX_WAIT_SECONDS, Math.max(0, Math.floor((runAt.getTime() + this.GRACE_MS - Date.now()) / 1000)))
+    }, undefined, meeting.createdBy, meeting.id);
+    // Its session or queue entry now counts against the key's quota
+    releaseQuota();
+    if (started.status === 'queued') {
+      started = await started.started;
+    }
+    const result = started.status === 'accepted' ? await started.result : started;
+    log.info(`Meeting ${meeting.meetingId} join result: ${result.status}`);
+    return result;
+  }
+}
@@ -0,0 +1,51 @@
+import path from 'path';
+import { STATE_DIR } from '../utils/stateStore';
+import { FirestoreScheduleRepository } from './firestoreScheduleRepository';
+import { LocalScheduleRepository } from './localScheduleRepository';
+import { Schedule, ScheduleOccurrence, ScheduleOutcome, ScheduleRunResult, ScheduleStatus } from '../types';
+
+// Storage for scheduled meetings. The scheduler only talks to this interface, so it runs
+// the same against Firestore, the Firestore emulator or a local JSON file.
+export interface ScheduleRepository {
+  // Meetings still in 'scheduled' status whose next unclaimed run instant falls in [from, to)
+  getDueMeetings(from: Date, to: Date): Promise<Schedule[]>;
+  // Atomically sets lastOccurrenceAt to `runAt`, plus `updates`, if the run is still
+  // unclaimed (see isClaimable). Returns false when another run or instance got there first.
+  claim(id: string, runAt: string, updates?: Partial<Omit<Schedule, 'id'>>): Promise<boolean>;
+  listUpcoming(): Promise<Schedule[]>;
+  getById(id: string): Promise<Schedule | null>;
+  create(schedule: Omit<Schedule, 'id' | 'createdAt' | 'updatedAt'>): Promise<Schedule>;
+  delete(id: string): Promise<void>;
+  updateStatus(id: string, status: ScheduleStatus, lastRun?: ScheduleRunResult): Promise<void>;
+  // Records the final outcome of a run and copies the meeting into the history
+  complete(id: string, status: ScheduleOutcome, lastRun?: ScheduleRunResult): Promise<void>;
+  getHistory(userId?: string): Promise<Schedule[]>;
+  // Fields set to undefined are removed from the stored schedule
+  update(id: string, updates: Partial<Omit<Schedule, 'id'>>): Promise<void>;
+  // Outcome of one run of a recurring schedule, keyed by occurrence id (inserted or replaced)
+  saveOccurrence(occurrence: ScheduleOccurrence): Promise<void>;
+  getOccurrences(scheduleId: string): Promise<ScheduleOccurrence[]>;
+}
+
+export const createScheduleRepository = (): ScheduleRepository => {
+  const kind = process.env.SCHEDULE_STORE || (process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ? 'firestore' : 'file');
+  switch (kind) {
+    case 'firestore':
+      return new FirestoreScheduleRepository();
+    case 'file':
+    case 'memory':
+      return new LocalScheduleRepository(kind === 'file' ? process.env.SCHEDULE_FILE || path.join(STATE_DIR, 'schedules.json') : undefined);
+    default:
+      throw new Error(`Unknown SCHEDULE_STORE: ${kind}`);
+  }
+};
+
+let sharedRepository: ScheduleRepository | undefined;
+
+// The repository shared by the scheduler and the schedule API
+export const getScheduleRepository = (): ScheduleRepository => {
+  if (!sharedRepository) {
+    sharedRepository = createScheduleRepository();
+  }
+  return sharedRepository;
+};
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeNextRun, getRunAt, isClaimable, isDue } from './scheduleTime';
+import { Schedule } from '../types';
+
+const schedule = (fields: Partial<Schedule>): Schedule => ({
+  id: 'schedule-1',
+  meetingId: '123',
+  password: 'secret',
+  quantity: 1,
+  duration: 60,
+  countryCode: 'US',
+  status: 'scheduled',
+  bots: [],
+  userId: 'user-1',
+  createdAt: '2025-01-01T00:00:00Z',
+  ...fields
+});
+
+const daily = schedule({ scheduledDate: '2025-01-06', scheduledTime: '09:00', timeZone: 'Europe/Berlin', recurrence: { rule: 'FREQ=DAILY' } });
+
+describe('getRunAt', () => {
+  it('prefers scheduledAt over the wall-clock date and time', () => {
+    const runAt = getRunAt(schedule({ scheduledAt: '2025-01-06T12:00:00Z', scheduledDate: '2025-01-06', scheduledTime: '09:00' }));
+    assert.equal(runAt?.toISOString(), '2025-01-06T12:00:00.000Z');
+  });
+
+  it('reads the date and time in India time when no zone was stored', () => {
+    assert.equal(getRunAt(schedule({ scheduledDate: '2025-01-06', scheduledTime: '09:00' }))?.toISOString(), '2025-01-06T03:30:00.000Z');
+    assert.equal(getRunAt(schedule({ scheduledDate: '2025-01-06' })), null);
+  });
+
+  it('moves a recurring schedule past its last claimed run', () => {
+    assert.equal(getRunAt(daily)?.toISOString(), '2025-01-06T08:00:00.000Z');
+    assert.equal(getRunAt({ ...daily, lastOccurrenceAt: '2025-01-06T08:00:00.000Z' })?.toISOString(), '2025-01-07T08:00:00.000Z');
+  });
+});
+
+describe('isDue', () => {
+  it('takes runs in [from, to) of schedules still waiting', () => {
+    const from = new Date('2025-01-06T08:00:00Z');
+    assert.equal(isDue(daily, from, new Date('2025-01-06T08:01:00Z')), true);
+    assert.equal(isDue(daily, new Date('2025-01-06T07:00:00Z'), from), false);
+    assert.equal(isDue({ ...daily, status: 'running' }, from, new Date('2025-01-06T08:01:00Z')), false);
+  });
+});
+
+describe('isClaimable', () => {
+  it('claims each run once and never an earlier one', () => {
+    assert.equal(isClaimable(daily, '2025-01-06T08:00:00.000Z'), true);
+    const claimed = { ...daily, lastOccurrenceAt: '2025-01-06T08:00:00.000Z' };
+    assert.equal(isClaimable(claimed, '2025-01-06T08:00:00.000Z'), false);
+    assert.equal(isClaimable(claimed, '2025-01-05T08:00:00.000Z'), false);
+    assert.equal(isClaimable(claimed, '2025-01-07T08:00:00.000Z'), true);
+    assert.equal(isClaimable({ ...daily, status: 'missed' }, '2025-01-07T08:00:00.000Z'), false);
+  });
+});
+
+describe('describeNextRun', () => {
+  it('gives the next run in UTC and in the schedule\'s zone', () => {
+    assert.deepEqual(describeNextRun(daily, new Date('2025-01-06T10:00:00Z')), {
+      utc: '2025-01-07T08:00:00.000Z',
+      local: '2025-01-07T09:00:00+01:00',
+      timeZone: 'Europe/Berlin'
+    });
+    assert.equal(describeNextRun({ ...daily, status: 'completed' }), null);
+  });
+});
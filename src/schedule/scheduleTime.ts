@@ -0,0 +1,97 @@
+import { Schedule } from '../types';
+import { formatInTimeZone, zonedTimeToUtc } from '../utils/timeZone';
+import { getNextOccurrence } from './recurrence';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('scheduleTime');
+
+// Schedules written before time zones were stored were all entered in India time
+export const DEFAULT_SCHEDULE_TIME_ZONE = process.env.DEFAULT_SCHEDULE_TIME_ZONE || 'Asia/Kolkata';
+
+export interface ScheduleRun {
+  utc: string;
+  local: string;
+  timeZone: string;
+}
+
+export const getScheduleTimeZone = (schedule: Schedule): string => schedule.timeZone || DEFAULT_SCHEDULE_TIME_ZONE;
+
+// The instant a schedule is due. `scheduledAt` wins; otherwise the wall-clock date and
+// time are resolved in the schedule's zone. Recurring schedules return their first
+// occurrence at or after `after` that hasn't been started yet.
+export const getRunAt = (schedule: Schedule, after: Date = new Date(0)): Date | null => {
+  if (schedule.recurrence) {
+    return getNextRecurringRun(schedule, after);
+  }
+  if (schedule.scheduledAt) {
+    const runAt = new Date(schedule.scheduledAt);
+    return Number.isNaN(runAt.getTime()) ? null : runAt;
+  }
+  if (!schedule.scheduledDate || !schedule.scheduledTime) {
+    return null;
+  }
+  try {
+    return zonedTimeToUtc(schedule.scheduledDate, schedule.scheduledTime, getScheduleTimeZone(schedule));
+  } catch (error) {
+    log.warn(`Schedule ${schedule.id} has an unusable date, time or time zone`, { error });
+    return null;
+  }
+};
+
+// Accepts ISO strings from the local store and Timestamps from Firestore
+const toDate = (value: unknown): Date | null => {
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'string' || typeof value === 'number') {
+    date = new Date(value);
+  } else if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    date = (value as { toDate(): Date }).toDate();
+  } else {
+    return null;
+  }
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const getNextRecurringRun = (schedule: Schedule, after: Date): Date | null => {
+  if (!schedule.recurrence || !schedule.scheduledDate || !schedule.scheduledTime) {
+    return null;
+  }
+  // Occurrences from before the schedule existed were never meant to run, so they can't be missed either
+  const candidates = [after, toDate(schedule.createdAt)];
+  if (schedule.lastOccurrenceAt) {
+    candidates.push(new Date(Date.parse(schedule.lastOccurrenceAt) + 1));
+  }
+  const from = candidates.reduce<Date>((latest, date) => (date && date > latest ? date : latest), after);
+  try {
+    return getNextOccurrence(
+      schedule.recurrence,
+      schedule.scheduledDate,
+      schedule.scheduledTime,
+      getScheduleTimeZone(schedule),
+      from
+    );
+  } catch (error) {
+    log.warn(`Schedule ${schedule.id} has an unusable recurrence`, { error });
+    return null;
+  }
+};
+
+export const isDue = (schedule: Schedule, from: Date, to: Date): boolean => {
+  if (schedule.status !== 'scheduled') return false;
+  const runAt = getRunAt(schedule, from);
+  return runAt !== null && runAt >= from && runAt < to;
+};
+
+// A run may be claimed once: the schedule must still be waiting and must not have claimed this or a later run
+export const isClaimable = (schedule: Schedule, runAt: string): boolean => schedule.status === 'scheduled'
+  && (!schedule.lastOccurrenceAt || Date.parse(schedule.lastOccurrenceAt) < Date.parse(runAt));
+
+export const describeNextRun = (schedule: Schedule, now: Date = new Date()): ScheduleRun | null => {
+  const runAt = schedule.recurrence ? getRunAt(schedule, now) : getRunAt(schedule);
+  if (!runAt || schedule.status !== 'scheduled') {
+    return null;
+  }
+  const timeZone = getScheduleTimeZone(schedule);
+  return { utc: runAt.toISOString(), local: formatInTimeZone(runAt, timeZone), timeZone };
+};
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateScheduleInput } from './scheduleValidation';
+import { ScheduleBodySchema } from '../schemas/scheduleSchemas';
+import { MAX_DURATION_MINUTES } from '../schemas/meetingSchemas';
+import { Schedule } from '../types';
+
+const body = { meetingId: '123', password: 'secret', userId: 'user-1' };
+
+const paths = (result: ReturnType<typeof validateScheduleInput>) => result.details.map(({ path, code }) => ({ path, code }));
+
+describe('validateScheduleInput', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-01-01T10:00:00Z') });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('normalizes a new schedule', () => {
+    const { value, details } = validateScheduleInput({ ...body, quantity: 2, scheduledAt: '2025-01-01T12:00:00+01:00' });
+
+    assert.deepEqual(details, []);
+    assert.equal(value?.scheduledAt, '2025-01-01T11:00:00.000Z');
+    assert.deepEqual(value?.bots.map((bot: { id: string; name: string }) => [bot.id, bot.name]), [['1', 'Bot1'], ['2', 'Bot2']]);
+    assert.equal(value?.duration, 60);
+    assert.equal(value?.status, 'scheduled');
+  });
+
+  it('asks for bots and a run time', () => {
+    assert.deepEqual(paths(validateScheduleInput(body)), [
+      { path: 'body.bots', code: 'no_bots' },
+      { path: 'body.scheduledDate', code: 'missing_run_time' },
+      { path: 'body.scheduledTime', code: 'missing_run_time' }
+    ]);
+  });
+
+  it('refuses runs in the past and recurring schedules with an instant', () => {
+    assert.deepEqual(paths(validateScheduleInput({ ...body, quantity: 1, scheduledAt: '2025-01-01T09:00:00Z' })), [
+      { path: 'body.scheduledAt', code: 'not_in_future' }
+    ]);
+    assert.deepEqual(paths(validateScheduleInput({ ...body, quantity: 1, scheduledAt: '2025-01-02T09:00:00Z', recurrence: { rule: 'FREQ=DAILY' } })), [
+      { path: 'body.scheduledAt', code: 'recurring_scheduled_at' }
+    ]);
+  });
+
+  it('keeps the client\'s bot ids, even repeated ones', () => {
+    const { value, details } = validateScheduleInput({
+      ...body,
+      bots: [{ id: 1, name: 'Bot1' }, { id: '1', name: 'Bot2' }],
+      scheduledAt: '2025-01-02T09:00:00Z'
+    });
+
+    // Each run numbers the bots afresh, so they still make a valid join request
+    assert.deepEqual(details, []);
+    assert.deepEqual(value?.bots.map((bot: { id: string }) => bot.id), ['1', '1']);
+  });
+
+  it('merges an update over the stored schedule', () => {
+    const existing = {
+      ...body,
+      id: 'schedule-1',
+      quantity: 1,
+      bots: [{ id: '1', name: 'Bot1' }],
+      duration: 30,
+      countryCode: 'US',
+      scheduledAt: '2025-01-02T09:00:00.000Z',
+      status: 'scheduled',
+      createdAt: '2025-01-01T09:00:00.000Z'
+    } as Schedule;
+    const { value, details } = validateScheduleInput({ scheduledDate: '2025-01-03', scheduledTime: '09:00', timeZone: 'Europe/Berlin', quantity: 3 }, existing);
+
+    assert.deepEqual(details, []);
+    assert.equal(value?.scheduledAt, undefined);
+    assert.deepEqual([value?.scheduledDate, value?.scheduledTime, value?.timeZone], ['2025-01-03', '09:00', 'Europe/Berlin']);
+    assert.equal(value?.bots.length, 3);
+    assert.equal(value?.duration, 30);
+  });
+
+  it('stops a schedule from repeating with a null recurrence', () => {
+    const existing = {
+      ...body,
+      id: 'schedule-1',
+      quantity: 1,
+      bots: [{ id: '1', name: 'Bot1' }],
+      duration: 30,
+      countryCode: 'US',
+      scheduledDate: '2025-01-02',
+      scheduledTime: '09:00',
+      recurrence: { rule: 'FREQ=DAILY' },
+      status: 'scheduled',
+      createdAt: '2025-01-01T09:00:00.000Z'
+    } as Schedule;
+    const { value, details } = validateScheduleInput({ recurrence: null }, existing);
+
+    assert.deepEqual(details, []);
+    assert.equal(value?.recurrence, undefined);
+  });
+});
+
+describe('ScheduleBodySchema', () => {
+  it('refuses read-only fields, malformed dates, zones and rules, and joins over the limits', () => {
+    const result = ScheduleBodySchema.safeParse({
+      status: 'completed',
+      scheduledDate: '2025-02-30',
+      timeZone: 'Mars/Olympus',
+      recurrence: { rule: 'FREQ=YEARLY' },
+      duration: MAX_DURATION_MINUTES + 1
+    });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(!result.success && result.error.issues.map(issue => issue.path.join('.')).sort(), ['', 'duration', 'recurrence.rule', 'scheduledDate', 'timeZone']);
+  });
+});
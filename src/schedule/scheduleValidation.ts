@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { Schedule } from '../types';
+import { normalizeScheduleBots, toJoinBots } from '../utils/botUtils';
+import { ApiErrorDetail, toErrorDetails } from '../utils/apiError';
+import { ScheduleBodySchema, ScheduleSchema } from '../schemas/scheduleSchemas';
+import { JoinRequestSchema } from '../schemas/meetingSchemas';
+import { DEFAULT_SCHEDULE_TIME_ZONE, getRunAt } from './scheduleTime';
+
+export type ScheduleInput = Omit<Schedule, 'id' | 'createdAt' | 'updatedAt' | 'lastRun' | 'lastOccurrenceAt' | 'createdBy'>;
+
+export type ScheduleBody = z.infer<typeof ScheduleBodySchema>;
+
+// Fields a client may set on create and change on update
+const EDITABLE_FIELDS = Object.keys(ScheduleBodySchema.shape) as (keyof ScheduleBody)[];
+
+// Checks a create body, already parsed against ScheduleBodySchema, or an update body merged
+// over `existing`. Returns the normalized schedule fields, or one detail per problem with
+// paths under `body`.
+export const validateScheduleInput = (
+  body: ScheduleBody,
+  existing?: Schedule
+): { value?: ScheduleInput; details: ApiErrorDetail[] } => {
+  // Switching between an absolute instant and wall-clock time drops the other form
+  const merged: Record<string, unknown> = {};
+  if (existing) {
+    EDITABLE_FIELDS.forEach(field => {
+      if (existing[field] !== undefined) merged[field] = existing[field];
+    });
+  }
+  if (body.scheduledAt !== undefined) {
+    delete merged.scheduledDate;
+    delete merged.scheduledTime;
+  } else if (body.scheduledDate !== undefined || body.scheduledTime !== undefined) {
+    delete merged.scheduledAt;
+  }
+  if (body.bots !== undefined || body.quantity !== undefined) {
+    delete merged.bots;
+  }
+  Object.assign(merged, body);
+  if (merged.recurrence === null) {
+    delete merged.recurrence;
+  }
+
+  const parsed = ScheduleSchema.safeParse(merged);
+  if (!parsed.success) {
+    return { details: toErrorDetails(parsed.error, ['body']) };
+  }
+
+  const schedule = parsed.data;
+  // Without explicit bots, `quantity` numbered bots are created
+  const bots = schedule.bots && schedule.bots.length > 0
+    ? normalizeScheduleBots(schedule.bots.map(bot => ({ ...bot, id: bot.id === undefined ? undefined : String(bot.id) })))
+    : normalizeScheduleBots(Array.from({ length: schedule.quantity as number }, () => ({})));
+
+  const value: ScheduleInput = {
+    meetingId: schedule.meetingId,
+    password: schedule.password,
+    userId: schedule.userId,
+    bots,
+    quantity: bots.length,
+    duration: schedule.duration ?? 60,
+    countryCode: schedule.countryCode ?? '',
+    timeZone: schedule.timeZone ?? DEFAULT_SCHEDULE_TIME_ZONE,
+    status: existing?.status ?? 'scheduled'
+  };
+  if (schedule.scheduledAt !== undefined) {
+    value.scheduledAt = new Date(schedule.scheduledAt).toISOString();
+  } else {
+    value.scheduledDate = schedule.scheduledDate;
+    value.scheduledTime = schedule.scheduledTime;
+  }
+  if (schedule.recurrence) {
+    value.recurrence = schedule.recurrence;
+  }
+
+  // Each run is a join request, so the schedule has to make a valid one
+  const join = JoinRequestSchema.safeParse({
+    meetingId: value.meetingId,
+    password: value.password,
+    bots: toJoinBots(value.bots),
+    duration: value.duration
+  });
+  if (!join.success) {
+    return { details: toErrorDetails(join.error, ['body']) };
+  }
+
+  const nextRun = getRunAt({ ...value, id: existing?.id ?? 'new', createdAt: null, lastOccurrenceAt: existing?.lastOccurrenceAt }, new Date());
+  if (!nextRun || nextRun.getTime() <= Date.now()) {
+    const message = value.recurrence ? 'Recurrence has no upcoming occurrences' : 'Scheduled time must be in the future';
+    return {
+      details: [{
+        path: value.recurrence ? 'body.recurrence' : value.scheduledAt ? 'body.scheduledAt' : 'body.scheduledDate',
+        code: 'not_in_future',
+        message
+      }]
+    };
+  }
+  return { value, details: [] };
+};
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+// `admin` implies every other scope
+export const ApiKeyScopeSchema = z.enum(['join', 'read', 'admin']);
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(ApiKeyScopeSchema).min(1).transform(scopes => Array.from(new Set(scopes)))
+});
+
+export const ApiKeyParamsSchema = z.object({
+  id: z.string().regex(/^[0-9a-f]{12}$/, 'Must be an API key id')
+});
+
+// null resets a limit to the default, 0 lifts it
+const QuotaLimitSchema = z.number().int().min(0).nullable().optional();
+
+export const UpdateQuotaSchema = z.object({
+  maxConcurrentBots: QuotaLimitSchema,
+  maxBotMinutesPerDay: QuotaLimitSchema,
+  maxJoinRequestsPerMinute: QuotaLimitSchema
+}).refine(update => Object.values(update).some(limit => limit !== undefined), {
+  message: 'Provide at least one of maxConcurrentBots, maxBotMinutesPerDay or maxJoinRequestsPerMinute'
+});
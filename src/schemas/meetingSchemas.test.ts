@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ZodTypeAny } from 'zod';
+import { JoinRequestSchema, MAX_BOTS_PER_REQUEST, UpdateSessionSchema } from './meetingSchemas';
+import { toErrorDetails } from '../utils/apiError';
+
+// The details a route would answer with for `input`, or [] when it parses
+const detailsFor = (schema: ZodTypeAny, input: unknown) => {
+  const result = schema.safeParse(input);
+  return result.success ? [] : toErrorDetails(result.error, ['body']).map(({ path, code }) => ({ path, code }));
+};
+
+describe('JoinRequestSchema', () => {
+  it('fills in the defaults', () => {
+    const request = JoinRequestSchema.parse({ meetingId: ' 123 ', password: 'secret', botCount: 2, duration: 30.7 });
+
+    assert.equal(request.meetingId, '123');
+    assert.equal(request.duration, 30);
+    assert.deepEqual(request.bots, []);
+    assert.equal(request.priority, 0);
+    assert.deepEqual([request.disableVideo, request.disableAudio, request.lowResolution, request.skipJoinIndicator], [true, true, true, false]);
+    assert.equal(request.selectorTimeout, undefined);
+  });
+
+  it('reports every invalid field by path', () => {
+    assert.deepEqual(detailsFor(JoinRequestSchema, {
+      meetingId: '',
+      password: 'secret',
+      bots: [{ id: 1, name: 'Bot1' }, { id: 0, name: 'Bot2' }],
+      duration: 0
+    }), [
+      { path: 'body.meetingId', code: 'too_small' },
+      { path: 'body.bots[1].id', code: 'too_small' },
+      { path: 'body.duration', code: 'too_small' }
+    ]);
+  });
+
+  it('refuses duplicate bot ids and requests without bots', () => {
+    assert.deepEqual(detailsFor(JoinRequestSchema, {
+      meetingId: '123',
+      password: 'secret',
+      bots: [{ id: 1, name: 'Bot1' }, { id: 1, name: 'Bot2' }]
+    }), [{ path: 'body.bots[1].id', code: 'duplicate_bot_id' }]);
+    assert.deepEqual(detailsFor(JoinRequestSchema, { meetingId: '123', password: 'secret' }), [{ path: 'body.bots', code: 'no_bots' }]);
+  });
+
+  it('counts listed and generated bots against the limit', () => {
+    assert.deepEqual(detailsFor(JoinRequestSchema, {
+      meetingId: '123',
+      password: 'secret',
+      bots: [{ id: 1, name: 'Bot1' }],
+      botCount: MAX_BOTS_PER_REQUEST
+    }), [{ path: 'body.botCount', code: 'too_many_bots' }]);
+  });
+
+  it('keeps selector timeouts within bounds', () => {
+    const request = { meetingId: '123', password: 'secret', botCount: 1 };
+
+    assert.equal(JoinRequestSchema.parse({ ...request, selectorTimeout: 5000 }).selectorTimeout, 5000);
+    assert.deepEqual(detailsFor(JoinRequestSchema, { ...request, selectorTimeout: 500 }), [{ path: 'body.selectorTimeout', code: 'too_small' }]);
+    assert.deepEqual(detailsFor(JoinRequestSchema, { ...request, selectorTimeout: 24 * 60 * 60 * 1000 }), [{ path: 'body.selectorTimeout', code: 'too_big' }]);
+  });
+});
+
+describe('UpdateSessionSchema', () => {
+  it('takes exactly one of durationMinutes or endsAt', () => {
+    assert.deepEqual(detailsFor(UpdateSessionSchema, { durationMinutes: 30 }), []);
+    assert.deepEqual(detailsFor(UpdateSessionSchema, { endsAt: '2025-01-01T11:00:00+01:00' }), []);
+    assert.deepEqual(detailsFor(UpdateSessionSchema, {}), [{ path: 'body', code: 'invalid_update' }]);
+    assert.deepEqual(detailsFor(UpdateSessionSchema, { durationMinutes: 30, endsAt: '2025-01-01T11:00:00Z' }), [{ path: 'body', code: 'invalid_update' }]);
+  });
+});
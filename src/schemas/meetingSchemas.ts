@@ -0,0 +1,87 @@
+import { z } from 'zod';
+
+// Request shapes for the join API. The TypeScript types in types.d.ts are inferred from
+// these, so the declared types and what the routes accept can't drift apart.
+
+export const MAX_BOTS_PER_REQUEST = parseInt(process.env.MAX_BOTS_PER_REQUEST || '500');
+export const MAX_DURATION_MINUTES = parseInt(process.env.MAX_DURATION_MINUTES || '1440');
+export const QUEUE_MAX_WAIT_SECONDS = parseInt(process.env.QUEUE_MAX_WAIT_SECONDS || '600');
+export const MAX_SELECTOR_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const BrowserTypeSchema = z.enum(['chromium', 'firefox', 'webkit']);
+
+export const BotSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().trim().min(1).max(100),
+  status: z.string().default('ready'),
+  browserType: BrowserTypeSchema.optional(),
+  country: z.string().optional(),
+  countryCode: z.string().optional(),
+  flag: z.string().optional()
+});
+
+export const JoinRequestSchema = z.object({
+  meetingId: z.string().trim().min(1),
+  password: z.string().min(1),
+  bots: z.array(BotSchema).max(MAX_BOTS_PER_REQUEST).default([]),
+  // Extra bots generated on top of `bots`, numbered after the highest given id
+  botCount: z.number().int().min(0).default(0),
+  // Minutes; fractions are dropped
+  duration: z.number().min(1).max(MAX_DURATION_MINUTES).default(60).transform(Math.floor),
+  async: z.boolean().optional(),
+  // Order in the admission queue when the system is at capacity; higher goes first
+  priority: z.number().int().min(0).max(10).default(0),
+  // How long to wait in the admission queue; 0 fails straight away when at capacity
+  maxWaitSeconds: z.number().int().min(0).max(QUEUE_MAX_WAIT_SECONDS).default(QUEUE_MAX_WAIT_SECONDS),
+  browserType: BrowserTypeSchema.optional(),
+  browserDistribution: z.record(BrowserTypeSchema, z.number().min(0)).optional(),
+  // Media is off unless asked for, to save CPU and bandwidth per tab
+  disableVideo: z.boolean().default(true),
+  disableAudio: z.boolean().default(true),
+  lowResolution: z.boolean().default(true),
+  // Milliseconds to wait for each bot's name to show in the meeting; the worker defaults to 30s
+  selectorTimeout: z.number().int().min(1000).max(MAX_SELECTOR_TIMEOUT_MS).optional(),
+  // Counts a bot as joined from its tab's join state alone, without looking for its name
+  skipJoinIndicator: z.boolean().default(false)
+}).superRefine((request, ctx) => {
+  const seen = new Set<number>();
+  request.bots.forEach((bot, index) => {
+    if (seen.has(bot.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bots', index, 'id'], message: `Duplicate bot id ${bot.id}`, params: { code: 'duplicate_bot_id' } });
+    }
+    seen.add(bot.id);
+  });
+
+  const totalBots = request.bots.length + request.botCount;
+  if (totalBots === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bots'], message: 'Provide bots or a positive botCount', params: { code: 'no_bots' } });
+  } else if (totalBots > MAX_BOTS_PER_REQUEST) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['botCount'],
+      message: `At most ${MAX_BOTS_PER_REQUEST} bots per request, got ${totalBots}`,
+      params: { code: 'too_many_bots' }
+    });
+  }
+});
+
+export const UpdateSessionSchema = z.object({
+  // Total length measured from the session start
+  durationMinutes: z.number().min(1).max(MAX_DURATION_MINUTES).optional(),
+  endsAt: z.string().datetime({ offset: true }).optional()
+}).refine(update => (update.durationMinutes === undefined) !== (update.endsAt === undefined), {
+  message: 'Provide exactly one of durationMinutes or endsAt',
+  params: { code: 'invalid_update' }
+});
+
+export const JoinQuerySchema = z.object({
+  async: z.enum(['true', 'false']).optional()
+});
+
+export const IdParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+export const MeetingParamsSchema = z.object({
+  meetingId: z.string().trim().min(1)
+});
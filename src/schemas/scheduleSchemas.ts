@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timeZone';
+import { parseRule } from '../schedule/recurrence';
+import { BotSchema, MAX_BOTS_PER_REQUEST, MAX_DURATION_MINUTES } from './meetingSchemas';
+
+// Request shapes for the schedule API. A body only has to be well formed here; whether the
+// whole schedule holds together (a run time, some bots, a future run) is checked after an
+// update has been merged over the stored schedule, in schedule/scheduleValidation.ts. Limits
+// are the join API's, since every run is a join request.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isValidDate = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const LocalDateSchema = z.string().refine(isValidDate, { message: 'Must be a YYYY-MM-DD date', params: { code: 'invalid_date' } });
+
+export const ScheduleStatusSchema = z.enum(['scheduled', 'running', 'completed', 'failed', 'partially_failed', 'missed', 'cancelled']);
+
+export const ScheduledBotSchema = z.object({
+  id: z.union([z.string(), z.number()]).optional(),
+  name: BotSchema.shape.name,
+  countryCode: z.string().optional(),
+  country: z.string().optional(),
+  status: z.string().optional(),
+  flag: z.string().optional()
+});
+
+export const ScheduleRecurrenceSchema = z.object({
+  // RRULE subset, see schedule/recurrence.ts
+  rule: z.string().trim().min(1).superRefine((rule, ctx) => {
+    try {
+      parseRule(rule);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error), params: { code: 'invalid_rule' } });
+    }
+  }),
+  exceptDates: z.array(LocalDateSchema).optional(),
+  until: LocalDateSchema.optional()
+});
+
+// Every field a client may set. Create bodies and update bodies share it, since an update is
+// checked again once merged; read-only fields such as `status` are refused.
+export const ScheduleBodySchema = z.object({
+  meetingId: z.string().trim().min(1),
+  password: z.string().min(1),
+  userId: z.string().trim().min(1),
+  bots: z.array(ScheduledBotSchema).max(MAX_BOTS_PER_REQUEST),
+  // Numbered bots to create when `bots` is empty
+  quantity: z.number().int().min(1).max(MAX_BOTS_PER_REQUEST),
+  // Whole minutes
+  duration: z.number().int().min(1).max(MAX_DURATION_MINUTES),
+  countryCode: z.string(),
+  scheduledDate: LocalDateSchema,
+  scheduledTime: z.string().regex(TIME_PATTERN, 'Must be HH:mm'),
+  timeZone: z.string().refine(isValidTimeZone, { message: 'Unknown time zone', params: { code: 'invalid_time_zone' } }),
+  scheduledAt: z.string().datetime({ offset: true }),
+  // null on update stops a schedule from repeating
+  recurrence: ScheduleRecurrenceSchema.nullable()
+}).partial().strict();
+
+// The schedule a create body, or an update merged over the stored schedule, has to add up to
+export const ScheduleSchema = ScheduleBodySchema.required({ meetingId: true, password: true, userId: true }).superRefine((schedule, ctx) => {
+  if ((!schedule.bots || schedule.bots.length === 0) && schedule.quantity === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bots'], message: 'Provide a non-empty bots list or a positive integer quantity', params: { code: 'no_bots' } });
+  }
+  if (schedule.scheduledAt === undefined) {
+    if (schedule.scheduledDate === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scheduledDate'], message: 'Provide scheduledAt, or scheduledDate and scheduledTime', params: { code: 'missing_run_time' } });
+    }
+    if (schedule.scheduledTime === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scheduledTime'], message: 'Provide scheduledAt, or scheduledDate and scheduledTime', params: { code: 'missing_run_time' } });
+    }
+  } else if (schedule.recurrence) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['scheduledAt'],
+      message: 'Recurring schedules need scheduledDate and scheduledTime instead of scheduledAt',
+      params: { code: 'recurring_scheduled_at' }
+    });
+  }
+});
+
+// An ISO date or timestamp; a plain YYYY-MM-DD date is midnight UTC
+const DateFilterSchema = z.string()
+  .refine(value => !Number.isNaN(Date.parse(value)), { message: 'Must be an ISO 8601 date or timestamp', params: { code: 'invalid_date' } })
+  .transform(value => new Date(Date.parse(value)));
+
+export const ScheduleQuerySchema = z.object({
+  userId: z.string().optional(),
+  status: ScheduleStatusSchema.optional(),
+  from: DateFilterSchema.optional(),
+  to: DateFilterSchema.optional()
+});
+
+// Firestore ids aren't UUIDs, so any non-empty id is accepted
+export const ScheduleParamsSchema = z.object({
+  id: z.string().trim().min(1)
+});
@@ -2,18 +2,38 @@
 import express, { Express, Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import morgan from 'morgan';
 import schedule from 'node-schedule';
 import meetingRoutes from './routes/meetingRoutes';
+import scheduleRoutes from './routes/scheduleRoutes';
+import adminRoutes from './routes/adminRoutes';
+import { AUTH_DISABLED, requireScope } from './middleware/auth';
+import { requestContext } from './middleware/requestContext';
+import { metrics } from './controllers/metrics';
 import meetingScheduler from './schedule/schedule';
+import { getScheduleRepository } from './schedule/scheduleRepository';
+import { LeaderElection } from './schedule/leaderElection';
+import { createLeaderLease } from './schedule/leaderLease';
+import { getMeetingService } from './services/meetingService';
+import { getQuotaService } from './services/quotaService';
+import { restoreState } from './controllers/meetingController';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('server');
 
 // Load environment variables
 dotenv.config();
 
+// Browser origins allowed to call the API; '*' allows any
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || process.env.NEXT_PUBLIC_CLIENT_URL || 'https://zoom-bots.vercel.app')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
 class Server {
   private app: Express;
   private port: string | number;
-  private scheduler: meetingScheduler;
+  // Created in start(), once the previous run's state is restored
+  private scheduler?: meetingScheduler;
   constructor() {
     this.app = express();
 
@@ -24,37 +44,94 @@ class Server {
 
     // Initialize routes
     this.configureRoutes();
-    this.scheduler = new meetingScheduler();
-    // Start scheduled tasks
+
+    // Hand the scheduler lease over right away on restarts (PM2 sends SIGINT) instead of letting it expire
+    ['SIGINT', 'SIGTERM'].forEach(signal => {
+      process.once(signal, () => {
+        Promise.resolve(this.scheduler?.stop())
+          .catch(error => log.error('Failed to release scheduler lease', { error }))
+          .finally(() => process.exit(0));
+      });
+    });
   }
 
   private configureMiddleware(): void {
-    this.app.use(cors());
+    this.app.use(cors({ origin: CORS_ORIGINS.includes('*') ? true : CORS_ORIGINS }));
     this.app.use(express.json());
-    this.app.use(morgan('dev'));
+    this.app.use(requestContext);
   }
 
   private configureRoutes(): void {
     this.app.use('/api', meetingRoutes);
+    this.app.use('/api', scheduleRoutes);
+    this.app.use('/api', adminRoutes);
 
     // Health check endpoint
     this.app.get('/health', (req: Request, res: Response) => {
       res.status(200).json({ status: 'OK', timestamp: new Date().toISOString() });
     });
+
+    // Prometheus scrape endpoint; the scraper authenticates with a read-scoped key
+    this.app.get('/metrics', requireScope('read'), metrics);
   }
 
-  public start(): void {
+  // Restores the sessions of the previous run and removes its orphaned browsers before
+  // anything can start a join: the scheduler is created and the port opened only afterwards
+  public async start(): Promise<void> {
+    try {
+      await restoreState();
+    } catch (error) {
+      log.error('Failed to restore state', { error });
+    }
+
+    this.scheduler = new meetingScheduler(
+      getScheduleRepository(),
+      getMeetingService(),
+      new LeaderElection(createLeaderLease('scheduler')),
+      getQuotaService()
+    );
+
     this.app.listen(this.port, () => {
-      console.log(`[${new Date().toISOString()}] Server running on port ${this.port}`);
-      console.log(`[${new Date().toISOString()}] Available routes:`);
-      console.log(`[${new Date().toISOString()}] POST: /api/join-meeting - Join Zoom meeting with bots`);
-      console.log(`[${new Date().toISOString()}] GET: /health - Health check endpoint`);
+      log.info(`Server running on port ${this.port}`);
+      log.info('Available routes:');
+      log.info('POST: /api/join-meeting - Join Zoom meeting with bots');
+      log.info('GET: /api/sessions - List join sessions');
+      log.info('GET: /api/sessions/:id - Live tab and bot state for a session');
+      log.info('PATCH: /api/sessions/:id - Extend or shorten a running session');
+      log.info(`DELETE: /api/sessions/:id - Stop a single session's bots`);
+      log.info('DELETE: /api/meetings/:meetingId/bots - Stop every bot in a meeting');
+      log.info('GET: /api/browsers - Browser pool state');
+      log.info('GET: /api/queue - Joins waiting for capacity');
+      log.info('DELETE: /api/queue/:id - Cancel a queued join');
+      log.info('GET: /api/jobs/:id - Result of an async join job');
+      log.info('GET: /api/jobs/:id/events - Server-Sent Events progress stream for a join job');
+      log.info('POST: /api/schedules - Schedule a meeting');
+      log.info('GET: /api/schedules - Scheduled meetings with their next run in UTC and local time');
+      log.info('GET: /api/schedules/:id - Get a schedule');
+      log.info('PATCH: /api/schedules/:id - Update a schedule');
+      log.info('POST: /api/schedules/:id/cancel - Cancel a schedule');
+      log.info('DELETE: /api/schedules/:id - Delete a schedule');
+      log.info('GET: /api/schedules/:id/occurrences - Outcome of each run of a recurring schedule');
+      log.info('GET: /api/admin/api-keys - List API keys');
+      log.info('POST: /api/admin/api-keys - Create an API key');
+      log.info('DELETE: /api/admin/api-keys/:id - Revoke an API key');
+      log.info('GET: /api/admin/api-keys/:id/quota - Limits and usage of an API key');
+      log.info(`PUT: /api/admin/api-keys/:id/quota - Adjust an API key's limits`);
+      log.info('POST: /api/admin/workers/terminate - Terminate every worker');
+      log.info('GET: /health - Health check endpoint');
+      log.info('GET: /metrics - Prometheus metrics');
+      if (AUTH_DISABLED) {
+        log.warn('API_AUTH=off: every endpoint is open without an API key');
+      }
     });
   }
 }
 
 // Instantiate and start the server
 const server = new Server();
-server.start();
+server.start().catch(error => {
+  log.error('Failed to start server', { error });
+  process.exit(1);
+});
 
 export default Server;
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { ApiKeyService, hasScope } from './apiKeyService';
+import { MemoryApiKeyStore } from '../utils/apiKeyStore';
+
+describe('ApiKeyService', () => {
+  let store: MemoryApiKeyStore;
+  let service: ApiKeyService;
+  let lookups: number;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-01-01T10:00:00Z') });
+    store = new MemoryApiKeyStore();
+    lookups = 0;
+    const get = store.get.bind(store);
+    store.get = id => {
+      lookups++;
+      return get(id);
+    };
+    service = new ApiKeyService(store);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('stores only the hash of a created key', async () => {
+    const { record, key } = await service.create('CI', ['join'], 'admin-key');
+    const [, secret] = key.split('.');
+
+    assert.match(key, /^zbk_[0-9a-f]{12}\.[A-Za-z0-9_-]{32}$/);
+    assert.equal(key.slice(4, 16), record.id);
+    const stored = await store.get(record.id);
+    assert.equal(stored?.hash, createHash('sha256').update(secret).digest('hex'));
+    assert.equal(JSON.stringify(stored).includes(secret), false);
+    assert.equal(stored?.createdBy, 'admin-key');
+  });
+
+  it('authenticates a key and rejects wrong, malformed and revoked ones', async () => {
+    const { record, key } = await service.create('CI', ['join', 'read']);
+    const wrongSecret = `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`;
+
+    assert.deepEqual(await service.authenticate(key), { keyId: record.id, name: 'CI', scopes: ['join', 'read'] });
+    assert.equal(await service.authenticate(wrongSecret), null);
+    assert.equal(await service.authenticate('not-a-key'), null);
+    assert.equal(await service.authenticate(`zbk_000000000000.${key.split('.')[1]}`), null);
+
+    await service.revoke(record.id);
+    assert.equal(await service.authenticate(key), null);
+  });
+
+  it('caches valid keys until they expire', async () => {
+    const { record, key } = await service.create('CI', ['join']);
+    await service.authenticate(key);
+    await service.authenticate(key);
+    assert.equal(lookups, 1);
+
+    // Revoked on another instance: this one notices once its entry expires
+    await store.save({ ...record, revokedAt: new Date().toISOString() });
+    assert.ok(await service.authenticate(key));
+    mock.timers.tick(30 * 1000);
+    assert.equal(await service.authenticate(key), null);
+  });
+
+  it('never caches unknown keys', async () => {
+    const unknown = `zbk_000000000000.${'a'.repeat(32)}`;
+    await service.authenticate(unknown);
+    await service.authenticate(unknown);
+
+    assert.equal(lookups, 2);
+  });
+
+  it('lets ADMIN_API_KEY in as an admin', async () => {
+    const previous = process.env.ADMIN_API_KEY;
+    process.env.ADMIN_API_KEY = 'bootstrap-secret';
+    try {
+      service = new ApiKeyService(store);
+      const identity = await service.authenticate('bootstrap-secret');
+
+      assert.deepEqual(identity, { keyId: 'bootstrap', name: 'ADMIN_API_KEY', scopes: ['admin'] });
+      assert.equal(identity && hasScope(identity, 'join'), true);
+      assert.equal(lookups, 0);
+    } finally {
+      if (previous === undefined) delete process.env.ADMIN_API_KEY;
+      else process.env.ADMIN_API_KEY = previous;
+    }
+  });
+});
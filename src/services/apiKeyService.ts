@@ -0,0 +1,142 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKeyIdentity, ApiKeyRecord, ApiKeyScope, QuotaLimits } from '../types';
+import { ApiKeyStore, createApiKeyStore } from '../utils/apiKeyStore';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('apiKeyService');
+
+// Keys look like `zbk_<id>.<secret>`: the id finds the stored record, the secret is checked against its hash
+const KEY_PATTERN = /^zbk_([0-9a-f]{12})\.([A-Za-z0-9_-]{32})$/;
+
+const hashSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex');
+
+const hashesMatch = (a: string, b: string): boolean => {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export const hasScope = (identity: ApiKeyIdentity, scope: ApiKeyScope): boolean =>
+  identity.scopes.includes('admin') || identity.scopes.includes(scope);
+
+export class ApiKeyService {
+  private store: ApiKeyStore;
+  // Valid keys by key hash, so each request doesn't hit the store. A key revoked on another
+  // instance keeps working there until its entry expires. Unknown keys are never cached, so
+  // random keys can't grow it; past CACHE_SIZE the least recently used entry is dropped.
+  private cache: Map<string, { identity: ApiKeyIdentity; expiresAt: number }> = new Map();
+  private readonly CACHE_MS = parseInt(process.env.API_KEY_CACHE_SECONDS || '30') * 1000;
+  private readonly CACHE_SIZE = parseInt(process.env.API_KEY_CACHE_SIZE || '1000');
+  // Lets the first admin in, before any keys exist
+  private readonly bootstrapHash = process.env.ADMIN_API_KEY ? hashSecret(process.env.ADMIN_API_KEY) : null;
+
+  constructor(store: ApiKeyStore) {
+    this.store = store;
+  }
+
+  // Returns the key itself once; only its hash is stored
+  async create(name: string, scopes: ApiKeyScope[], createdBy?: string): Promise<{ record: ApiKeyRecord; key: string }> {
+    const id = randomBytes(6).toString('hex');
+    const secret = randomBytes(24).toString('base64url');
+    const record: ApiKeyRecord = { id, name, scopes, hash: hashSecret(secret), createdAt: new Date().toISOString() };
+    if (createdBy) {
+      record.createdBy = createdBy;
+    }
+    await this.store.save(record);
+    log.info(`Created API key ${id} (${name}) with scopes ${scopes.join(', ')}`);
+    return { record, key: `zbk_${id}.${secret}` };
+  }
+
+  list(): Promise<ApiKeyRecord[]> {
+    return this.store.list();
+  }
+
+  get(id: string): Promise<ApiKeyRecord | null> {
+    return this.store.get(id);
+  }
+
+  // Merges `quota` into the key's overrides; a null limit drops its override. Returns null for unknown keys.
+  async setQuota(id: string, quota: { [K in keyof QuotaLimits]?: number | null }): Promise<ApiKeyRecord | null> {
+    const record = await this.store.get(id);
+    if (!record) {
+      return null;
+    }
+    const overrides: Partial<QuotaLimits> = { ...record.quota };
+    (Object.keys(quota) as (keyof QuotaLimits)[]).forEach(limit => {
+      const value = quota[limit];
+      if (value === null) {
+        delete overrides[limit];
+      } else if (value !== undefined) {
+        overrides[limit] = value;
+      }
+    });
+    if (Object.keys(overrides).length > 0) {
+      record.quota = overrides;
+    } else {
+      delete record.quota;
+    }
+    await this.store.save(record);
+    log.info(`Updated quota of API key ${id} (${record.name}): ${JSON.stringify(record.quota || {})}`);
+    return record;
+  }
+
+  // Returns null for unknown keys; revoking twice keeps the first revocation time
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    const record = await this.store.get(id);
+    if (!record) {
+      return null;
+    }
+    if (!record.revokedAt) {
+      record.revokedAt = new Date().toISOString();
+      await this.store.save(record);
+      log.info(`Revoked API key ${id} (${record.name})`);
+    }
+    this.cache.clear();
+    return record;
+  }
+
+  async authenticate(key: string): Promise<ApiKeyIdentity | null> {
+    const keyHash = hashSecret(key);
+    const cached = this.cache.get(keyHash);
+    this.cache.delete(keyHash);
+    if (cached && cached.expiresAt > Date.now()) {
+      // Re-inserted so the map stays ordered from least to most recently used
+      this.cache.set(keyHash, cached);
+      return cached.identity;
+    }
+
+    const identity = await this.lookup(key, keyHash);
+    if (identity) {
+      this.cache.set(keyHash, { identity, expiresAt: Date.now() + this.CACHE_MS });
+      while (this.cache.size > this.CACHE_SIZE) {
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+    }
+    return identity;
+  }
+
+  private async lookup(key: string, keyHash: string): Promise<ApiKeyIdentity | null> {
+    if (this.bootstrapHash && hashesMatch(keyHash, this.bootstrapHash)) {
+      return { keyId: 'bootstrap', name: 'ADMIN_API_KEY', scopes: ['admin'] };
+    }
+
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+      return null;
+    }
+    const record = await this.store.get(match[1]);
+    if (!record || record.revokedAt || !hashesMatch(hashSecret(match[2]), record.hash)) {
+      return null;
+    }
+    return { keyId: record.id, name: record.name, scopes: record.scopes };
+  }
+}
+
+let sharedService: ApiKeyService | null = null;
+
+export const getApiKeyService = (): ApiKeyService => {
+  if (!sharedService) {
+    sharedService = new ApiKeyService(createApiKeyStore());
+  }
+  return sharedService;
+};
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MeetingService } from './meetingService';
+import BrowserManager from '../utils/browserManager';
+import { SystemMonitor } from '../utils/SystemMoniter';
+import { WorkerManager } from '../utils/workerManager';
+import { SessionManager } from '../utils/sessionManager';
+import { MemoryStateStore } from '../utils/stateStore';
+import { JoinFailureReason, JoinRequestInput, JoinState, Task, WorkerResult } from '../types';
+
+const request: JoinRequestInput = { meetingId: '123', password: 'secret', botCount: 2, duration: 30 };
+
+describe('MeetingService', () => {
+  let tabJoin: { joinState: JoinState; failureReason?: JoinFailureReason };
+  let workerResult: (task: Task) => WorkerResult[];
+  let tasks: Task[];
+  let hasCapacity: boolean;
+  let service: MeetingService;
+  let previous: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    // BotManager waits a second between tabs; every request here opens a single tab
+    mock.timers.enable({ apis: ['setTimeout'] });
+    previous = {
+      key: process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY,
+      secret: process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET
+    };
+    process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY = 'sdk-key';
+    process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET = 'sdk-secret';
+    tabJoin = { joinState: 'joined' };
+    workerResult = task => task.botPair.map(bot => ({ success: true, botId: bot.id, tabId: task.tabId, joinState: 'joined', browser: task.browserType }));
+    tasks = [];
+    hasCapacity = true;
+
+    // Only what a join touches; tabs open straight away and workers answer from workerResult
+    let tabs = 0;
+    const browserManager = {
+      onTabEvent: () => undefined,
+      openTabForDuration: async () => ({ tabId: `tab-${++tabs}`, ...tabJoin }),
+      getBrowserStats: () => ({ totalBrowsers: 0, totalTabs: 0, maxBrowsers: 5, maxTabsPerBrowser: 20, byEngine: {}, browsers: [] }),
+      getTabInfo: () => undefined,
+      hasTab: () => false,
+      cancelRecovery: () => undefined
+    } as unknown as BrowserManager;
+    const workerManager = {
+      executeTasks: async (started: Task[], _duration: number, _workers: unknown, onWorkerStarted: (taskId: string, task: Task) => void) => {
+        tasks.push(...started);
+        started.forEach((task, index) => onWorkerStarted(`task-${index + 1}`, task));
+        return started.flatMap(task => workerResult(task));
+      },
+      isWorkerActive: () => false,
+      terminateWorkers: async () => 0
+    } as unknown as WorkerManager;
+    const systemMonitor = {
+      canHandleMoreWorkers: () => hasCapacity,
+      getMetrics: () => ({ totalActiveBots: 0 }),
+      getMaxSystemBots: () => 1000,
+      getBrowserProcesses: () => []
+    } as unknown as SystemMonitor;
+    const sessionManager = new SessionManager(browserManager, workerManager, new MemoryStateStore());
+    service = new MeetingService(browserManager, systemMonitor, workerManager, sessionManager);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    if (previous.key === undefined) delete process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY;
+    else process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY = previous.key;
+    if (previous.secret === undefined) delete process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET;
+    else process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET = previous.secret;
+  });
+
+  // Runs a join to the end, letting BotManager's pause between tabs pass
+  const join = async (input: JoinRequestInput = request) => {
+    const result = service.join(input);
+    for (let tick = 0; tick < 10; tick++) {
+      await new Promise(resolve => setImmediate(resolve));
+      mock.timers.tick(1000);
+    }
+    return result;
+  };
+
+  it('refuses invalid requests before creating a session', async () => {
+    const result = await join({ meetingId: '123', password: 'secret' } as JoinRequestInput);
+
+    assert.equal(result.status, 'invalid');
+    assert.deepEqual(result.status === 'invalid' && result.details.map(detail => detail.code), ['no_bots']);
+    assert.deepEqual(service.sessionManager.listSessions(), []);
+  });
+
+  it('joins the bots and activates the session', async () => {
+    const result = await join();
+
+    assert.equal(result.status, 'joined');
+    const session = service.sessionManager.getSession(result.status === 'joined' ? result.sessionId : '');
+    assert.equal(session?.status, 'active');
+    assert.deepEqual(session?.bots.map(bot => bot.status), ['joined', 'joined']);
+    assert.equal(result.status === 'joined' && result.tabsWillCloseAt, session?.endsAt);
+  });
+
+  it('passes the request\'s options to each worker', async () => {
+    await join({ ...request, disableAudio: false, selectorTimeout: 5000 });
+
+    assert.equal(tasks.length, 1);
+    assert.deepEqual(
+      [tasks[0].disableVideo, tasks[0].disableAudio, tasks[0].lowResolution, tasks[0].selectorTimeout, tasks[0].skipJoinIndicator],
+      [true, false, true, 5000, false]
+    );
+    assert.equal(tasks[0].duration, 30 * 60 * 1000);
+  });
+
+  it('fails the session when no bot gets in', async () => {
+    tabJoin = { joinState: 'failed', failureReason: 'wrong_password' };
+    const result = await join();
+
+    assert.deepEqual(result.status === 'failed' && result.error, 'No bots joined (wrong_password)');
+    assert.equal(tasks.length, 0);
+    assert.equal(service.sessionManager.listSessions()[0].status, 'failed');
+  });
+
+  it('keeps a session whose bots wait to be admitted', async () => {
+    workerResult = task => task.botPair.map(bot => ({ success: false, botId: bot.id, joinState: 'waiting_room', error: 'Waiting for host to admit', browser: task.browserType }));
+    const result = await join();
+
+    assert.equal(result.status, 'partially_failed');
+    assert.equal(service.sessionManager.listSessions()[0].status, 'active');
+  });
+
+  it('answers at_capacity straight away for joins that may not wait', async () => {
+    hasCapacity = false;
+    const result = await join({ ...request, maxWaitSeconds: 0 });
+
+    assert.equal(result.status, 'at_capacity');
+    assert.equal(service.admissionQueue.length, 0);
+  });
+});
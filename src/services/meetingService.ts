@@ -0,0 +1,383 @@
+import { AsyncResource } from 'async_hooks';
+import BrowserManager, { BrowserStats } from '../utils/browserManager';
+import { ApiKeyIdentity, Bot, JoinProgressListener, JoinRequestInput, Session, Task, WorkerResult } from '../types';
+import { generateSignature } from '../utils/signature';
+import { assignBrowserTypes, generateBots } from '../utils/botUtils';
+import { JoinRequestSchema } from '../schemas/meetingSchemas';
+import { ApiErrorDetail, toErrorDetails } from '../utils/apiError';
+import { SystemMetrics, SystemMonitor } from '../utils/SystemMoniter';
+import { BotManager } from '../utils/botManager';
+import { WorkerManager, ActiveWorkerInfo } from '../utils/workerManager';
+import { SessionManager } from '../utils/sessionManager';
+import { createStateStore } from '../utils/stateStore';
+import { AdmissionQueue, QueueEntryView } from '../utils/admissionQueue';
+import { botJoins, capacityRejections, joinAttempts, joinsQueued, registerServiceMetrics } from '../utils/metrics';
+import { createLogger, runWithLogContext } from '../utils/logger';
+
+const log = createLogger('meetingService');
+
+// The request was refused before a session was created
+export type JoinRejection =
+  | { status: 'invalid'; error: string; details: ApiErrorDetail[] }
+  | { status: 'at_capacity'; error: string; requestedBots: number; systemLoad: SystemMetrics };
+
+export interface JoinSummary {
+  status: 'joined' | 'partially_failed';
+  sessionId: string;
+  totalBots: number;
+  successes: number;
+  // One entry per bot that didn't join, including bots whose tab failed to open
+  failures: WorkerResult[];
+  keptOpenTabs: number;
+  joinStates: Record<string, number>;
+  tabsWillCloseAt: string;
+  durationMinutes: number;
+  systemLoad: SystemMetrics;
+  browserPool: BrowserStats;
+}
+
+export type JoinResult =
+  | JoinRejection
+  | JoinSummary
+  | { status: 'stopped'; sessionId: string; error: string }
+  | { status: 'failed'; sessionId: string; error: string; systemLoad: SystemMetrics };
+
+// A join that passed validation and has a session; `result` settles when the bots are in
+export interface JoinStart {
+  status: 'accepted';
+  session: Session;
+  result: Promise<JoinResult>;
+}
+
+// A join waiting in the admission queue; `started` settles once it is admitted or gives up
+export interface JoinQueued {
+  status: 'queued';
+  queue: QueueEntryView;
+  started: Promise<JoinStart | JoinRejection>;
+}
+
+// Options the request passes through to each tab's worker
+type TaskOptions = Pick<Task, 'disableVideo' | 'disableAudio' | 'lowResolution' | 'selectorTimeout' | 'skipJoinIndicator'>;
+
+interface JoinPlan {
+  meetingId: string;
+  password: string;
+  bots: Bot[];
+  durationMinutes: number;
+  priority: number;
+  maxWaitSeconds: number;
+  taskOptions: TaskOptions;
+}
+
+export class MeetingService {
+  readonly browserManager: BrowserManager;
+  readonly systemMonitor: SystemMonitor;
+  readonly workerManager: WorkerManager;
+  readonly sessionManager: SessionManager;
+  readonly activeWorkers: Map<string, ActiveWorkerInfo>;
+  readonly admissionQueue: AdmissionQueue;
+  private readonly origin = process.env.NEXT_PUBLIC_CLIENT_URL || 'https://zoom-bots.vercel.app';
+
+  constructor(
+    browserManager: BrowserManager,
+    systemMonitor: SystemMonitor,
+    workerManager: WorkerManager,
+    sessionManager: SessionManager,
+    activeWorkers: Map<string, ActiveWorkerInfo> = new Map()
+  ) {
+    this.browserManager = browserManager;
+    this.systemMonitor = systemMonitor;
+    this.workerManager = workerManager;
+    this.sessionManager = sessionManager;
+    this.activeWorkers = activeWorkers;
+    this.admissionQueue = new AdmissionQueue(
+      botCount => this.hasCapacity(botCount),
+      botCount => this.estimateStart(botCount)
+    );
+    // Ending sessions free their bots for whoever is waiting
+    this.sessionManager.onSessionFinished(() => this.admissionQueue.dispatch());
+  }
+
+  // Joins the bots and waits until they are in, or the attempt has failed. Waits in the
+  // admission queue first if the system is at capacity.
+  async join(request: JoinRequestInput, listener?: JoinProgressListener, createdBy?: ApiKeyIdentity, scheduleId?: string): Promise<JoinResult> {
+    let started = await this.startJoin(request, listener, createdBy, scheduleId);
+    if (started.status === 'queued') {
+      started = await started.started;
+    }
+    return started.status === 'accepted' ? started.result : started;
+  }
+
+  // Validates the request and creates its session, then joins in the background. At
+  // capacity the request is queued instead, unless it may not wait or the queue is full.
+  // `createdBy` is the API key the session is attributed to, `scheduleId` the schedule whose run it is.
+  async startJoin(
+    request: JoinRequestInput,
+    listener?: JoinProgressListener,
+    createdBy?: ApiKeyIdentity,
+    scheduleId?: string
+  ): Promise<JoinStart | JoinQueued | JoinRejection> {
+    const plan = this.planJoin(request);
+    if ('status' in plan) {
+      log.error(`Join rejected: ${plan.error}`);
+      joinAttempts.inc({ status: plan.status });
+      return plan;
+    }
+
+    // Requests already waiting go first, even if this one would fit
+    if (this.admissionQueue.length === 0 && this.hasCapacity(plan.bots.length)) {
+      return this.launch(plan, listener, createdBy, scheduleId);
+    }
+    if (plan.maxWaitSeconds === 0 || this.admissionQueue.isFull()) {
+      log.error('System capacity exceeded');
+      return plan.maxWaitSeconds === 0
+        ? this.atCapacity(plan, 'Too many bots. Try again later or with fewer bots.', 'no_wait')
+        : this.atCapacity(plan, 'Too many bots, and the admission queue is full. Try again later.', 'queue_full');
+    }
+
+    let queue: QueueEntryView | undefined;
+    // Rejects when the join can't be launched once admitted, e.g. without SDK credentials
+    const started = new Promise<JoinStart | JoinRejection>((resolve, reject) => {
+      queue = this.admissionQueue.enqueue({
+        meetingId: plan.meetingId,
+        botCount: plan.bots.length,
+        durationMinutes: plan.durationMinutes,
+        priority: plan.priority,
+        maxWaitMs: plan.maxWaitSeconds * 1000,
+        createdBy,
+        // Admitted from whatever frees capacity, but still logged as part of this request
+        admit: AsyncResource.bind(() => {
+          try {
+            resolve(this.launch(plan, listener, createdBy, scheduleId));
+          } catch (error) {
+            reject(error);
+          }
+        }),
+        reject: (reason, cancelled) => resolve(this.atCapacity(plan, reason, cancelled ? 'cancelled' : 'queue_timeout'))
+      });
+    });
+    joinsQueued.inc();
+    return { status: 'queued', queue: queue as QueueEntryView, started };
+  }
+
+  // The browser pool with each browser's sampled CPU and memory
+  getBrowserPool(): BrowserStats {
+    const processes = new Map(this.systemMonitor.getBrowserProcesses().map(({ browserId, ...stats }) => [browserId, stats]));
+    const pool = this.browserManager.getBrowserStats();
+    return {
+      ...pool,
+      browsers: pool.browsers.map(browser => ({ ...browser, process: processes.get(browser.id) }))
+    };
+  }
+
+  onSessionFinished(listener: (session: Session) => void): void {
+    this.sessionManager.onSessionFinished(listener);
+  }
+
+  // Callers outside HTTP skip the route's validation, so the request is checked against the same schema here
+  private planJoin(input: JoinRequestInput): JoinPlan | JoinRejection {
+    const parsed = JoinRequestSchema.safeParse(input);
+    if (!parsed.success) {
+      const details = toErrorDetails(parsed.error);
+      return { status: 'invalid', error: details.map(detail => `${detail.path || 'request'}: ${detail.message}`).join('; '), details };
+    }
+
+    const {
+      bots, meetingId, password, botCount, duration, browserType, browserDistribution, priority, maxWaitSeconds,
+      disableVideo, disableAudio, lowResolution, selectorTimeout, skipJoinIndicator
+    } = parsed.data;
+    const requestedBots = [...bots];
+    if (botCount > 0) {
+      requestedBots.push(...generateBots(botCount, requestedBots));
+    }
+    const finalBots = assignBrowserTypes(requestedBots, browserType, browserDistribution);
+
+    return {
+      meetingId,
+      password,
+      bots: finalBots,
+      durationMinutes: duration,
+      priority,
+      maxWaitSeconds,
+      taskOptions: { disableVideo, disableAudio, lowResolution, selectorTimeout, skipJoinIndicator }
+    };
+  }
+
+  // Creates the session synchronously, so its bots count against capacity before anything else is admitted
+  private launch(plan: JoinPlan, listener?: JoinProgressListener, createdBy?: ApiKeyIdentity, scheduleId?: string): JoinStart {
+    const signature = generateSignature(plan.meetingId, 0, plan.durationMinutes);
+    const session = this.sessionManager.createSession(plan.meetingId, plan.bots, plan.durationMinutes, signature, createdBy, scheduleId);
+    const result = runWithLogContext({ sessionId: session.id, meetingId: plan.meetingId }, () => this.runJoin(session, plan, listener));
+    return { status: 'accepted', session, result: result.then(joined => this.recordResult(joined)) };
+  }
+
+  private atCapacity(plan: JoinPlan, error: string, reason: 'no_wait' | 'queue_full' | 'queue_timeout' | 'cancelled'): JoinRejection {
+    joinAttempts.inc({ status: 'at_capacity' });
+    capacityRejections.inc({ reason });
+    return {
+      status: 'at_capacity',
+      error,
+      requestedBots: plan.bots.length,
+      systemLoad: this.systemMonitor.getMetrics()
+    };
+  }
+
+  private recordResult(result: JoinResult): JoinResult {
+    joinAttempts.inc({ status: result.status });
+    if (result.status === 'joined' || result.status === 'partially_failed') {
+      botJoins.inc({ result: 'joined', reason: '' }, result.successes);
+      result.failures.forEach(failure => botJoins.inc({ result: 'failed', reason: failure.failureReason || 'error' }));
+    }
+    return result;
+  }
+
+  // Sessions still opening tabs haven't registered their workers yet, so their bots are added on top
+  private hasCapacity(botCount: number): boolean {
+    return this.systemMonitor.canHandleMoreWorkers(botCount + this.startingBots(), this.activeWorkers);
+  }
+
+  private startingBots(): number {
+    return this.sessionManager.listSessions()
+      .filter(session => session.status === 'starting')
+      .reduce((sum, session) => sum + session.bots.length, 0);
+  }
+
+  // Only the bot limit is modelled: bots are freed as active sessions reach their end time
+  private estimateStart(botCount: number): number | null {
+    const now = Date.now();
+    const inUse = this.systemMonitor.getMetrics().totalActiveBots + this.startingBots();
+    let free = this.systemMonitor.getMaxSystemBots() - inUse;
+    if (free >= botCount) {
+      return now;
+    }
+
+    const endings = this.sessionManager.listSessions()
+      .filter(session => session.status === 'active' && session.endsAt)
+      .map(session => ({ at: Date.parse(session.endsAt as string), bots: session.bots.filter(bot => bot.status !== 'failed').length }))
+      .sort((a, b) => a.at - b.at);
+    for (const ending of endings) {
+      free += ending.bots;
+      if (free >= botCount) {
+        return ending.at;
+      }
+    }
+    return null;
+  }
+
+  private async runJoin(session: Session, plan: JoinPlan, listener?: JoinProgressListener): Promise<JoinResult> {
+    const { meetingId, signature } = session;
+    const { password, bots, durationMinutes } = plan;
+    const origin = this.origin;
+
+    try {
+      // Browser processes are launched by the pool as tabs need them
+      const botManager = new BotManager(this.browserManager);
+
+      const { tabs: tabResults, unopened } = await botManager.joinMeetingForBots(bots, meetingId, password, durationMinutes, origin, signature, listener);
+      tabResults.forEach(result => this.sessionManager.addTab(session.id, result));
+
+      // The session may have been stopped through the API while tabs were still opening
+      if (session.status === 'stopped') {
+        await this.sessionManager.stopSession(session.id, this.activeWorkers);
+        return { status: 'stopped', sessionId: session.id, error: 'Session stopped before bots joined' };
+      }
+
+      const joinedTabs = tabResults.filter(result => result.joinState !== 'failed' && result.joinState !== 'ended');
+      const failedTabResults: WorkerResult[] = tabResults
+        .filter(result => !joinedTabs.includes(result))
+        .flatMap(result => bots
+          .filter(bot => result.botIds.includes(bot.id.toString()))
+          .map(bot => ({
+            success: false,
+            botId: bot.id,
+            tabId: result.tabId,
+            joinState: result.joinState,
+            failureReason: result.failureReason,
+            error: `Tab failed to join: ${result.failureReason || result.joinState}`,
+            browser: result.browserType
+          })));
+      const unopenedResults: WorkerResult[] = unopened.flatMap(tab => bots
+        .filter(bot => tab.botIds.includes(bot.id.toString()))
+        .map(bot => ({
+          success: false,
+          botId: bot.id,
+          error: `Tab could not be opened: ${tab.error}`,
+          browser: tab.browserType
+        })));
+
+      const tasks: Task[] = joinedTabs.map(result => ({
+        tabId: result.tabId,
+        botPair: bots.filter(bot => result.botIds.includes(bot.id.toString())),
+        meetingId,
+        password,
+        origin,
+        signature,
+        browserType: result.browserType,
+        keepOpenOnTimeout: true,
+        optimizedJoin: true,
+        ...plan.taskOptions,
+        duration: durationMinutes * 60 * 1000
+      }));
+
+      const workerResults = await this.workerManager.executeTasks(tasks, durationMinutes, this.activeWorkers, (taskId, task) => {
+        const botIds = task.botPair.map(bot => bot.id);
+        this.sessionManager.addWorker(session.id, taskId, botIds);
+        listener?.onWorkerStarted?.(taskId, botIds);
+      });
+      const results = [...unopenedResults, ...failedTabResults, ...workerResults];
+      this.sessionManager.recordResults(session.id, results);
+      const failures = results.filter(r => !r.success);
+      const successes = results.length - failures.length;
+
+      // Bots in the waiting room may still be admitted, so only a session with neither fails
+      if (successes === 0 && !results.some(r => r.joinState === 'waiting_room')) {
+        const reasons = [...new Set(failures.map(r => r.failureReason || r.error || 'unknown'))];
+        const error = `No bots joined (${reasons.join(', ')})`;
+        await this.sessionManager.markFailed(session.id, error, this.activeWorkers);
+        return { status: 'failed', sessionId: session.id, error, systemLoad: this.systemMonitor.getMetrics() };
+      }
+
+      this.sessionManager.markActive(session.id, this.activeWorkers);
+      const joinStates = results.reduce<Record<string, number>>((counts, r) => {
+        const state = r.joinState || 'unknown';
+        counts[state] = (counts[state] || 0) + 1;
+        return counts;
+      }, {});
+
+      return {
+        status: failures.length > 0 ? 'partially_failed' : 'joined',
+        sessionId: session.id,
+        totalBots: bots.length,
+        successes,
+        failures,
+        keptOpenTabs: joinedTabs.length,
+        joinStates,
+        // Set by markActive above, and moved along when the session is rescheduled
+        tabsWillCloseAt: session.endsAt ?? new Date(Date.now() + durationMinutes * 60 * 1000).toISOString(),
+        durationMinutes,
+        systemLoad: this.systemMonitor.getMetrics(),
+        browserPool: this.getBrowserPool()
+      };
+    } catch (error) {
+      log.error('Processing error', { error });
+      const message = error instanceof Error ? error.message : String(error);
+      await this.sessionManager.markFailed(session.id, message, this.activeWorkers);
+      return { status: 'failed', sessionId: session.id, error: message, systemLoad: this.systemMonitor.getMetrics() };
+    }
+  }
+}
+
+let sharedService: MeetingService | null = null;
+
+// The service the HTTP controllers and the scheduler share, so they see the same sessions and browsers
+export const getMeetingService = (): MeetingService => {
+  if (!sharedService) {
+    const browserManager = BrowserManager.getInstance();
+    const systemMonitor = new SystemMonitor();
+    const workerManager = new WorkerManager(systemMonitor, browserManager);
+    const sessionManager = new SessionManager(browserManager, workerManager, createStateStore());
+    sharedService = new MeetingService(browserManager, systemMonitor, workerManager, sessionManager);
+    registerServiceMetrics(sharedService);
+  }
+  return sharedService;
+};
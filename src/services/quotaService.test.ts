@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuotaService } from './quotaService';
+import { ApiKeyService } from './apiKeyService';
+import { AdmissionQueue } from '../utils/admissionQueue';
+import { SessionManager } from '../utils/sessionManager';
+import { ApiKeyIdentity, QuotaLimits, Session, SessionBot } from '../types';
+
+const NOW = Date.parse('2025-01-01T10:00:00Z');
+
+const identity = (keyId: string): ApiKeyIdentity => ({ keyId, name: keyId, scopes: ['join'] });
+
+const session = (keyId: string, fields: Partial<Session>, botStatuses: SessionBot['status'][] = ['joined']): Session => ({
+  id: `${keyId}-${Math.random()}`,
+  meetingId: '123',
+  status: 'active',
+  durationMinutes: 60,
+  bots: botStatuses.map((status, index) => ({ botId: index + 1, name: `Bot${index + 1}`, status })),
+  tabs: [],
+  taskIds: [],
+  signature: 'signature',
+  createdAt: new Date(NOW).toISOString(),
+  events: [],
+  createdBy: identity(keyId),
+  ...fields
+});
+
+describe('QuotaService', () => {
+  let sessions: Session[];
+  let queue: AdmissionQueue;
+  let quotas: Record<string, Partial<QuotaLimits>>;
+  let service: QuotaService;
+
+  const enqueue = (keyId: string, botCount: number, durationMinutes: number) => queue.enqueue({
+    meetingId: '123',
+    botCount,
+    durationMinutes,
+    priority: 0,
+    maxWaitMs: 60 * 60 * 1000,
+    createdBy: identity(keyId),
+    admit: () => undefined,
+    reject: () => undefined
+  });
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'setInterval', 'Date'], now: NOW });
+    sessions = [];
+    quotas = {};
+    queue = new AdmissionQueue(() => false, () => null);
+    // Only what the quota checks read
+    const sessionManager = { listSessions: () => sessions } as unknown as SessionManager;
+    const apiKeyService = {
+      get: async (id: string) => ({ id, name: id, hash: 'hash', scopes: ['join'], createdAt: new Date(NOW).toISOString(), quota: quotas[id] })
+    } as unknown as ApiKeyService;
+    service = new QuotaService(sessionManager, queue, apiKeyService);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('limits join requests per minute, counting rejected ones', async () => {
+    quotas.key = { maxJoinRequestsPerMinute: 2 };
+
+    assert.equal((await service.admitJoin('key', 1, 30)).allowed, true);
+    mock.timers.tick(20 * 1000);
+    assert.equal((await service.admitJoin('key', 1, 30)).allowed, true);
+    const limited = await service.admitJoin('key', 1, 30);
+    assert.equal(!limited.allowed && limited.code, 'rate_limited');
+    assert.equal(!limited.allowed && limited.retryAfterSeconds, 40);
+
+    // The first request has left the window, but the rejected one hasn't
+    mock.timers.tick(40 * 1000 + 1);
+    const retried = await service.admitJoin('key', 1, 30);
+    assert.equal(!retried.allowed && retried.retryAfterSeconds, 20);
+
+    mock.timers.tick(20 * 1000);
+    assert.equal((await service.admitJoin('key', 1, 30)).allowed, true);
+  });
+
+  it('counts live, queued and reserved bots against concurrency', async () => {
+    quotas.key = { maxConcurrentBots: 10, maxJoinRequestsPerMinute: 0 };
+    sessions.push(
+      session('key', {}, ['joined', 'pending', 'failed']),
+      session('key', { status: 'stopped' }, ['left', 'left']),
+      session('other', {}, ['joined', 'joined'])
+    );
+    enqueue('key', 5, 30);
+    assert.equal(service.getUsage('key').concurrentBots, 7);
+
+    // Two requests checked before either has started anything
+    const [first, second] = await Promise.all([service.admitJoin('key', 3, 30), service.admitJoin('key', 3, 30)]);
+    assert.equal(first.allowed, true);
+    assert.equal(second.allowed, false);
+    assert.equal(!second.allowed && second.limit, 'maxConcurrentBots');
+    assert.equal(first.remaining.maxConcurrentBots, 0);
+
+    if (first.allowed) first.release();
+    assert.equal(service.getUsage('key').concurrentBots, 7);
+    assert.equal((await service.admitJoin('key', 3, 30)).allowed, true);
+  });
+
+  it('adds up bot-minutes since midnight UTC', async () => {
+    quotas.key = { maxBotMinutesPerDay: 300, maxJoinRequestsPerMinute: 0 };
+    sessions.push(
+      // Ran 30 of its 60 minutes
+      session('key', { status: 'stopped', startedAt: '2025-01-01T08:00:00Z', endedAt: '2025-01-01T08:30:00Z' }, ['left', 'left']),
+      // Booked minutes while running
+      session('key', { startedAt: '2025-01-01T09:30:00Z' }),
+      session('key', { status: 'failed', endedAt: '2025-01-01T09:00:00Z' }, ['failed']),
+      session('key', { status: 'stopped', createdAt: '2024-12-31T20:00:00Z', startedAt: '2024-12-31T20:00:00Z', endedAt: '2024-12-31T22:00:00Z' })
+    );
+    enqueue('key', 1, 30);
+    assert.equal(service.getUsage('key').botMinutesToday, 150);
+
+    const denied = await service.admitJoin('key', 2, 80);
+    assert.equal(denied.allowed, false);
+    assert.equal(!denied.allowed && denied.limit, 'maxBotMinutesPerDay');
+    assert.equal(!denied.allowed && denied.retryAfterSeconds, 14 * 60 * 60);
+
+    const allowed = await service.admitJoin('key', 2, 75);
+    assert.equal(allowed.allowed, true);
+    assert.equal(allowed.remaining.maxBotMinutesPerDay, 0);
+  });
+
+  it('holds scheduled runs to the bot limits but not the request rate', async () => {
+    quotas.key = { maxConcurrentBots: 4, maxJoinRequestsPerMinute: 1 };
+    sessions.push(session('key', {}, ['joined', 'joined']));
+
+    const first = await service.admitScheduledRun('key', 2, 30);
+    assert.equal(first.allowed, true);
+    const second = await service.admitScheduledRun('key', 1, 30);
+    assert.equal(!second.allowed && second.limit, 'maxConcurrentBots');
+
+    if (first.allowed) first.release();
+    assert.equal((await service.admitScheduledRun('key', 2, 30)).allowed, true);
+  });
+
+  it('refuses schedules whose single run exceeds a limit', async () => {
+    quotas.key = { maxConcurrentBots: 4, maxBotMinutesPerDay: 120, maxJoinRequestsPerMinute: 0 };
+    // What the key runs now doesn't matter when saving a schedule
+    sessions.push(session('key', {}, ['joined', 'joined', 'joined', 'joined']));
+
+    assert.equal(await service.checkScheduleLimits('key', 4, 30), null);
+    assert.equal((await service.checkScheduleLimits('key', 5, 10))?.limit, 'maxConcurrentBots');
+    assert.equal((await service.checkScheduleLimits('key', 3, 41))?.limit, 'maxBotMinutesPerDay');
+  });
+
+  it('reports unlimited limits as null', async () => {
+    quotas.key = { maxConcurrentBots: 0, maxBotMinutesPerDay: 0, maxJoinRequestsPerMinute: 0 };
+
+    assert.deepEqual(await service.getRemaining('key'), { maxConcurrentBots: null, maxBotMinutesPerDay: null, maxJoinRequestsPerMinute: null });
+  });
+});
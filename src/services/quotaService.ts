@@ -0,0 +1,246 @@
+import { QuotaLimits, Session } from '../types';
+import { SessionManager } from '../utils/sessionManager';
+import { AdmissionQueue } from '../utils/admissionQueue';
+import { ApiKeyService, getApiKeyService } from './apiKeyService';
+import { getMeetingService } from './meetingService';
+
+// Requests without a key, when API_AUTH=off, share one quota
+export const ANONYMOUS_QUOTA_KEY = 'anonymous';
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+export const DEFAULT_QUOTA: QuotaLimits = {
+  maxConcurrentBots: parseInt(process.env.QUOTA_MAX_CONCURRENT_BOTS || '200'),
+  maxBotMinutesPerDay: parseInt(process.env.QUOTA_BOT_MINUTES_PER_DAY || '24000'),
+  maxJoinRequestsPerMinute: parseInt(process.env.QUOTA_JOIN_REQUESTS_PER_MINUTE || '10')
+};
+
+export interface QuotaUsage {
+  concurrentBots: number;
+  // Since midnight UTC
+  botMinutesToday: number;
+  joinRequestsLastMinute: number;
+}
+
+// What is left of each limit; null for unlimited
+export type QuotaRemaining = { [K in keyof QuotaLimits]: number | null };
+
+export type QuotaDecision =
+  // `release` gives back the reserved bots once the join's session or queue entry counts them
+  | { allowed: true; remaining: QuotaRemaining; release: () => void }
+  | {
+    allowed: false;
+    code: 'rate_limited' | 'quota_exceeded';
+    limit: keyof QuotaLimits;
+    error: string;
+    remaining: QuotaRemaining;
+    retryAfterSeconds?: number;
+  };
+
+export type QuotaDenial = Extract<QuotaDecision, { allowed: false }>;
+
+const LIVE_STATUSES: Session['status'][] = ['starting', 'active'];
+
+const startOfUtcDay = (now: number): number => {
+  const day = new Date(now);
+  day.setUTCHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+// Bots that still hold, or held, a seat in the meeting
+const countedBots = (session: Session): number =>
+  session.bots.filter(bot => bot.status !== 'failed').length;
+
+// Booked minutes for running sessions, minutes actually used for finished ones
+const sessionMinutes = (session: Session): number => {
+  if (session.startedAt && session.endedAt) {
+    return Math.max(0, (Date.parse(session.endedAt) - Date.parse(session.startedAt)) / (60 * 1000));
+  }
+  return session.status === 'failed' ? 0 : session.durationMinutes;
+};
+
+interface Reservation {
+  keyId: string;
+  bots: number;
+  botMinutes: number;
+}
+
+// Per API key limits on concurrent bots, bot-minutes per day and join requests per minute.
+// Bot usage is read from this instance's sessions, including those launched by the key's
+// schedules, and its admission queue; request counts are kept in memory. With several
+// instances each enforces its own share.
+export class QuotaService {
+  private sessionManager: SessionManager;
+  private admissionQueue: AdmissionQueue;
+  private apiKeyService: ApiKeyService;
+  // Join request times per key within the last RATE_WINDOW_MS
+  private requests: Map<string, number[]> = new Map();
+  // Bots admitted by admitJoin whose session or queue entry doesn't exist yet, so concurrent
+  // requests can't all pass the check before any of them is counted
+  private reservations: Set<Reservation> = new Set();
+
+  constructor(sessionManager: SessionManager, admissionQueue: AdmissionQueue, apiKeyService: ApiKeyService) {
+    this.sessionManager = sessionManager;
+    this.admissionQueue = admissionQueue;
+    this.apiKeyService = apiKeyService;
+  }
+
+  async getLimits(keyId: string): Promise<QuotaLimits> {
+    if (keyId === ANONYMOUS_QUOTA_KEY || keyId === 'bootstrap') {
+      return { ...DEFAULT_QUOTA };
+    }
+    const record = await this.apiKeyService.get(keyId);
+    return { ...DEFAULT_QUOTA, ...record?.quota };
+  }
+
+  getUsage(keyId: string, now: number = Date.now()): QuotaUsage {
+    const dayStart = startOfUtcDay(now);
+    const sessions = this.sessionManager.listSessions().filter(session =>
+      (session.createdBy?.keyId ?? ANONYMOUS_QUOTA_KEY) === keyId
+    );
+    // Queued and reserved bots count as if they were running already
+    const pending = [
+      ...this.admissionQueue.list()
+        .filter(entry => (entry.createdBy?.keyId ?? ANONYMOUS_QUOTA_KEY) === keyId)
+        .map(entry => ({ bots: entry.botCount, botMinutes: entry.botCount * entry.durationMinutes })),
+      ...[...this.reservations].filter(reservation => reservation.keyId === keyId)
+    ];
+
+    return {
+      concurrentBots: sessions
+        .filter(session => LIVE_STATUSES.includes(session.status))
+        .reduce((sum, session) => sum + countedBots(session), 0)
+        + pending.reduce((sum, { bots }) => sum + bots, 0),
+      botMinutesToday: Math.ceil(sessions
+        .filter(session => Date.parse(session.createdAt) >= dayStart)
+        .reduce((sum, session) => sum + countedBots(session) * sessionMinutes(session), 0)
+        + pending.reduce((sum, { botMinutes }) => sum + botMinutes, 0)),
+      joinRequestsLastMinute: this.recentRequests(keyId, now).length
+    };
+  }
+
+  async getRemaining(keyId: string): Promise<QuotaRemaining> {
+    return this.remaining(await this.getLimits(keyId), this.getUsage(keyId));
+  }
+
+  // Counts the join request against the key's rate limit, then checks that `bots` bots for
+  // `durationMinutes` fit in its quota. Rejected requests count too, so retrying in a loop doesn't help.
+  // Allowed bots are reserved in the same step, until the caller releases them.
+  async admitJoin(keyId: string, bots: number, durationMinutes: number): Promise<QuotaDecision> {
+    const limits = await this.getLimits(keyId);
+    const now = Date.now();
+    const recent = this.recentRequests(keyId, now);
+    recent.push(now);
+    this.requests.set(keyId, recent);
+
+    const usage = this.getUsage(keyId, now);
+    if (limits.maxJoinRequestsPerMinute > 0 && recent.length > limits.maxJoinRequestsPerMinute) {
+      const oldest = recent[recent.length - 1 - limits.maxJoinRequestsPerMinute];
+      return {
+        allowed: false,
+        code: 'rate_limited',
+        limit: 'maxJoinRequestsPerMinute',
+        error: `At most ${limits.maxJoinRequestsPerMinute} join requests per minute`,
+        remaining: this.remaining(limits, usage),
+        retryAfterSeconds: Math.max(1, Math.ceil((oldest + RATE_WINDOW_MS - now) / 1000))
+      };
+    }
+    return this.reserve(keyId, limits, usage, bots, durationMinutes, now);
+  }
+
+  // As admitJoin for a scheduled run. Runs aren't API requests, so only the bot limits apply.
+  async admitScheduledRun(keyId: string, bots: number, durationMinutes: number): Promise<QuotaDecision> {
+    const limits = await this.getLimits(keyId);
+    const now = Date.now();
+    return this.reserve(keyId, limits, this.getUsage(keyId, now), bots, durationMinutes, now);
+  }
+
+  // Whether a single run of `bots` bots for `durationMinutes` fits the key's limits at all,
+  // whatever it is running now. Schedules are checked with it when they are saved; their
+  // runs go through admitScheduledRun when they fire.
+  async checkScheduleLimits(keyId: string, bots: number, durationMinutes: number): Promise<QuotaDenial | null> {
+    const limits = await this.getLimits(keyId);
+    const remaining = await this.getRemaining(keyId);
+    if (limits.maxConcurrentBots > 0 && bots > limits.maxConcurrentBots) {
+      return {
+        allowed: false,
+        code: 'quota_exceeded',
+        limit: 'maxConcurrentBots',
+        error: `${bots} bots exceed the limit of ${limits.maxConcurrentBots} concurrent bots`,
+        remaining
+      };
+    }
+    if (limits.maxBotMinutesPerDay > 0 && bots * durationMinutes > limits.maxBotMinutesPerDay) {
+      return {
+        allowed: false,
+        code: 'quota_exceeded',
+        limit: 'maxBotMinutesPerDay',
+        error: `${bots * durationMinutes} bot-minutes per run exceed the daily limit of ${limits.maxBotMinutesPerDay}`,
+        remaining
+      };
+    }
+    return null;
+  }
+
+  private reserve(keyId: string, limits: QuotaLimits, usage: QuotaUsage, bots: number, durationMinutes: number, now: number): QuotaDecision {
+    const remaining = this.remaining(limits, usage);
+    if (limits.maxConcurrentBots > 0 && usage.concurrentBots + bots > limits.maxConcurrentBots) {
+      return {
+        allowed: false,
+        code: 'quota_exceeded',
+        limit: 'maxConcurrentBots',
+        error: `${bots} more bots would exceed the limit of ${limits.maxConcurrentBots} concurrent bots (${usage.concurrentBots} running)`,
+        remaining
+      };
+    }
+    if (limits.maxBotMinutesPerDay > 0 && usage.botMinutesToday + bots * durationMinutes > limits.maxBotMinutesPerDay) {
+      return {
+        allowed: false,
+        code: 'quota_exceeded',
+        limit: 'maxBotMinutesPerDay',
+        error: `${bots * durationMinutes} more bot-minutes would exceed the daily limit of ${limits.maxBotMinutesPerDay} (${usage.botMinutesToday} used)`,
+        remaining,
+        retryAfterSeconds: Math.ceil((startOfUtcDay(now) + 24 * 60 * 60 * 1000 - now) / 1000)
+      };
+    }
+
+    const reservation: Reservation = { keyId, bots, botMinutes: bots * durationMinutes };
+    this.reservations.add(reservation);
+    return {
+      allowed: true,
+      release: () => this.reservations.delete(reservation),
+      remaining: this.remaining(limits, {
+        concurrentBots: usage.concurrentBots + bots,
+        botMinutesToday: usage.botMinutesToday + bots * durationMinutes,
+        joinRequestsLastMinute: usage.joinRequestsLastMinute
+      })
+    };
+  }
+
+  private recentRequests(keyId: string, now: number): number[] {
+    const recent = (this.requests.get(keyId) || []).filter(at => at > now - RATE_WINDOW_MS);
+    if (recent.length === 0) {
+      this.requests.delete(keyId);
+    }
+    return recent;
+  }
+
+  private remaining(limits: QuotaLimits, usage: QuotaUsage): QuotaRemaining {
+    const left = (limit: number, used: number) => limit > 0 ? Math.max(0, limit - used) : null;
+    return {
+      maxConcurrentBots: left(limits.maxConcurrentBots, usage.concurrentBots),
+      maxBotMinutesPerDay: left(limits.maxBotMinutesPerDay, usage.botMinutesToday),
+      maxJoinRequestsPerMinute: left(limits.maxJoinRequestsPerMinute, usage.joinRequestsLastMinute)
+    };
+  }
+}
+
+let sharedService: QuotaService | null = null;
+
+export const getQuotaService = (): QuotaService => {
+  if (!sharedService) {
+    const meetingService = getMeetingService();
+    sharedService = new QuotaService(meetingService.sessionManager, meetingService.admissionQueue, getApiKeyService());
+  }
+  return sharedService;
+};
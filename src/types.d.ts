@@ -1,44 +1,81 @@
-export interface Bot {
-  id: number;
-  name: string;
-  status: string;
-  country?: string;
-  countryCode?: string;
-  flag?: string;
+import { z } from 'zod';
+import { BotSchema, BrowserTypeSchema, JoinRequestSchema } from './schemas/meetingSchemas';
+import { ApiKeyScopeSchema } from './schemas/adminSchemas';
+
+// Inferred from the request schemas in schemas/meetingSchemas.ts
+export type BrowserType = z.infer<typeof BrowserTypeSchema>;
+
+export type Bot = z.infer<typeof BotSchema>;
+
+// A validated join request, with defaults applied
+export type JoinRequest = z.infer<typeof JoinRequestSchema>;
+
+// What callers may send before validation; optional fields get their defaults
+export type JoinRequestInput = z.input<typeof JoinRequestSchema>;
+
+export interface JoinProgressListener {
+  onTabOpened?(tabId: string, botIds: string[], joinState: JoinState): void;
+  onTabFailed?(botIds: string[], error: string): void;
+  onWorkerStarted?(taskId: string, botIds: number[]): void;
 }
 
-export interface JoinRequest {
-  bots: Bot[];
-  meetingId: string;
-  password: string;
-  botCount?: number;
-  duration?: number;
+export type JoinState = 'loading' | 'prejoin' | 'waiting_room' | 'joined' | 'failed' | 'ended';
+
+export type JoinFailureReason =
+  | 'wrong_password'
+  | 'invalid_meeting'
+  | 'meeting_not_started'
+  | 'navigation_error'
+  | 'join_timeout';
+
+export interface TabJoinResult {
+  tabId: string;
+  botIds: string[];
+  browserType: BrowserType;
+  joinState: JoinState;
+  failureReason?: JoinFailureReason;
+}
+
+export type TabEventType = 'tab_dropped' | 'tab_recovered' | 'tab_recovery_failed';
+
+export interface TabEvent {
+  type: TabEventType;
+  tabId: string;
+  reason: string;
+  attempt?: number;
+  joinState?: JoinState;
+  at: string;
 }
 
 export interface Task {
+  tabId: string;
   botPair: Bot[];
   meetingId: string;
-  keepOpenOnTimeout?:any;
-  selectorTimeout?:any;
-  skipJoinIndicator?:any;
-  optimizedJoin?:any;
-  disableVideo?:any;
-  disableAudio?:any;
-  lowResolution?:any;
-  lowMemoryMode?:any;
-  duration?:any;
+  keepOpenOnTimeout?: boolean;
+  selectorTimeout?: number;
+  skipJoinIndicator?: boolean;
+  optimizedJoin?: boolean;
+  disableVideo?: boolean;
+  disableAudio?: boolean;
+  lowResolution?: boolean;
+  lowMemoryMode?: boolean;
+  duration?: number; // in milliseconds
   password: string;
   origin: string;
   signature: string;
-  browserType: 'chromium' | 'firefox' | 'webkit';
+  browserType: BrowserType;
 }
 
 export interface WorkerResult {
   success: boolean;
   botId: number;
+  tabId?: string;
+  joinState?: JoinState;
+  failureReason?: JoinFailureReason;
   error?: string;
-  keepOpenOnTimeout?:any;
-  browser: 'chromium' | 'firefox' | 'webkit';
+  keepOpenOnTimeout?: boolean;
+  scheduledTermination?: string;
+  browser: BrowserType;
 }
 
 
@@ -73,3 +110,175 @@ export interface ActiveWorkerInfo {
   duration: number; // in minutes
   botCount: number;
 }
+
+export type SessionStatus = 'starting' | 'active' | 'ended' | 'stopped' | 'failed' | 'interrupted';
+
+export interface SessionTab {
+  tabId: string;
+  botIds: string[];
+  browserType: BrowserType;
+  openedAt: string;
+  joinState: JoinState;
+  failureReason?: JoinFailureReason;
+}
+
+export interface SessionBot {
+  botId: number;
+  name: string;
+  tabId?: string;
+  taskId?: string;
+  browserType?: BrowserType;
+  status: 'pending' | 'joined' | 'dropped' | 'failed' | 'left';
+  joinState?: JoinState;
+  error?: string;
+}
+
+export type SessionEventType = 'created' | 'rescheduled' | 'stopped' | 'failed' | 'resumed' | 'interrupted' | TabEventType;
+
+export interface SessionEvent {
+  type: SessionEventType;
+  at: string;
+  tabId?: string;
+  message: string;
+}
+
+export interface Session {
+  id: string;
+  meetingId: string;
+  status: SessionStatus;
+  durationMinutes: number;
+  bots: SessionBot[];
+  tabs: SessionTab[];
+  taskIds: string[];
+  signature: string;
+  signatureExpiresAt?: string;
+  createdAt: string;
+  startedAt?: string;
+  endsAt?: string;
+  endedAt?: string;
+  error?: string;
+  events: SessionEvent[];
+  // API key that started the session, directly or through a schedule it created
+  createdBy?: ApiKeyIdentity;
+  // Schedule whose run started the session
+  scheduleId?: string;
+}
+
+export interface ScheduledBot {
+  id: string;
+  name: string;
+  countryCode: string;
+  country?: string;
+  status: string;
+  flag?: string;
+}
+
+export interface ScheduleRecurrence {
+  // RRULE subset, e.g. 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'
+  rule: string;
+  // Local dates (YYYY-MM-DD) to skip
+  exceptDates?: string[];
+  // Last local date (YYYY-MM-DD) an occurrence may fall on
+  until?: string;
+}
+
+export type JoinStatus = 'joined' | 'partially_failed' | 'invalid' | 'at_capacity' | 'stopped' | 'failed';
+
+export type ScheduleOutcome = 'completed' | 'failed' | 'partially_failed' | 'missed';
+
+// One run of a schedule, from firing until its session ends
+export interface ScheduleRunResult {
+  sessionId?: string;
+  // How the join ended (see MeetingService); unset while bots are still joining
+  joinStatus?: JoinStatus;
+  startedAt: string;
+  joinedAt?: string;
+  finishedAt?: string;
+  totalBots: number;
+  successes: number;
+  failures: number;
+  tabsOpened: number;
+  tabsFailed: number;
+  message?: string;
+  error?: string;
+  // Minutes after its start time the run was launched; the bots stay for what is left
+  lateMinutes?: number;
+  // Why a 'missed' run was not launched
+  missedReason?: string;
+}
+
+export type OccurrenceStatus = 'running' | ScheduleOutcome;
+
+export interface ScheduleOccurrence {
+  id: string;
+  scheduleId: string;
+  occurrenceAt: string;
+  status: OccurrenceStatus;
+  run: ScheduleRunResult;
+}
+
+export type ScheduleStatus = 'scheduled' | 'running' | ScheduleOutcome | 'cancelled';
+
+export interface Schedule {
+  id: string;
+  meetingId: string;
+  password: string;
+  quantity: number;
+  duration: number;
+  countryCode: string;
+  scheduledDate?: string;
+  scheduledTime?: string;
+  // IANA zone the date and time are written in, e.g. 'Europe/Berlin'
+  timeZone?: string;
+  // Absolute UTC instant of the run (ISO 8601); takes precedence over date and time
+  scheduledAt?: string;
+  // Repeats from scheduledDate/scheduledTime; the schedule stays 'scheduled' until the rule runs out
+  recurrence?: ScheduleRecurrence;
+  // UTC instant of the most recent run that was claimed, whether it was launched or missed
+  lastOccurrenceAt?: string;
+  status: ScheduleStatus;
+  bots: any;
+  userId: string;
+  createdAt: any;
+  updatedAt?: any;
+  // API key the schedule was created with; its sessions are attributed to it
+  createdBy?: ApiKeyIdentity;
+  lastRun?: ScheduleRunResult;
+}
+
+// Who holds a named lease, such as the scheduler's, and until when (epoch milliseconds)
+export interface LeaseRecord {
+  holderId: string;
+  expiresAt: number;
+  renewedAt: string;
+}
+
+export type ApiKeyScope = z.infer<typeof ApiKeyScopeSchema>;
+
+// Stored form of an API key. Only a SHA-256 hash of its secret is kept; the key itself is shown once, on creation.
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  hash: string;
+  createdAt: string;
+  // Id of the key that created this one
+  createdBy?: string;
+  revokedAt?: string;
+  // Overrides of the default quota; unset limits use the defaults
+  quota?: Partial<QuotaLimits>;
+}
+
+// The key a request authenticated with
+export interface ApiKeyIdentity {
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+// Limits on what one API key may run; 0 means unlimited
+export interface QuotaLimits {
+  maxConcurrentBots: number;
+  maxBotMinutesPerDay: number;
+  maxJoinRequestsPerMinute: number;
+}
@@ -1,52 +1,191 @@
-import { freemem, totalmem, cpus } from 'os';
+import { freemem, totalmem, cpus, loadavg } from 'os';
 import { ActiveWorkerInfo } from './workerManager';
+import { BROWSER_ID_ENV } from './browserManager';
+import { CLOCK_TICKS_PER_SECOND, groupByChildOf, readProcessEnv, readProcessTable } from './processStats';
+import { createLogger } from './logger';
 
-interface SystemMetrics {
+const log = createLogger('SystemMoniter');
+
+// Loads are shares of the whole host's CPU time (1 = every core busy), memory of its total RAM.
+// Both are smoothed over SYSTEM_SMOOTHING_SECONDS, so one busy sample doesn't close admissions.
+export interface SystemMetrics {
   totalWorkers: number;
   totalActiveBots: number;
   lastChecked: number;
   memoryUsage: number;
   cpuLoad: number;
+  cpuCount: number;
+  // 1, 5 and 15 minute averages of runnable processes
+  loadAverage: number[];
+  // This server process
+  processCpuLoad: number;
+  processRssBytes: number;
+  // Every browser process tree launched by BrowserManager, renderers included
+  browserCpuLoad: number;
+  browserRssBytes: number;
+  // When the figures above were last sampled; unset before the first sample
+  sampledAt?: string;
+}
+
+export interface BrowserProcessStats {
+  browserId: string;
+  pid: number;
+  processCount: number;
+  cpuLoad: number;
+  rssBytes: number;
 }
 
+interface CpuTimes {
+  busy: number;
+  total: number;
+}
+
+const readHostCpuTimes = (): CpuTimes => cpus().reduce((sum, cpu) => {
+  const { user, nice, sys, idle, irq } = cpu.times;
+  return { busy: sum.busy + user + nice + sys + irq, total: sum.total + user + nice + sys + idle + irq };
+}, { busy: 0, total: 0 });
+
 export class SystemMonitor {
   private metrics: SystemMetrics = {
     totalWorkers: 0,
     totalActiveBots: 0,
     lastChecked: Date.now(),
-    memoryUsage: 0,
-    cpuLoad: 0
+    memoryUsage: 1 - (freemem() / totalmem()),
+    cpuLoad: 0,
+    cpuCount: cpus().length,
+    loadAverage: loadavg(),
+    processCpuLoad: 0,
+    processRssBytes: process.memoryUsage().rss,
+    browserCpuLoad: 0,
+    browserRssBytes: 0
+  };
+  private readonly maxSystemBots = parseInt(process.env.MAX_SYSTEM_BOTS || '1000');
+  private readonly SAMPLE_MS = parseInt(process.env.SYSTEM_SAMPLE_SECONDS || '5') * 1000;
+  private readonly SMOOTHING_MS = parseInt(process.env.SYSTEM_SMOOTHING_SECONDS || '30') * 1000;
+  private browsers: Map<string, BrowserProcessStats> = new Map();
+  // Previous sample, to turn cumulative CPU times into rates
+  private previous?: {
+    at: number;
+    hostCpu: CpuTimes;
+    processCpu: NodeJS.CpuUsage;
+    processTicks: Map<number, number>;
   };
+  // Browser id of each browser root process, read once from its environment
+  private browserIdsByPid: Map<number, string | null> = new Map();
+  private sampling = false;
+
+  constructor() {
+    const timer = setInterval(() => this.sample(), this.SAMPLE_MS);
+    timer.unref();
+    this.sample();
+  }
 
   updateMetrics(activeWorkers: Map<string, ActiveWorkerInfo>): void {
     this.metrics.totalWorkers = activeWorkers.size;
     this.metrics.totalActiveBots = Array.from(activeWorkers.values()).reduce((sum, info) => sum + info.botCount, 0);
     this.metrics.lastChecked = Date.now();
-    this.metrics.memoryUsage = 1 - (freemem() / totalmem());
-    const cpuCount = cpus().length;
-    this.metrics.cpuLoad = Math.min(1, this.metrics.totalWorkers / (cpuCount * 2));
   }
 
   canHandleMoreWorkers(requestedBotCount: number, globalActiveWorkers: Map<string, ActiveWorkerInfo>): boolean {
     this.updateMetrics(globalActiveWorkers);
     if (this.metrics.memoryUsage > 0.85) {
-      console.warn(`[${new Date().toISOString()}] High memory usage (${(this.metrics.memoryUsage * 100).toFixed(1)}%)`);
+      log.warn(`High memory usage (${(this.metrics.memoryUsage * 100).toFixed(1)}%)`);
       return false;
     }
     if (this.metrics.cpuLoad > 0.9) {
-      console.warn(`[${new Date().toISOString()}] High CPU load (${(this.metrics.cpuLoad * 100).toFixed(1)}%)`);
+      log.warn(`High CPU load (${(this.metrics.cpuLoad * 100).toFixed(1)}%)`);
       return false;
     }
     const totalBotsAfterRequest = this.metrics.totalActiveBots + requestedBotCount;
-    const maxSystemBots = parseInt(process.env.MAX_SYSTEM_BOTS || '1000');
-    if (totalBotsAfterRequest > maxSystemBots) {
-      console.warn(`[${new Date().toISOString()}] Exceeds max bot limit (${totalBotsAfterRequest}/${maxSystemBots})`);
+    if (totalBotsAfterRequest > this.maxSystemBots) {
+      log.warn(`Exceeds max bot limit (${totalBotsAfterRequest}/${this.maxSystemBots})`);
       return false;
     }
     return true;
   }
 
+  getMaxSystemBots(): number {
+    return this.maxSystemBots;
+  }
+
   getMetrics(): SystemMetrics {
-    return { ...this.metrics };
+    return { ...this.metrics, loadAverage: [...this.metrics.loadAverage] };
   }
-}
\ No newline at end of file
+
+  // Smoothed CPU and memory of each browser's process tree, keyed by BrowserManager's browser id
+  getBrowserProcesses(): BrowserProcessStats[] {
+    return Array.from(this.browsers.values()).map(stats => ({ ...stats }));
+  }
+
+  private sample(): void {
+    // A slow /proc scan shouldn't pile up behind the timer
+    if (this.sampling) return;
+    this.sampling = true;
+    this.takeSample()
+      .catch(error => log.error('Failed to sample system metrics', { error }))
+      .finally(() => { this.sampling = false; });
+  }
+
+  private async takeSample(): Promise<void> {
+    const table = await readProcessTable();
+    const now = Date.now();
+    const hostCpu = readHostCpuTimes();
+    const processCpu = process.cpuUsage();
+    const processTicks = new Map(Array.from(table.values()).map(sample => [sample.pid, sample.cpuTicks]));
+    const previous = this.previous;
+    this.previous = { at: now, hostCpu, processCpu, processTicks };
+
+    // Weight of this sample in the moving averages; the first sample is taken as is
+    const elapsedMs = previous ? now - previous.at : 0;
+    const weight = previous ? 1 - Math.exp(-elapsedMs / this.SMOOTHING_MS) : 1;
+    const smooth = (current: number, value: number) => current + weight * (value - current);
+    const hostCoreMs = Math.max(1, elapsedMs * this.metrics.cpuCount);
+
+    this.metrics.memoryUsage = smooth(this.metrics.memoryUsage, 1 - (freemem() / totalmem()));
+    this.metrics.loadAverage = loadavg();
+    this.metrics.processRssBytes = process.memoryUsage().rss;
+    if (previous) {
+      const hostTotal = hostCpu.total - previous.hostCpu.total;
+      if (hostTotal > 0) {
+        this.metrics.cpuLoad = smooth(this.metrics.cpuLoad, (hostCpu.busy - previous.hostCpu.busy) / hostTotal);
+      }
+      const processCpuMs = (processCpu.user + processCpu.system - previous.processCpu.user - previous.processCpu.system) / 1000;
+      this.metrics.processCpuLoad = smooth(this.metrics.processCpuLoad, processCpuMs / hostCoreMs);
+    }
+
+    // Each browser process tree hangs off this process; processes new since the last sample
+    // spent all their CPU time within it
+    const seenBrowsers = new Set<string>();
+    for (const [rootPid, tree] of groupByChildOf(process.pid, table)) {
+      const browserId = await this.browserIdOf(rootPid);
+      if (!browserId) continue;
+      seenBrowsers.add(browserId);
+
+      const ticks = tree.reduce((sum, sample) => sum + sample.cpuTicks - (previous?.processTicks.get(sample.pid) ?? 0), 0);
+      const cpuLoad = previous ? Math.max(0, (ticks * 1000 / CLOCK_TICKS_PER_SECOND) / hostCoreMs) : 0;
+      const rssBytes = tree.reduce((sum, sample) => sum + sample.rssBytes, 0);
+      const existing = this.browsers.get(browserId);
+      this.browsers.set(browserId, {
+        browserId,
+        pid: rootPid,
+        processCount: tree.length,
+        cpuLoad: existing ? smooth(existing.cpuLoad, cpuLoad) : cpuLoad,
+        rssBytes: existing ? Math.round(smooth(existing.rssBytes, rssBytes)) : rssBytes
+      });
+    }
+    Array.from(this.browsers.keys()).filter(id => !seenBrowsers.has(id)).forEach(id => this.browsers.delete(id));
+    Array.from(this.browserIdsByPid.keys()).filter(pid => !table.has(pid)).forEach(pid => this.browserIdsByPid.delete(pid));
+
+    const browsers = Array.from(this.browsers.values());
+    this.metrics.browserCpuLoad = browsers.reduce((sum, stats) => sum + stats.cpuLoad, 0);
+    this.metrics.browserRssBytes = browsers.reduce((sum, stats) => sum + stats.rssBytes, 0);
+    this.metrics.sampledAt = new Date(now).toISOString();
+  }
+
+  private async browserIdOf(pid: number): Promise<string | null> {
+    if (!this.browserIdsByPid.has(pid)) {
+      this.browserIdsByPid.set(pid, (await readProcessEnv(pid, BROWSER_ID_ENV)) ?? null);
+    }
+    return this.browserIdsByPid.get(pid) as string | null;
+  }
+}
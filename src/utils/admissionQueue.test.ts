@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdmissionQueue, QueueEntryInput } from './admissionQueue';
+
+describe('AdmissionQueue', () => {
+  let capacity: number;
+  let queue: AdmissionQueue;
+  let events: string[];
+
+  const entry = (meetingId: string, botCount: number, overrides: Partial<QueueEntryInput> = {}): QueueEntryInput => ({
+    meetingId,
+    botCount,
+    durationMinutes: 30,
+    priority: 0,
+    maxWaitMs: 60 * 1000,
+    admit: () => {
+      // Admitted bots take up capacity straight away, as a started join does
+      capacity -= botCount;
+      events.push(`admit ${meetingId}`);
+    },
+    reject: (reason, cancelled) => events.push(`${cancelled ? 'cancel' : 'reject'} ${meetingId}: ${reason}`),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'setInterval', 'Date'], now: Date.parse('2025-01-01T10:00:00Z') });
+    capacity = 0;
+    events = [];
+    queue = new AdmissionQueue(botCount => botCount <= capacity, botCount => Date.now() + botCount * 60 * 1000);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('orders entries by priority, then arrival', () => {
+    queue.enqueue(entry('a', 1));
+    queue.enqueue(entry('b', 1, { priority: 5 }));
+    queue.enqueue(entry('c', 1));
+    const d = queue.enqueue(entry('d', 1, { priority: 5 }));
+
+    assert.deepEqual(queue.list().map(view => view.meetingId), ['b', 'd', 'a', 'c']);
+    assert.equal(d.position, 2);
+  });
+
+  it('estimates each start from the bots ahead of it', () => {
+    queue.enqueue(entry('a', 2));
+    queue.enqueue(entry('b', 3));
+
+    assert.deepEqual(queue.list().map(view => view.estimatedStartAt), ['2025-01-01T10:02:00.000Z', '2025-01-01T10:05:00.000Z']);
+  });
+
+  it('admits from the head only while it fits', () => {
+    queue.enqueue(entry('a', 3));
+    queue.enqueue(entry('b', 1));
+    capacity = 2;
+    queue.dispatch();
+
+    // b would fit, but doesn't jump ahead of a
+    assert.deepEqual(events, []);
+    capacity = 4;
+    queue.dispatch();
+    assert.deepEqual(events, ['admit a', 'admit b']);
+    assert.equal(queue.length, 0);
+  });
+
+  it('retries the head on a timer', () => {
+    queue.enqueue(entry('a', 1));
+    capacity = 1;
+    mock.timers.tick(10 * 1000);
+
+    assert.deepEqual(events, ['admit a']);
+  });
+
+  it('rejects entries that wait too long', () => {
+    queue.enqueue(entry('a', 1, { maxWaitMs: 5 * 1000 }));
+    queue.enqueue(entry('b', 1));
+    mock.timers.tick(5 * 1000);
+
+    assert.deepEqual(events, ['reject a: No capacity within 5s in the queue']);
+    assert.deepEqual(queue.list().map(view => view.meetingId), ['b']);
+  });
+
+  it('dispatches the entries behind a cancelled head', () => {
+    const head = queue.enqueue(entry('a', 5));
+    queue.enqueue(entry('b', 1));
+    capacity = 1;
+
+    assert.equal(queue.cancel(head.id), true);
+    assert.deepEqual(events, ['cancel a: Cancelled while queued', 'admit b']);
+    assert.equal(queue.cancel(head.id), false);
+    assert.equal(queue.describe(head.id), null);
+  });
+
+  it('keeps dispatching when an admit throws', () => {
+    queue.enqueue(entry('a', 1, { admit: () => { throw new Error('Browser gone'); } }));
+    queue.enqueue(entry('b', 1));
+    capacity = 2;
+    queue.dispatch();
+
+    assert.deepEqual(events, ['admit b']);
+  });
+
+  it('is full at QUEUE_MAX_LENGTH entries', () => {
+    const previous = process.env.QUEUE_MAX_LENGTH;
+    process.env.QUEUE_MAX_LENGTH = '2';
+    try {
+      queue = new AdmissionQueue(() => false, () => null);
+      queue.enqueue(entry('a', 1));
+      assert.equal(queue.isFull(), false);
+      queue.enqueue(entry('b', 1));
+      assert.equal(queue.isFull(), true);
+      assert.equal(queue.list()[1].estimatedStartAt, null);
+    } finally {
+      if (previous === undefined) delete process.env.QUEUE_MAX_LENGTH;
+      else process.env.QUEUE_MAX_LENGTH = previous;
+    }
+  });
+});
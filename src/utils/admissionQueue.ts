@@ -0,0 +1,159 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKeyIdentity } from '../types';
+import { createLogger } from './logger';
+
+const log = createLogger('admissionQueue');
+
+export interface QueueEntryInput {
+  meetingId: string;
+  botCount: number;
+  durationMinutes: number;
+  priority: number;
+  maxWaitMs: number;
+  createdBy?: ApiKeyIdentity;
+  // Called synchronously when capacity frees up, so the entry's bots are counted before the next one is checked
+  admit(): void;
+  // Called when the entry waited too long or was cancelled
+  reject(reason: string, cancelled: boolean): void;
+}
+
+interface QueueEntry extends QueueEntryInput {
+  id: string;
+  enqueuedAt: number;
+  expiresAt: number;
+  timeout: NodeJS.Timeout;
+}
+
+export interface QueueEntryView {
+  id: string;
+  meetingId: string;
+  botCount: number;
+  durationMinutes: number;
+  priority: number;
+  // 1 is next in line
+  position: number;
+  enqueuedAt: string;
+  expiresAt: string;
+  // Null when running sessions won't free enough bots by themselves
+  estimatedStartAt: string | null;
+  createdBy?: ApiKeyIdentity;
+}
+
+// Joins waiting for capacity, ordered by priority and then arrival. Only the head of the
+// queue is admitted, so a large request isn't starved by smaller ones behind it.
+export class AdmissionQueue {
+  private entries: QueueEntry[] = [];
+  private canAdmit: (botCount: number) => boolean;
+  // When enough bots will have been freed for `botCount` more to start, or null if unknown
+  private estimateStart: (botCount: number) => number | null;
+  private timer?: NodeJS.Timeout;
+  private readonly MAX_LENGTH = parseInt(process.env.QUEUE_MAX_LENGTH || '100');
+  // Memory and CPU load change without any session ending, so the head is retried on a timer too
+  private readonly RETRY_MS = parseInt(process.env.QUEUE_RETRY_SECONDS || '10') * 1000;
+
+  constructor(canAdmit: (botCount: number) => boolean, estimateStart: (botCount: number) => number | null) {
+    this.canAdmit = canAdmit;
+    this.estimateStart = estimateStart;
+  }
+
+  get length(): number {
+    return this.entries.length;
+  }
+
+  isFull(): boolean {
+    return this.entries.length >= this.MAX_LENGTH;
+  }
+
+  enqueue(input: QueueEntryInput): QueueEntryView {
+    const now = Date.now();
+    const entry: QueueEntry = {
+      ...input,
+      id: uuidv4(),
+      enqueuedAt: now,
+      expiresAt: now + input.maxWaitMs,
+      timeout: setTimeout(() => this.remove(entry.id, `No capacity within ${Math.round(input.maxWaitMs / 1000)}s in the queue`, false), input.maxWaitMs)
+    };
+    entry.timeout.unref();
+
+    const index = this.entries.findIndex(queued => queued.priority < entry.priority);
+    this.entries.splice(index === -1 ? this.entries.length : index, 0, entry);
+    log.info(`Queued join ${entry.id} for meeting ${entry.meetingId} (${entry.botCount} bots, priority ${entry.priority}) at position ${this.entries.indexOf(entry) + 1}`);
+
+    this.ensureTimer();
+    return this.describe(entry.id) as QueueEntryView;
+  }
+
+  // Admits entries from the head of the queue for as long as they fit
+  dispatch(): void {
+    while (this.entries.length > 0 && this.canAdmit(this.entries[0].botCount)) {
+      const entry = this.entries.shift() as QueueEntry;
+      clearTimeout(entry.timeout);
+      log.info(`Admitting queued join ${entry.id} after ${Math.round((Date.now() - entry.enqueuedAt) / 1000)}s`);
+      try {
+        entry.admit();
+      } catch (error) {
+        log.error(`Failed to start queued join ${entry.id}`, { error });
+      }
+    }
+    this.ensureTimer();
+  }
+
+  cancel(id: string): boolean {
+    return this.remove(id, 'Cancelled while queued', true);
+  }
+
+  describe(id: string): QueueEntryView | null {
+    const index = this.entries.findIndex(entry => entry.id === id);
+    return index === -1 ? null : this.view(index);
+  }
+
+  list(): QueueEntryView[] {
+    return this.entries.map((_, index) => this.view(index));
+  }
+
+  private view(index: number): QueueEntryView {
+    const entry = this.entries[index];
+    // Everything ahead has to start first
+    const botsThrough = this.entries.slice(0, index + 1).reduce((sum, queued) => sum + queued.botCount, 0);
+    const estimate = this.estimateStart(botsThrough);
+    return {
+      id: entry.id,
+      meetingId: entry.meetingId,
+      botCount: entry.botCount,
+      durationMinutes: entry.durationMinutes,
+      priority: entry.priority,
+      position: index + 1,
+      enqueuedAt: new Date(entry.enqueuedAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+      estimatedStartAt: estimate === null ? null : new Date(Math.max(estimate, Date.now())).toISOString(),
+      createdBy: entry.createdBy
+    };
+  }
+
+  private remove(id: string, reason: string, cancelled: boolean): boolean {
+    const index = this.entries.findIndex(entry => entry.id === id);
+    if (index === -1) {
+      return false;
+    }
+    const [entry] = this.entries.splice(index, 1);
+    clearTimeout(entry.timeout);
+    log.info(`Removed queued join ${entry.id}: ${reason}`);
+    entry.reject(reason, cancelled);
+    this.ensureTimer();
+    // The entry may have been holding up smaller ones behind it
+    if (index === 0) {
+      this.dispatch();
+    }
+    return true;
+  }
+
+  private ensureTimer(): void {
+    if (this.entries.length > 0 && !this.timer) {
+      this.timer = setInterval(() => this.dispatch(), this.RETRY_MS);
+      this.timer.unref();
+    } else if (this.entries.length === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
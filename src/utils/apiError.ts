@@ -0,0 +1,56 @@
+import { Response } from 'express';
+import { ZodError } from 'zod';
+
+// Every error response has the same shape: a human-readable `error`, a stable `code` for
+// clients to branch on and, for invalid input, one `details` entry per offending field.
+// Routes may add context such as `sessionId` next to these.
+
+export type ApiErrorCode =
+  | 'validation_failed'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'at_capacity'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'session_stopped'
+  | 'join_failed'
+  | 'auth_unavailable'
+  | 'quota_unavailable'
+  | 'internal_error';
+
+export interface ApiErrorDetail {
+  // Dotted path to the field, with list indexes in brackets, e.g. `bots[2].id`; empty for the whole input
+  path: string;
+  code: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  details?: ApiErrorDetail[];
+  [context: string]: unknown;
+}
+
+export const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>((formatted, key) => (typeof key === 'number' ? `${formatted}[${key}]` : formatted ? `${formatted}.${key}` : key), '');
+
+export const toErrorDetails = (error: ZodError, prefix: (string | number)[] = []): ApiErrorDetail[] =>
+  error.issues.map(issue => ({
+    path: formatPath([...prefix, ...issue.path]),
+    // Custom issues carry their own code; the rest use zod's, e.g. `invalid_type` or `too_big`
+    code: issue.code === 'custom' && typeof issue.params?.code === 'string' ? issue.params.code : issue.code,
+    message: issue.message
+  }));
+
+export const apiError = (code: ApiErrorCode, error: string, context: Record<string, unknown> = {}): ApiErrorBody => ({
+  error,
+  code,
+  ...context
+});
+
+export const sendError = (res: Response, status: number, code: ApiErrorCode, error: string, context: Record<string, unknown> = {}): void => {
+  res.status(status).json(apiError(code, error, context));
+};
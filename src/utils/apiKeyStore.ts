@@ -0,0 +1,99 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ApiKeyRecord } from '../types';
+import { STATE_DIR } from './stateStore';
+
+export interface ApiKeyStore {
+  list(): Promise<ApiKeyRecord[]>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  // Inserts the key, or replaces the one with the same id
+  save(record: ApiKeyRecord): Promise<void>;
+}
+
+// Re-read on every call so keys created through another process on the host are seen
+export class FileApiKeyStore implements ApiKeyStore {
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as ApiKeyRecord[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return (await this.list()).find(record => record.id === id) || null;
+  }
+
+  // Writes are serialized and go through a temp file, as in FileStateStore
+  save(record: ApiKeyRecord): Promise<void> {
+    const write = this.writeChain.then(async () => {
+      const records = [...(await this.list()).filter(existing => existing.id !== record.id), record];
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(records, null, 2), { mode: 0o600 });
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export class MemoryApiKeyStore implements ApiKeyStore {
+  private records: Map<string, ApiKeyRecord> = new Map();
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return Array.from(this.records.values());
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return this.records.get(id) || null;
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+}
+
+// Loaded on first use, as in FirestoreScheduleRepository
+const firestoreApiKeys = () => import('../lib/firebase/apiKeys');
+
+export class FirestoreApiKeyStore implements ApiKeyStore {
+  async list(): Promise<ApiKeyRecord[]> {
+    const { getApiKeys } = await firestoreApiKeys();
+    return getApiKeys();
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const { getApiKey } = await firestoreApiKeys();
+    return getApiKey(id);
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    const { saveApiKey } = await firestoreApiKeys();
+    await saveApiKey(record);
+  }
+}
+
+export const createApiKeyStore = (): ApiKeyStore => {
+  const kind = process.env.API_KEY_STORE || (process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ? 'firestore' : 'file');
+  switch (kind) {
+    case 'firestore':
+      return new FirestoreApiKeyStore();
+    case 'file':
+      return new FileApiKeyStore(path.join(STATE_DIR, 'api-keys.json'));
+    case 'memory':
+      return new MemoryApiKeyStore();
+    default:
+      throw new Error(`Unknown API_KEY_STORE: ${kind}`);
+  }
+};
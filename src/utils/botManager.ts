@@ -1,17 +1,22 @@
 import BrowserManager from '../utils/browserManager';
-import { Bot } from '../types';
+import { Bot, BrowserType, JoinProgressListener, TabJoinResult } from '../types';
+import { createLogger } from './logger';
 
-export class BotManager {
-  private browserManagers: BrowserManager[] = [];
-  private maxTabsPerBrowser: number = 25; // Max tabs per browser to prevent crashes
+const log = createLogger('botManager');
 
-  constructor() {
-    // No browser instances initialized here; they'll be created dynamically
-  }
+// Bots whose tab could not be opened at all
+export interface UnopenedTab {
+  botIds: string[];
+  browserType: BrowserType;
+  error: string;
+}
+
+export class BotManager {
+  private browserManager: BrowserManager;
 
-  async launchBrowsers(): Promise<void> {
-    console.log(`[${new Date().toISOString()}] Launching ${this.browserManagers.length} browser instances`);
-    await Promise.all(this.browserManagers.map(bm => bm.launchBrowser()));
+  constructor(browserManager: BrowserManager) {
+    // Browser processes are launched on demand by the pool as tabs are placed
+    this.browserManager = browserManager;
   }
 
   async joinMeetingForBots(
@@ -20,34 +25,28 @@ export class BotManager {
     password: string,
     duration: number,
     origin: string,
-    signature: string
-  ): Promise<{ tabId: string; botIds: string[] }[]> {
-    console.log(`[${new Date().toISOString()}] Processing ${bots.length} bots for meeting ${meetingId}`);
-    const results: { tabId: string; botIds: string[] }[] = [];
+    signature: string,
+    listener?: JoinProgressListener
+  ): Promise<{ tabs: TabJoinResult[]; unopened: UnopenedTab[] }> {
+    log.info(`Processing ${bots.length} bots for meeting ${meetingId}`);
+    const results: TabJoinResult[] = [];
+    const unopened: UnopenedTab[] = [];
     const maxBotsPerTab = 20; // Only 1 bot per tab for simplicity
 
-    // Calculate required browser instances
-    const requiredBrowsers = Math.ceil(bots.length / this.maxTabsPerBrowser);
-    console.log(`[${new Date().toISOString()}] Requiring ${requiredBrowsers} browser instances for ${bots.length} bots`);
-
-    // Initialize browser instances if needed
-    while (this.browserManagers.length < requiredBrowsers) {
-      this.browserManagers.push(BrowserManager.getInstance());
+    // Each tab runs on a single engine, so bots are batched per engine
+    const botsByEngine = new Map<BrowserType, Bot[]>();
+    for (const bot of bots) {
+      const browserType = bot.browserType || 'chromium';
+      botsByEngine.set(browserType, [...(botsByEngine.get(browserType) || []), bot]);
     }
+    const batches: { browserType: BrowserType; bots: Bot[] }[] = [];
+    botsByEngine.forEach((engineBots, browserType) => {
+      for (let i = 0; i < engineBots.length; i += maxBotsPerTab) {
+        batches.push({ browserType, bots: engineBots.slice(i, i + maxBotsPerTab) });
+      }
+    });
 
-    // Launch only the required browser instances
-    await Promise.all(
-      this.browserManagers.slice(0, requiredBrowsers).map(bm => bm.launchBrowser())
-    );
-
-    // Distribute bots across browser instances
-    let currentBrowserIndex = 0;
-    let tabsInCurrentBrowser = this.browserManagers[currentBrowserIndex].getTabCount();
-
-    for (let i = 0; i < bots.length; i += maxBotsPerTab) {
-      const batch = bots.slice(i, i + maxBotsPerTab);
-      if (batch.length === 0) break;
-
+    for (const { browserType, bots: batch } of batches) {
       const botIds = batch.map(bot => bot.id.toString());
       const usernames = batch.map(bot => encodeURIComponent(bot.name)).join(',');
 
@@ -55,44 +54,41 @@ export class BotManager {
       let url = `${origin}/meetings?usernames=${usernames}&meetingId=${encodeURIComponent(meetingId)}&password=${encodeURIComponent(password)}&signature=${encodeURIComponent(signature)}`;
       url += '&optimized=true&noVideo=true&noAudio=true&forceMute=true&lowRes=true&minimalUI=true';
 
-      console.log(`[${new Date().toISOString()}] Opening tab for ${batch.length} bots with URL: ${url}`);
+      log.info(`Opening ${browserType} tab for ${batch.length} bots with URL: ${url}`);
 
       try {
-        // Check if current browser has reached max tabs
-        if (tabsInCurrentBrowser >= this.maxTabsPerBrowser) {
-          currentBrowserIndex++;
-          tabsInCurrentBrowser = 0; // Reset tab count for new browser
-          if (currentBrowserIndex >= this.browserManagers.length) {
-            console.warn(`[${new Date().toISOString()}] No more browser instances available`);
-            break; // No more browser instances available
-          }
-          console.log(`[${new Date().toISOString()}] Switching to browser instance ${currentBrowserIndex}`);
+        // The pool places the tab on the least loaded browser of this engine
+        const { tabId, joinState, failureReason } = await this.browserManager.openTabForDuration(url, duration * 60 * 1000, browserType);
+        results.push({ tabId, botIds, browserType, joinState, failureReason });
+
+        if (joinState === 'failed' || joinState === 'ended') {
+          log.warn(`Tab ${tabId} failed to join (${failureReason || joinState}) for bots: ${botIds.join(', ')}`);
+          listener?.onTabFailed?.(botIds, failureReason || joinState);
+        } else {
+          log.info(`Successfully opened tab ${tabId} (${joinState}) for bots: ${botIds.join(', ')}`);
+          listener?.onTabOpened?.(tabId, botIds, joinState);
         }
 
-        const browserManager = this.browserManagers[currentBrowserIndex];
-        const tabId = await browserManager.openTabForDuration(url, duration * 60 * 1000);
-        results.push({ tabId, botIds });
-        tabsInCurrentBrowser++; // Increment tab count for current browser
-        console.log(`[${new Date().toISOString()}] Successfully opened tab ${tabId} for bots: ${botIds.join(', ')}`);
-
         // Throttle to prevent browser overload
         await new Promise(resolve => setTimeout(resolve, 1000));
       } catch (error) {
-        console.error(`[${new Date().toISOString()}] Error opening tab for bots: ${botIds.join(', ')}`, error);
+        log.error(`Error opening tab for bots: ${botIds.join(', ')}`, { error });
+        const message = error instanceof Error ? error.message : String(error);
+        unopened.push({ botIds, browserType, error: message });
+        listener?.onTabFailed?.(botIds, message);
       }
     }
 
     // Log the distribution of tabs across browsers
-    this.browserManagers.forEach((bm, index) => {
-      console.log(`[${new Date().toISOString()}] Browser ${index} has ${bm.getTabCount()} tabs`);
+    this.browserManager.getBrowserStats().browsers.forEach(browser => {
+      log.info(`${browser.browserType} browser ${browser.id} has ${browser.tabCount} tabs`);
     });
 
-    return results;
+    return { tabs: results, unopened };
   }
 
   async closeAll(): Promise<void> {
-    console.log(`[${new Date().toISOString()}] Closing all browser instances`);
-    await Promise.all(this.browserManagers.map(bm => bm.closeBrowser()));
-    this.browserManagers = []; // Clear browser instances after closing
+    log.info('Closing all browser instances');
+    await this.browserManager.closeBrowser();
   }
 }
\ No newline at end of file
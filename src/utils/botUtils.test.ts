@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assignBrowserTypes, generateBots, toJoinBots } from './botUtils';
+import { Bot } from '../types';
+
+const bots = (count: number): Bot[] => generateBots(count, []);
+
+describe('assignBrowserTypes', () => {
+  it('keeps the engine a bot asks for', () => {
+    const assigned = assignBrowserTypes([{ ...bots(1)[0], browserType: 'webkit' }, { id: 2, name: 'Bot2', status: 'ready' }], 'firefox');
+
+    assert.deepEqual(assigned.map(bot => bot.browserType), ['webkit', 'firefox']);
+  });
+
+  it('splits bots by the distribution using largest remainders', () => {
+    const assigned = assignBrowserTypes(bots(10), undefined, { chromium: 2, firefox: 1, webkit: 0 });
+
+    assert.deepEqual(assigned.map(bot => bot.browserType), [
+      ...Array(7).fill('chromium'),
+      ...Array(3).fill('firefox')
+    ]);
+  });
+
+  it('prefers browserType over a distribution and defaults to chromium', () => {
+    assert.ok(assignBrowserTypes(bots(3), 'webkit', { firefox: 1 }).every(bot => bot.browserType === 'webkit'));
+    assert.ok(assignBrowserTypes(bots(3)).every(bot => bot.browserType === 'chromium'));
+  });
+});
+
+describe('generateBots', () => {
+  it('numbers new bots after the highest existing id', () => {
+    assert.deepEqual(generateBots(2, [{ id: 7, name: 'Host', status: 'ready' }]).map(bot => [bot.id, bot.name]), [[8, 'Bot8'], [9, 'Bot9']]);
+  });
+});
+
+describe('toJoinBots', () => {
+  it('gives scheduled bots unique numeric ids', () => {
+    assert.deepEqual(toJoinBots([{ id: 'a', name: 'Alice' }, { id: 'a' }]).map(bot => [bot.id, bot.name]), [[1, 'Alice'], [2, 'Bot2']]);
+  });
+});
@@ -1,13 +1,79 @@
-import { Bot } from '../types';
+import { Bot, BrowserType, ScheduledBot } from '../types';
+import { BrowserTypeSchema } from '../schemas/meetingSchemas';
+import { createLogger } from './logger';
+
+const log = createLogger('botUtils');
 
 export const generateBots = (count: number, existingBots: Bot[]): Bot[] => {
-  console.log(`[${new Date().toISOString()}] Generating ${count} new bots`);
+  log.info(`Generating ${count} new bots`);
   const newBots: Bot[] = [];
   const maxId = existingBots.length ? Math.max(...existingBots.map(b => b.id)) : 0;
 
   for (let i = 1; i <= count; i++) {
     newBots.push({ id: maxId + i, name: `Bot${maxId + i}`, status: 'ready' });
   }
-  console.log(`[${new Date().toISOString()}] Generated ${newBots.length} bots`);
+  log.info(`Generated ${newBots.length} bots`);
   return newBots;
-};
\ No newline at end of file
+};
+
+export const BROWSER_TYPES: BrowserType[] = BrowserTypeSchema.options;
+
+// Bots that name their own engine keep it; the rest follow the request's browserType,
+// or are split across engines by the distribution ratio using largest remainders.
+export const assignBrowserTypes = (
+  bots: Bot[],
+  browserType?: BrowserType,
+  distribution?: Partial<Record<BrowserType, number>>
+): Bot[] => {
+  const defaultType = (process.env.DEFAULT_BROWSER_TYPE as BrowserType) || 'chromium';
+  const unassigned = bots.filter(bot => !bot.browserType);
+  const weights = BROWSER_TYPES
+    .map(type => ({ type, weight: Math.max(0, distribution?.[type] || 0) }))
+    .filter(({ weight }) => weight > 0);
+  const totalWeight = weights.reduce((sum, { weight }) => sum + weight, 0);
+
+  const queue: BrowserType[] = [];
+  if (!browserType && totalWeight > 0) {
+    const shares = weights.map(({ type, weight }) => {
+      const exact = (weight / totalWeight) * unassigned.length;
+      return { type, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+    let leftover = unassigned.length - shares.reduce((sum, share) => sum + share.count, 0);
+    [...shares]
+      .sort((a, b) => b.remainder - a.remainder)
+      .forEach(share => {
+        if (leftover > 0) {
+          share.count++;
+          leftover--;
+        }
+      });
+    shares.forEach(({ type, count }) => queue.push(...Array<BrowserType>(count).fill(type)));
+  }
+
+  let next = 0;
+  return bots.map(bot => bot.browserType
+    ? bot
+    : { ...bot, browserType: browserType || queue[next++] || defaultType });
+};
+
+// The bot shape stored on schedules; missing fields get the defaults the dashboard uses
+export const normalizeScheduleBots = (bots: Partial<ScheduledBot>[]): ScheduledBot[] =>
+  bots.map((bot, index) => ({
+    id: bot.id !== undefined ? String(bot.id) : String(index + 1),
+    name: bot.name || `Bot${index + 1}`,
+    countryCode: bot.countryCode || '',
+    country: bot.country || '',
+    status: bot.status || 'Ready',
+    flag: bot.flag || ''
+  }));
+
+// Scheduled bots carry the client's string ids; a join needs unique numeric ones
+export const toJoinBots = (bots: Partial<ScheduledBot>[]): Bot[] =>
+  bots.map((bot, index) => ({
+    id: index + 1,
+    name: bot.name || `Bot${index + 1}`,
+    status: bot.status || 'ready',
+    country: bot.country || undefined,
+    countryCode: bot.countryCode || undefined,
+    flag: bot.flag || undefined
+  }));
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { chromium, firefox, webkit } from "playwright";
+import BrowserManager from "./browserManager";
+import { TabEvent } from "../types";
+
+const JOINED_DOM = "Join Audio\n.footer__leave-btn";
+const FAILED_DOM = "Incorrect passcode";
+const URL = "https://example.com/meeting.html?meetingId=123&password=secret&signature=abc";
+
+type Handler = (arg?: unknown) => void;
+
+// Only what the pool, the join tracker and recovery use. Every page shows `domText` when it opens.
+const fakeEngines = () => {
+  const launched: { browserType: string; disconnect: () => void; closed: boolean }[] = [];
+  const pages: { crash: () => void; closed: boolean }[] = [];
+  let domText = JOINED_DOM;
+
+  const newPage = async () => {
+    const handlers: Record<string, Handler[]> = {};
+    const text = domText;
+    const mainFrame = { url: () => URL };
+    const state = {
+      closed: false,
+      crash: () => (handlers.crash || []).forEach((handler) => handler()),
+    };
+    pages.push(state);
+    return {
+      on: (event: string, handler: Handler) => {
+        (handlers[event] = handlers[event] || []).push(handler);
+      },
+      mainFrame: () => mainFrame,
+      isClosed: () => state.closed,
+      goto: async () => null,
+      evaluate: async () => text,
+      title: async () => "Zoom",
+      $: async () => null,
+      waitForTimeout: async () => undefined,
+      close: async () => {
+        if (state.closed) return;
+        state.closed = true;
+        (handlers.close || []).forEach((handler) => handler());
+      },
+    };
+  };
+
+  const launch = (browserType: string) => async () => {
+    const handlers: Handler[] = [];
+    const browser = { browserType, closed: false, disconnect: () => handlers.forEach((handler) => handler()) };
+    launched.push(browser);
+    return {
+      on: (event: string, handler: Handler) => {
+        if (event === "disconnected") handlers.push(handler);
+      },
+      newContext: async () => ({ setDefaultTimeout: () => undefined, newPage, close: async () => undefined }),
+      close: async () => {
+        browser.closed = true;
+      },
+    };
+  };
+
+  for (const [name, engine] of Object.entries({ chromium, firefox, webkit })) {
+    mock.method(engine, "launch", launch(name));
+  }
+  return {
+    launched,
+    pages,
+    showOnNextPages: (text: string) => {
+      domText = text;
+    },
+  };
+};
+
+describe("BrowserManager", () => {
+  const env = { MAX_TABS_PER_BROWSER: "2", MAX_BROWSERS: "2", RECOVERY_RETRY_DELAY_MS: "10", MAX_TAB_RECOVERIES: "2" };
+  let previousEnv: Record<string, string | undefined>;
+  let dir: string;
+  let engines: ReturnType<typeof fakeEngines>;
+  let manager: BrowserManager;
+  let events: TabEvent[];
+
+  // Resolves once a tab event of `type` has been emitted
+  const nextEvent = (type: TabEvent["type"]) =>
+    new Promise<TabEvent>((resolve) => manager.onTabEvent((event) => event.type === type && resolve(event)));
+
+  beforeEach(async () => {
+    previousEnv = Object.fromEntries(Object.keys(env).map((name) => [name, process.env[name]]));
+    Object.assign(process.env, env);
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "browser-manager-"));
+    engines = fakeEngines();
+    // A fresh pool per test, configured from `env` and writing its details under `dir`
+    (BrowserManager as unknown as { instance?: BrowserManager }).instance = undefined;
+    manager = BrowserManager.getInstance();
+    (manager as unknown as { detailsFilePath: string }).detailsFilePath = path.join(dir, "browser_details.json");
+    events = [];
+    manager.onTabEvent((event) => events.push(event));
+  });
+
+  afterEach(async () => {
+    await manager.closeBrowser();
+    mock.restoreAll();
+    Object.entries(previousEnv).forEach(([name, value]) => {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    });
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("fills the least loaded browser of an engine before launching another", async () => {
+    await manager.openTabForDuration(URL, 60 * 1000, "chromium");
+    await manager.openTabForDuration(URL, 60 * 1000, "chromium");
+    const third = await manager.openTabForDuration(URL, 60 * 1000, "chromium");
+
+    assert.equal(third.joinState, "joined");
+    assert.deepEqual(manager.getBrowserStats().browsers.map((browser) => browser.tabCount), [2, 1]);
+    await manager.closeTab(third.tabId);
+    assert.deepEqual(manager.getBrowserStats().byEngine, { chromium: { browsers: 2, tabs: 2 } });
+  });
+
+  it("frees an idle browser of another engine when the pool is full", async () => {
+    await manager.openTabForDuration(URL, 60 * 1000, "chromium");
+    await manager.launchBrowser("firefox");
+    await manager.openTabForDuration(URL, 60 * 1000, "webkit");
+
+    assert.deepEqual(engines.launched.map(({ browserType, closed }) => [browserType, closed]), [
+      ["chromium", false],
+      ["firefox", true],
+      ["webkit", false],
+    ]);
+    assert.deepEqual(manager.getBrowserStats().byEngine, { chromium: { browsers: 1, tabs: 1 }, webkit: { browsers: 1, tabs: 1 } });
+  });
+
+  it("refuses tabs once every browser is full", async () => {
+    for (let tab = 0; tab < 4; tab++) {
+      await manager.openTabForDuration(URL, 60 * 1000, "chromium");
+    }
+
+    await assert.rejects(manager.openTabForDuration(URL, 60 * 1000, "chromium"), /Browser pool exhausted \(2 browsers at 2 tabs each\)/);
+  });
+
+  it("closes tabs that don't join and reports why", async () => {
+    engines.showOnNextPages(FAILED_DOM);
+    const result = await manager.openTabForDuration(URL, 60 * 1000, "firefox");
+
+    assert.deepEqual([result.joinState, result.failureReason], ["failed", "wrong_password"]);
+    assert.equal(manager.hasTab(result.tabId), false);
+    assert.equal(engines.pages[0].closed, true);
+  });
+
+  it("reopens a crashed tab under the same id", async () => {
+    const { tabId } = await manager.openTabForDuration(URL, 60 * 1000, "chromium");
+    const recovered = nextEvent("tab_recovered");
+    engines.pages[0].crash();
+
+    const event = await recovered;
+    assert.deepEqual([event.tabId, event.reason, event.attempt, event.joinState], [tabId, "page_crashed", 1, "joined"]);
+    assert.deepEqual(events.map(({ type }) => type), ["tab_dropped", "tab_recovered"]);
+    assert.equal(manager.hasTab(tabId), true);
+    assert.equal(manager.getTabInfo(tabId)?.url, URL);
+  });
+
+  it("moves the tabs of a disconnected browser to a new one", async () => {
+    const first = await manager.openTabForDuration(URL, 60 * 1000, "chromium");
+    const second = await manager.openTabForDuration(URL, 60 * 1000, "chromium");
+    const recovered = new Promise<void>((resolve) => {
+      let count = 0;
+      manager.onTabEvent((event) => event.type === "tab_recovered" && ++count === 2 && resolve());
+    });
+    engines.launched[0].disconnect();
+    await recovered;
+
+    assert.equal(engines.launched.length, 2);
+    assert.deepEqual(manager.getBrowserStats().browsers.map((browser) => browser.tabCount), [2]);
+    assert.ok(manager.hasTab(first.tabId) && manager.hasTab(second.tabId));
+  });
+
+  it("gives up after MAX_TAB_RECOVERIES attempts that don't join", async () => {
+    const { tabId } = await manager.openTabForDuration(URL, 60 * 1000, "chromium");
+    engines.showOnNextPages(FAILED_DOM);
+    const failed = nextEvent("tab_recovery_failed");
+    engines.pages[0].crash();
+
+    const event = await failed;
+    assert.equal(event.tabId, tabId);
+    assert.equal(event.attempt, 2);
+    assert.equal(manager.hasTab(tabId), false);
+    assert.equal(manager.isTabRecovering(tabId), false);
+  });
+});
@@ -1,12 +1,26 @@
-import { Browser, BrowserContext, Page, chromium } from "playwright";
+import { Browser, BrowserContext, BrowserContextOptions, LaunchOptions, Page, chromium, firefox, webkit } from "playwright";
 import { v4 as uuidv4 } from "uuid";
 import fs from "fs/promises";
+import path from "path";
+import { MediaSettings, TabDriver } from "./meetingWorker";
+import { JoinStateTracker, SETTLED_JOIN_STATES } from "./joinStateTracker";
+import { instanceStatePath, stripJoinSecrets } from "./stateStore";
+import { isProcessAlive, readProcessEnv } from "./processStats";
+import { tabOpenSeconds } from "./metrics";
+import { BrowserType, JoinFailureReason, JoinState, TabEvent } from "../types";
+import { createLogger, runWithLogContext } from "./logger";
+
+const log = createLogger("browserManager");
 
 interface TabInfo {
   id: string;
   url: string;
+  browserType: BrowserType;
+  browserId: string;
   title?: string;
   openedAt: Date;
+  closesAt: Date;
+  recoveries: number;
   isActive: boolean;
 }
 
@@ -18,24 +32,105 @@ interface BrowserDetails {
   tabs: TabInfo[];
 }
 
+const ENGINES = { chromium, firefox, webkit };
+
+// Set in the environment of every browser we launch, so processes left behind by a
+// crashed server can be recognised on the next start
+const OWNER_PID_ENV = "ZOOM_BOT_OWNER_PID";
+
+// Set to the pool's id for the browser, so SystemMonitor can tell which process tree is which browser
+export const BROWSER_ID_ENV = "ZOOM_BOT_BROWSER_ID";
+
+const CHROMIUM_ARGS = [
+  "--no-sandbox",
+  "--disable-setuid-sandbox",
+  "--disable-dev-shm-usage",
+  "--disable-gpu",
+  "--no-first-run",
+  "--no-zygote",
+  "--process-per-site",
+  "--disable-extensions",
+  "--disable-background-networking",
+  "--disable-default-apps",
+  "--use-fake-ui-for-media-stream",
+  "--disable-sync",
+  "--disable-translate",
+  "--hide-scrollbars",
+  "--metrics-recording-only",
+  "--no-default-browser-check",
+  "--disable-hang-monitor",
+  "--disable-prompt-on-repost",
+  "--disable-client-side-phishing-detection",
+  "--disable-component-update",
+  "--disable-breakpad",
+  "--disable-ipc-flooding-protection",
+  "--disable-renderer-backgrounding",
+  "--force-color-profile=srgb",
+  "--disable-backgrounding-occluded-windows",
+  "--disable-background-timer-throttling",
+  "--force-device-scale-factor=0.25",
+  "--js-flags=--max-old-space-size=200",
+  "--memory-pressure-off",
+  "--disable-webgl",
+  "--disable-webrtc",
+  "--disable-canvas-aa",
+  "--disable-2d-canvas-clip-aa",
+  "--disable-accelerated-2d-canvas",
+  "--num-raster-threads=1",
+  "--renderer-process-limit=20",
+  "--disable-site-isolation-trials",
+  "--disable-features=IsolateOrigins,SitePerProcess",
+];
+
 interface BrowserInstance {
   id: string;
+  browserType: BrowserType;
   browser: Browser;
-  tabs: Page[];
+  context: BrowserContext;
+  tabIds: Set<string>;
+  pendingTabs: number; // tabs being opened that haven't joined yet
+  launchTime: Date;
   lastUsed: Date;
   isActive: boolean;
 }
 
-export default class BrowserManager {
+export interface BrowserStats {
+  totalBrowsers: number;
+  totalTabs: number;
+  maxBrowsers: number;
+  maxTabsPerBrowser: number;
+  byEngine: Partial<Record<BrowserType, { browsers: number; tabs: number }>>;
+  browsers: {
+    id: string;
+    browserType: BrowserType;
+    tabCount: number;
+    pendingTabs: number;
+    launchTime: string;
+    lastUsed: string;
+    isActive: boolean;
+    // Sampled CPU and memory of the browser's process tree (see SystemMonitor)
+    process?: { pid: number; processCount: number; cpuLoad: number; rssBytes: number };
+  }[];
+}
+
+export default class BrowserManager implements TabDriver {
   private static instance: BrowserManager;
   private browsers: Map<string, BrowserInstance> = new Map();
-  private readonly MAX_TABS_PER_BROWSER = 20;
-  private readonly MAX_BROWSERS = 5;
-  private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
+  private readonly MAX_TABS_PER_BROWSER = parseInt(process.env.MAX_TABS_PER_BROWSER || "20");
+  private readonly MAX_BROWSERS = parseInt(process.env.MAX_BROWSERS || "5");
+  private readonly BROWSER_IDLE_MS = parseInt(process.env.BROWSER_IDLE_MINUTES || "5") * 60 * 1000;
+  private acquireChain: Promise<unknown> = Promise.resolve();
   private pages: Map<string, Page> = new Map();
+  private tabBrowsers: Map<string, string> = new Map();
+  private closeTimers: Map<string, NodeJS.Timeout> = new Map();
+  private joinTrackers: Map<string, JoinStateTracker> = new Map();
+  private readonly JOIN_TIMEOUT_MS = parseInt(process.env.JOIN_TIMEOUT_MS || "60000");
+  private readonly MAX_TAB_RECOVERIES = parseInt(process.env.MAX_TAB_RECOVERIES || "3");
+  private readonly RECOVERY_RETRY_DELAY_MS = parseInt(process.env.RECOVERY_RETRY_DELAY_MS || "5000");
+  private tabListeners: ((event: TabEvent) => void)[] = [];
+  private recoveringTabs: Set<string> = new Set();
   private details: BrowserDetails;
-  private detailsFilePath: string = `./browser_details_${uuidv4()}.json`;
+  private detailsFilePath: string = instanceStatePath("browser_details", ".json");
 
   private constructor() {
     this.details = {
@@ -45,6 +140,13 @@ export default class BrowserManager {
       tabCount: 0,
       tabs: [],
     };
+
+    const cleanupTimer = setInterval(() => {
+      this.cleanupInactiveBrowsers().catch((error) => {
+        log.error("Failed to clean up idle browsers", { error });
+      });
+    }, 60 * 1000);
+    cleanupTimer.unref();
   }
 
   static getInstance(): BrowserManager {
@@ -54,75 +156,111 @@ export default class BrowserManager {
     return BrowserManager.instance;
   }
 
-  async launchBrowser(): Promise<void> {
-    if (this.browser && this.context && this.details.isOpen) {
-      console.log(
-        `[${new Date().toISOString()}] Reusing browser instance (ID: ${
-          this.details.browserId
-        })`
-      );
-      return;
-    }
-
-    const launchOptions: any = {
-      headless: true, // Run in headless mode
-      args: [
-        "--no-sandbox",
-        "--disable-setuid-sandbox",
-        "--disable-dev-shm-usage",
-        "--disable-gpu",
-        "--no-first-run",
-        "--no-zygote",
-        "--process-per-site",
-        "--disable-extensions",
-        "--disable-background-networking",
-        "--disable-default-apps",
-        "--use-fake-ui-for-media-stream",
-        "--disable-sync",
-        "--disable-translate",
-        "--hide-scrollbars",
-        "--metrics-recording-only",
-        "--no-default-browser-check",
-        "--disable-hang-monitor",
-        "--disable-prompt-on-repost",
-        "--disable-client-side-phishing-detection",
-        "--disable-component-update",
-        "--disable-breakpad",
-        "--disable-ipc-flooding-protection",
-        "--disable-renderer-backgrounding",
-        "--force-color-profile=srgb",
-        "--disable-backgrounding-occluded-windows",
-        "--disable-background-timer-throttling",
-        "--force-device-scale-factor=0.25",
-        "--js-flags=--max-old-space-size=200",
-        "--memory-pressure-off",
-        "--disable-webgl",
-        "--disable-webrtc",
-        "--disable-canvas-aa",
-        "--disable-2d-canvas-clip-aa",
-        "--disable-accelerated-2d-canvas",
-        "--num-raster-threads=1",
-        "--renderer-process-limit=20",
-        "--disable-site-isolation-trials",
-        "--disable-features=IsolateOrigins,SitePerProcess",
-      ],
+  // Makes sure at least one browser process is running for the engine
+  async launchBrowser(browserType: BrowserType = "chromium"): Promise<void> {
+    const instance = await this.acquireBrowser(browserType);
+    instance.pendingTabs--;
+  }
+
+  // Picks the least loaded browser of the engine with a free slot, launching a new
+  // process when every running one is full. Callers are serialized so concurrent
+  // tab openings can't overfill a browser or launch more than MAX_BROWSERS.
+  private acquireBrowser(browserType: BrowserType): Promise<BrowserInstance> {
+    const acquire = this.acquireChain.then(async () => {
+      const candidates = Array.from(this.browsers.values())
+        .filter((instance) => instance.isActive && instance.browserType === browserType)
+        .filter((instance) => this.getLoad(instance) < this.MAX_TABS_PER_BROWSER)
+        .sort((a, b) => this.getLoad(a) - this.getLoad(b));
+
+      const instance = candidates[0] || (await this.createBrowserInstance(browserType));
+      instance.pendingTabs++;
+      instance.lastUsed = new Date();
+      return instance;
+    });
+    this.acquireChain = acquire.catch(() => undefined);
+    return acquire;
+  }
+
+  private getLoad(instance: BrowserInstance): number {
+    return instance.tabIds.size + instance.pendingTabs;
+  }
+
+  private async createBrowserInstance(browserType: BrowserType): Promise<BrowserInstance> {
+    if (this.browsers.size >= this.MAX_BROWSERS) {
+      // Free a slot held by an idle browser of another engine before giving up
+      const idle = Array.from(this.browsers.values()).find((instance) => this.getLoad(instance) === 0);
+      if (!idle) {
+        throw new Error(`Browser pool exhausted (${this.MAX_BROWSERS} browsers at ${this.MAX_TABS_PER_BROWSER} tabs each)`);
+      }
+      await this.closeBrowserInstance(idle.id);
+    }
+
+    const id = uuidv4();
+    const browser = await ENGINES[browserType].launch({
+      ...this.getLaunchOptions(browserType),
+      env: { ...process.env, [OWNER_PID_ENV]: String(process.pid), [BROWSER_ID_ENV]: id },
+    });
+    const context = await browser.newContext(this.getContextOptions(browserType));
+    context.setDefaultTimeout(30000);
+
+    const instance: BrowserInstance = {
+      id,
+      browserType,
+      browser,
+      context,
+      tabIds: new Set(),
+      pendingTabs: 0,
+      launchTime: new Date(),
+      lastUsed: new Date(),
+      isActive: true,
     };
+    this.browsers.set(instance.id, instance);
+    browser.on("disconnected", () => this.handleBrowserDisconnected(instance.id));
+    log.info(`Launched ${browserType} browser ${instance.id} (${this.browsers.size}/${this.MAX_BROWSERS})`, { browserId: instance.id });
+
+    this.details.isOpen = true;
+    this.details.launchTime = new Date();
+    await this.saveDetails();
+    return instance;
+  }
+
+  private getLaunchOptions(browserType: BrowserType): LaunchOptions {
+    switch (browserType) {
+      case "firefox":
+        return {
+          headless: true,
+          firefoxUserPrefs: {
+            "media.navigator.streams.fake": true,
+            "media.navigator.permission.disabled": true,
+            "media.autoplay.default": 0,
+            "permissions.default.microphone": 1,
+            "permissions.default.camera": 1,
+            "browser.cache.disk.enable": false,
+            "dom.ipc.processCount": 4,
+          },
+        };
+      case "webkit":
+        return { headless: true };
+      default:
+        return {
+          headless: true, // Run in headless mode
+          args: CHROMIUM_ARGS,
+        };
+    }
+  }
 
-    this.browser = await chromium.launch(launchOptions);
-    this.context = await this.browser.newContext({
+  private getContextOptions(browserType: BrowserType): BrowserContextOptions {
+    const options: BrowserContextOptions = {
       viewport: { width: 1024, height: 768 },
       reducedMotion: "reduce",
       javaScriptEnabled: true,
       bypassCSP: true,
-      permissions: ['microphone', 'camera'],
-    });
-    
-    this.context.setDefaultTimeout(30000);
-    
-    this.details.isOpen = true;
-    this.details.launchTime = new Date();
-    this.details.browserId = uuidv4();
-    await this.saveDetails();
+    };
+    // Firefox and WebKit reject the media permission names, they get fake media through launch prefs instead
+    if (browserType === "chromium") {
+      options.permissions = ["microphone", "camera"];
+    }
+    return options;
   }
 
   async clickAudioButton(
@@ -132,10 +270,10 @@ export default class BrowserManager {
   ): Promise<void> {
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
-        console.log(`[${new Date().toISOString()}] Attempt ${attempt} for tab ${tabId}: Looking for audio button`);
+        log.info(`Attempt ${attempt} for tab ${tabId}: Looking for audio button`);
         
         await page.waitForLoadState('networkidle', { timeout: 15000 }).catch(() => {
-          console.log(`[${new Date().toISOString()}] Network didn't become idle, continuing anyway`);
+          log.info(`Network didn't become idle, continuing anyway`);
         });
         
         const selectors = [
@@ -152,16 +290,16 @@ export default class BrowserManager {
         let audioButton = null;
         
         for (const selector of selectors) {
-          console.log(`[${new Date().toISOString()}] Trying selector: ${selector}`);
+          log.info(`Trying selector: ${selector}`);
           audioButton = await page.$(selector).catch(() => null);
           if (audioButton) {
-            console.log(`[${new Date().toISOString()}] Found button with selector: ${selector}`);
+            log.info(`Found button with selector: ${selector}`);
             break;
           }
         }
         
         if (!audioButton) {
-          console.log(`[${new Date().toISOString()}] No button found with predefined selectors, checking all buttons`);
+          log.info("No button found with predefined selectors, checking all buttons");
           const allButtons = await page.$$eval('button', buttons => {
             return buttons.map(button => ({
               id: button.id,
@@ -177,7 +315,7 @@ export default class BrowserManager {
             }));
           });
           
-          console.log(`[${new Date().toISOString()}] Found ${allButtons.length} buttons:`, JSON.stringify(allButtons));
+          log.debug(`Found ${allButtons.length} buttons`, { buttons: allButtons });
           
           const audioKeywords = ['audio', 'sound', 'headphone', 'speaker', 'join audio', 'microphone'];
           const likelyButtons = allButtons.filter(btn => {
@@ -186,14 +324,14 @@ export default class BrowserManager {
           });
           
           if (likelyButtons.length > 0) {
-            console.log(`[${new Date().toISOString()}] Found likely audio buttons:`, JSON.stringify(likelyButtons));
+            log.debug("Found likely audio buttons", { buttons: likelyButtons });
             
             const targetButton = likelyButtons[0];
             const selector = targetButton.id ?
               `#${targetButton.id}` :
               `button[title="${targetButton.title}"], button[aria-label="${targetButton.ariaLabel}"]`;
             
-            console.log(`[${new Date().toISOString()}] Attempting to click button with selector: ${selector}`);
+            log.info(`Attempting to click button with selector: ${selector}`);
             audioButton = await page.$(selector);
           }
         }
@@ -209,11 +347,11 @@ export default class BrowserManager {
         }).catch(() => false);
         
         if (isAlreadyActive) {
-          console.log(`[${new Date().toISOString()}] Audio already active for tab ${tabId}`);
+          log.info(`Audio already active for tab ${tabId}`);
           return;
         }
         
-        console.log(`[${new Date().toISOString()}] Clicking audio button for tab ${tabId}`);
+        log.info(`Clicking audio button for tab ${tabId}`);
         await audioButton.click({ force: true });
         
         await page.waitForTimeout(2000);
@@ -229,22 +367,19 @@ export default class BrowserManager {
         for (const selector of secondaryButtons) {
           const joinButton = await page.$(selector).catch(() => null);
           if (joinButton) {
-            console.log(`[${new Date().toISOString()}] Found secondary join audio button: ${selector}`);
+            log.info(`Found secondary join audio button: ${selector}`);
             await joinButton.click().catch(e => {
-              console.log(`[${new Date().toISOString()}] Failed to click secondary button: ${e.message}`);
+              log.info(`Failed to click secondary button: ${e.message}`);
             });
             break;
           }
         }
         
-        console.log(`[${new Date().toISOString()}] Audio button clicked for tab ${tabId}`);
+        log.info(`Audio button clicked for tab ${tabId}`);
         return;
         
       } catch (error) {
-        console.warn(
-          `[${new Date().toISOString()}] Attempt ${attempt} failed for tab ${tabId}:`,
-          error
-        );
+        log.warn(`Attempt ${attempt} failed for tab ${tabId}`, { error });
         
         if (attempt === retries) {
           throw new Error(
@@ -256,23 +391,76 @@ export default class BrowserManager {
     }
   }
   
-  async openTabForDuration(url: string, durationMs: number): Promise<string> {
-    if (!this.browser || !this.context) {
-      throw new Error("Browser not initialized");
+  async openTabForDuration(
+    url: string,
+    durationMs: number,
+    browserType: BrowserType = "chromium",
+    tabId?: string
+  ): Promise<{ tabId: string; joinState: JoinState; failureReason?: JoinFailureReason }> {
+    const instance = await this.acquireBrowser(browserType);
+    try {
+      return await this.openTabInBrowser(instance, url, durationMs, tabId);
+    } finally {
+      instance.pendingTabs--;
     }
+  }
 
-    const page = await this.context.newPage();
-    const tabId = uuidv4();
-
-    console.log(`[${new Date().toISOString()}] Navigating to URL: ${url}`);
-    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+  // Everything logged for the tab, its close timer included, carries its tab and browser ids
+  private openTabInBrowser(
+    instance: BrowserInstance,
+    url: string,
+    durationMs: number,
+    tabId: string = uuidv4(),
+    recoveries = 0
+  ): Promise<{ tabId: string; joinState: JoinState; failureReason?: JoinFailureReason }> {
+    return runWithLogContext({ browserId: instance.id, tabId }, () => this.navigateTab(instance, url, durationMs, tabId, recoveries));
+  }
 
+  private async navigateTab(
+    instance: BrowserInstance,
+    url: string,
+    durationMs: number,
+    tabId: string,
+    recoveries: number
+  ): Promise<{ tabId: string; joinState: JoinState; failureReason?: JoinFailureReason }> {
+    const openStartedAt = Date.now();
+    const observeOpen = (joinState: JoinState) =>
+      tabOpenSeconds.observe({ browser_type: instance.browserType, join_state: joinState }, (Date.now() - openStartedAt) / 1000);
+    const page = await instance.context.newPage();
+    const tracker = new JoinStateTracker(page, tabId);
+    tracker.attach();
+
+    log.info(`Navigating to URL: ${url}`);
     try {
-      await page.waitForTimeout(15000);
-      // await this.handleInitialDialogs(page, tabId);
-      // await this.clickAudioButton(page, tabId, 5);
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
     } catch (error) {
-      console.error(`[${new Date().toISOString()}] Error during Zoom setup:`, error);
+      tracker.markFailed("navigation_error");
+      observeOpen("failed");
+      tracker.detach();
+      await page.close().catch(() => undefined);
+      throw error;
+    }
+
+    let joinState = await tracker.waitForState(["prejoin", ...SETTLED_JOIN_STATES], this.JOIN_TIMEOUT_MS);
+    if (joinState === "prejoin") {
+      try {
+        await this.handleInitialDialogs(page, tabId);
+      } catch (error) {
+        log.error("Error during Zoom setup", { error });
+      }
+      joinState = await tracker.waitForState(SETTLED_JOIN_STATES, this.JOIN_TIMEOUT_MS);
+    }
+    if (!SETTLED_JOIN_STATES.includes(joinState)) {
+      tracker.markFailed("join_timeout");
+    }
+
+    const { state, reason } = tracker.getState();
+    observeOpen(state);
+    if (state === "failed" || state === "ended") {
+      log.warn(`Tab ${tabId} did not join: ${state}${reason ? ` (${reason})` : ""}`, { joinState: state, failureReason: reason });
+      tracker.detach();
+      await page.close().catch(() => undefined);
+      return { tabId, joinState: state, failureReason: reason };
     }
 
     const title = await page.title().catch(() => "Untitled");
@@ -280,31 +468,129 @@ export default class BrowserManager {
     const tabInfo: TabInfo = {
       id: tabId,
       url,
+      browserType: instance.browserType,
+      browserId: instance.id,
       title,
       openedAt: new Date(),
+      closesAt: new Date(Date.now() + durationMs),
+      recoveries,
       isActive: true,
     };
 
     this.pages.set(tabId, page);
+    page.on("crash", () => this.handleTabDropped(tabId, page, "page_crashed"));
+    page.on("close", () => this.handleTabDropped(tabId, page, "page_closed"));
+    this.tabBrowsers.set(tabId, instance.id);
+    instance.tabIds.add(tabId);
+    this.joinTrackers.set(tabId, tracker);
     this.details.tabs.push(tabInfo);
     this.details.tabCount = this.pages.size;
 
     await this.saveDetails();
 
-    console.log(`[${new Date().toISOString()}] Tab ${tabId} opened successfully, will close after ${durationMs}ms`);
+    log.info(`Tab ${tabId} opened in state ${state}, will close after ${durationMs}ms`);
     
-    setTimeout(() => {
+    this.scheduleTabClose(tabId, durationMs);
+
+    return { tabId, joinState: state };
+  }
+
+  async getJoinState(tabId: string): Promise<{ state: JoinState; reason?: JoinFailureReason }> {
+    const joinState = this.getTabJoinState(tabId);
+    if (!joinState) {
+      throw new Error("Tab not found");
+    }
+    return joinState;
+  }
+
+  getTabJoinState(tabId: string): { state: JoinState; reason?: JoinFailureReason } | undefined {
+    return this.joinTrackers.get(tabId)?.getState();
+  }
+
+  rescheduleTabClose(tabId: string, durationMs: number): void {
+    if (!this.pages.has(tabId)) {
+      throw new Error("Tab not found");
+    }
+
+    log.info(`Rescheduling tab ${tabId} to close after ${durationMs}ms`);
+    this.scheduleTabClose(tabId, durationMs);
+  }
+
+  private scheduleTabClose(tabId: string, durationMs: number): void {
+    const existingTimer = this.closeTimers.get(tabId);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const tabInfo = this.getTabInfo(tabId);
+    if (tabInfo) {
+      tabInfo.closesAt = new Date(Date.now() + durationMs);
+    }
+
+    const closeTimer = setTimeout(() => {
       this.closeTab(tabId).catch((error) => {
-        console.error(
-          `[${new Date().toISOString()}] Failed to auto-close tab ${tabId}:`,
-          error
-        );
+        log.error(`Failed to auto-close tab ${tabId}`, { error });
       });
     }, durationMs);
-
-    return tabId;
+    this.closeTimers.set(tabId, closeTimer);
   }
   
+  async applyMediaSettings(tabId: string, settings: MediaSettings): Promise<void> {
+    const page = this.pages.get(tabId);
+    if (!page) {
+      throw new Error("Tab not found");
+    }
+
+    if (settings.lowResolution) {
+      await page.setViewportSize({ width: 640, height: 480 });
+    }
+
+    await page.evaluate(({ disableVideo, disableAudio }) => {
+      document.querySelectorAll("video").forEach((video) => {
+        if (disableVideo) {
+          video.pause();
+          video.style.display = "none";
+        }
+        if (disableAudio) video.muted = true;
+      });
+      if (disableAudio) {
+        document.querySelectorAll("audio").forEach((audio) => {
+          audio.muted = true;
+        });
+      }
+    }, settings);
+
+    log.info(`Applied media settings to tab ${tabId}: ${JSON.stringify(settings)}`);
+  }
+
+  async waitForBots(tabId: string, botNames: string[], timeoutMs: number): Promise<string[]> {
+    const page = this.pages.get(tabId);
+    if (!page) {
+      throw new Error("Tab not found");
+    }
+
+    const findJoinedNames = () =>
+      page.evaluate((names) => {
+        const text = document.body?.innerText || "";
+        return names.filter((name) => text.includes(name));
+      }, botNames);
+
+    await page
+      .waitForFunction(
+        (names) => {
+          const text = document.body?.innerText || "";
+          return names.every((name) => text.includes(name));
+        },
+        botNames,
+        { timeout: timeoutMs }
+      )
+      .catch(() => {
+        log.info(`Not every bot appeared in tab ${tabId} within ${timeoutMs}ms`);
+      });
+
+    return findJoinedNames();
+  }
+
   private async handleInitialDialogs(page: Page, tabId: string): Promise<void> {
     const dialogSelectors = [
       'button:has-text("Join")',
@@ -323,9 +609,9 @@ export default class BrowserManager {
     for (const selector of dialogSelectors) {
       const button = await page.$(selector).catch(() => null);
       if (button) {
-        console.log(`[${new Date().toISOString()}] Found dialog button "${selector}" for tab ${tabId}, clicking it`);
+        log.info(`Found dialog button "${selector}" for tab ${tabId}, clicking it`);
         await button.click().catch(e => {
-          console.log(`[${new Date().toISOString()}] Failed to click dialog button: ${e.message}`);
+          log.info(`Failed to click dialog button: ${e.message}`);
         });
         await page.waitForTimeout(1000);
       }
@@ -338,26 +624,175 @@ export default class BrowserManager {
       throw new Error("Tab not found");
     }
 
+    // Untrack first so the page's close event isn't mistaken for a drop
+    this.untrackTab(tabId);
     await page.close();
+
+    await this.saveDetails();
+  }
+
+  onTabEvent(listener: (event: TabEvent) => void): void {
+    this.tabListeners.push(listener);
+  }
+
+  replaceTabSignature(tabId: string, signature: string): void {
+    const tabInfo = this.getTabInfo(tabId);
+    if (!tabInfo) return;
+
+    const url = new URL(tabInfo.url);
+    url.searchParams.set("signature", signature);
+    tabInfo.url = url.toString();
+  }
+
+  private untrackTab(tabId: string): TabInfo | undefined {
+    const closeTimer = this.closeTimers.get(tabId);
+    if (closeTimer) {
+      clearTimeout(closeTimer);
+      this.closeTimers.delete(tabId);
+    }
+
+    this.joinTrackers.get(tabId)?.detach();
+    this.joinTrackers.delete(tabId);
+
     this.pages.delete(tabId);
+    const instance = this.browsers.get(this.tabBrowsers.get(tabId) || "");
+    if (instance) {
+      instance.tabIds.delete(tabId);
+      instance.lastUsed = new Date();
+    }
+    this.tabBrowsers.delete(tabId);
+
+    const tabInfo = this.getTabInfo(tabId);
     this.details.tabs = this.details.tabs.filter((tab) => tab.id !== tabId);
     this.details.tabCount = this.pages.size;
+    return tabInfo;
+  }
 
-    await this.saveDetails();
+  private emitTabEvent(event: Omit<TabEvent, "at">): void {
+    const fullEvent: TabEvent = { ...event, at: new Date().toISOString() };
+    this.tabListeners.forEach((listener) => {
+      try {
+        listener(fullEvent);
+      } catch (error) {
+        log.error("Tab event listener failed", { error });
+      }
+    });
+  }
+
+  private handleBrowserDisconnected(browserId: string): void {
+    const instance = this.browsers.get(browserId);
+    // Browsers we close ourselves are marked inactive first
+    if (!instance || !instance.isActive) return;
+
+    log.error(`${instance.browserType} browser ${browserId} disconnected with ${instance.tabIds.size} tabs`);
+    instance.isActive = false;
+    this.browsers.delete(browserId);
+    this.details.isOpen = this.browsers.size > 0;
+
+    for (const tabId of Array.from(instance.tabIds)) {
+      const page = this.pages.get(tabId);
+      if (page) {
+        this.handleTabDropped(tabId, page, "browser_disconnected");
+      }
+    }
+  }
+
+  private handleTabDropped(tabId: string, page: Page, reason: string): void {
+    // Ignore tabs we closed on purpose and stale pages that were already replaced
+    if (this.pages.get(tabId) !== page) return;
+
+    const tabInfo = this.untrackTab(tabId);
+    if (!page.isClosed()) {
+      page.close().catch(() => undefined);
+    }
+    this.saveDetails().catch(() => undefined);
+    log.error(`Tab ${tabId} dropped: ${reason}`);
+    this.emitTabEvent({ type: "tab_dropped", tabId, reason });
+
+    if (tabInfo) {
+      this.recoverTab(tabInfo, reason).catch((error) => {
+        log.error(`Recovery of tab ${tabId} failed`, { error });
+      });
+    }
+  }
+
+  // Reopens a dropped tab with the same id and URL for whatever is left of its duration
+  private async recoverTab(tabInfo: TabInfo, reason: string): Promise<void> {
+    const tabId = tabInfo.id;
+    let attempt = tabInfo.recoveries;
+    this.recoveringTabs.add(tabId);
+
+    try {
+      while (attempt < this.MAX_TAB_RECOVERIES) {
+        attempt++;
+        const remainingMs = tabInfo.closesAt.getTime() - Date.now();
+        if (remainingMs <= 0) {
+          log.info(`Not recovering tab ${tabId}, its duration is over`);
+          return;
+        }
+
+        log.info(`Recovering tab ${tabId} (attempt ${attempt}/${this.MAX_TAB_RECOVERIES})`);
+        try {
+          const instance = await this.acquireBrowser(tabInfo.browserType);
+          let result;
+          try {
+            result = await this.openTabInBrowser(instance, tabInfo.url, remainingMs, tabId, attempt);
+          } finally {
+            instance.pendingTabs--;
+          }
+
+          // The session may have been stopped while the tab was reopening
+          if (!this.recoveringTabs.has(tabId)) {
+            if (this.pages.has(tabId)) await this.closeTab(tabId);
+            return;
+          }
+
+          if (result.joinState !== "failed" && result.joinState !== "ended") {
+            this.emitTabEvent({ type: "tab_recovered", tabId, reason, attempt, joinState: result.joinState });
+            return;
+          }
+          log.warn(`Recovered tab ${tabId} did not join: ${result.failureReason || result.joinState}`);
+        } catch (error) {
+          log.error(`Recovery attempt ${attempt} for tab ${tabId} failed`, { error });
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, this.RECOVERY_RETRY_DELAY_MS));
+        if (!this.recoveringTabs.has(tabId)) return;
+      }
+
+      this.emitTabEvent({ type: "tab_recovery_failed", tabId, reason, attempt });
+    } finally {
+      this.recoveringTabs.delete(tabId);
+    }
+  }
+
+  isTabRecovering(tabId: string): boolean {
+    return this.recoveringTabs.has(tabId);
+  }
+
+  cancelRecovery(tabId: string): boolean {
+    return this.recoveringTabs.delete(tabId);
   }
 
   async closeBrowser(): Promise<void> {
-    if (!this.browser) return;
+    if (this.browsers.size === 0) return;
+
+    this.closeTimers.forEach((timer) => clearTimeout(timer));
+    this.closeTimers.clear();
+    this.joinTrackers.forEach((tracker) => tracker.detach());
+    this.joinTrackers.clear();
 
-    for (const page of this.pages.values()) {
+    // Clear the maps before closing so the close events aren't treated as drops
+    const pages = Array.from(this.pages.values());
+    this.pages.clear();
+    this.tabBrowsers.clear();
+    for (const page of pages) {
       await page.close();
     }
-    await this.context?.close();
-    await this.browser.close();
+    for (const id of Array.from(this.browsers.keys())) {
+      await this.closeBrowserInstance(id);
+    }
 
-    this.browser = null;
-    this.context = null;
-    this.pages.clear();
     this.details.isOpen = false;
     this.details.tabCount = 0;
     this.details.tabs = [];
@@ -369,73 +804,61 @@ export default class BrowserManager {
     return this.pages.size;
   }
 
+  hasTab(tabId: string): boolean {
+    return this.pages.has(tabId);
+  }
+
+  getTabInfo(tabId: string): TabInfo | undefined {
+    return this.details.tabs.find((tab) => tab.id === tabId);
+  }
+
   private async saveDetails(): Promise<void> {
-    await fs.writeFile(
-      this.detailsFilePath,
-      JSON.stringify(this.details, null, 2)
-    );
+    await fs.mkdir(path.dirname(this.detailsFilePath), { recursive: true });
+    // Tab URLs carry the meeting password and signature, which don't belong on disk
+    const details = { ...this.details, tabs: this.details.tabs.map((tab) => ({ ...tab, url: stripJoinSecrets(tab.url) })) };
+    await fs.writeFile(this.detailsFilePath, JSON.stringify(details, null, 2));
   }
 
-  async createBrowserInstance(): Promise<BrowserInstance> {
-    if (this.browsers.size >= this.MAX_BROWSERS) {
-      throw new Error('Maximum number of browser instances reached');
+  // Removes what a crashed server left behind: per-instance detail files from older
+  // versions and browser processes whose owning server is gone
+  async cleanupOrphans(): Promise<{ removedFiles: number; killedProcesses: number }> {
+    let removedFiles = 0;
+    const entries = await fs.readdir(".").catch(() => [] as string[]);
+    for (const entry of entries.filter((name) => /^browser_details_.+\.json$/.test(name))) {
+      await fs.unlink(entry).then(() => removedFiles++).catch(() => undefined);
     }
 
-    await this.launchBrowser();
-    if (!this.browser) {
-      throw new Error('Failed to launch browser');
-    }
+    let killedProcesses = 0;
+    const pids = await fs.readdir("/proc").catch(() => [] as string[]);
+    for (const pid of pids.filter((name) => /^\d+$/.test(name)).map(Number)) {
+      if (pid === process.pid) continue;
 
-    const instance: BrowserInstance = {
-      id: uuidv4(),
-      browser: this.browser,
-      tabs: [],
-      lastUsed: new Date(),
-      isActive: true
-    };
+      const marker = await readProcessEnv(pid, OWNER_PID_ENV);
+      if (!marker) continue;
 
-    this.browsers.set(instance.id, instance);
-    return instance;
-  }
+      const ownerPid = parseInt(marker);
+      if (ownerPid === process.pid || isProcessAlive(ownerPid)) continue;
 
-  async getAvailableBrowser(): Promise<BrowserInstance> {
-    // Find a browser with available tabs
-    for (const [_, instance] of this.browsers) {
-      if (instance.tabs.length < this.MAX_TABS_PER_BROWSER && instance.isActive) {
-        instance.lastUsed = new Date();
-        return instance;
+      try {
+        process.kill(pid, "SIGKILL");
+        killedProcesses++;
+      } catch (error) {
+        log.error(`Failed to kill orphaned browser process ${pid}`, { error });
       }
     }
 
-    // If no browser has available tabs, create a new one
-    return this.createBrowserInstance();
-  }
-
-  async addTab(browserInstance: BrowserInstance): Promise<Page> {
-    if (browserInstance.tabs.length >= this.MAX_TABS_PER_BROWSER) {
-      throw new Error('Maximum tabs reached for this browser instance');
-    }
-
-    const page = await browserInstance.browser.newPage();
-    browserInstance.tabs.push(page);
-    browserInstance.lastUsed = new Date();
-    return page;
-  }
-
-  async closeBrowserTab(browserInstance: BrowserInstance, page: Page): Promise<void> {
-    const index = browserInstance.tabs.indexOf(page);
-    if (index > -1) {
-      await page.close();
-      browserInstance.tabs.splice(index, 1);
+    if (removedFiles > 0 || killedProcesses > 0) {
+      log.info(`Cleaned up ${removedFiles} stale detail file(s) and ${killedProcesses} orphaned browser process(es)`);
     }
+    return { removedFiles, killedProcesses };
   }
 
   async cleanupInactiveBrowsers(): Promise<void> {
-    const now = new Date();
-    const inactiveThreshold = 30 * 60 * 1000; // 30 minutes
+    const now = Date.now();
 
     for (const [id, instance] of this.browsers) {
-      if (now.getTime() - instance.lastUsed.getTime() > inactiveThreshold) {
+      if (this.getLoad(instance) === 0 && now - instance.lastUsed.getTime() > this.BROWSER_IDLE_MS) {
+        log.info(`Closing idle ${instance.browserType} browser ${id}`);
         await this.closeBrowserInstance(id);
       }
     }
@@ -444,20 +867,40 @@ export default class BrowserManager {
   private async closeBrowserInstance(id: string): Promise<void> {
     const instance = this.browsers.get(id);
     if (instance) {
-      await instance.browser.close();
+      instance.isActive = false;
       this.browsers.delete(id);
+      await instance.context.close().catch(() => undefined);
+      await instance.browser.close();
     }
+    this.details.isOpen = this.browsers.size > 0;
   }
 
-  getBrowserStats(): { totalBrowsers: number; totalTabs: number } {
+  getBrowserStats(): BrowserStats {
     let totalTabs = 0;
+    const byEngine: BrowserStats["byEngine"] = {};
     this.browsers.forEach(instance => {
-      totalTabs += instance.tabs.length;
+      totalTabs += instance.tabIds.size;
+      const engineStats = byEngine[instance.browserType] || { browsers: 0, tabs: 0 };
+      engineStats.browsers++;
+      engineStats.tabs += instance.tabIds.size;
+      byEngine[instance.browserType] = engineStats;
     });
 
     return {
       totalBrowsers: this.browsers.size,
-      totalTabs
+      totalTabs,
+      maxBrowsers: this.MAX_BROWSERS,
+      maxTabsPerBrowser: this.MAX_TABS_PER_BROWSER,
+      byEngine,
+      browsers: Array.from(this.browsers.values()).map(instance => ({
+        id: instance.id,
+        browserType: instance.browserType,
+        tabCount: instance.tabIds.size,
+        pendingTabs: instance.pendingTabs,
+        launchTime: instance.launchTime.toISOString(),
+        lastUsed: instance.lastUsed.toISOString(),
+        isActive: instance.isActive
+      }))
     };
   }
-}
\ No newline at end of file
+}
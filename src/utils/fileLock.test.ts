@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { withFileLock } from './fileLock';
+
+describe('withFileLock', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-lock-'));
+    filePath = path.join(dir, 'data.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('runs one holder at a time', async () => {
+    const steps: string[] = [];
+    const hold = (name: string) => withFileLock(filePath, async () => {
+      steps.push(`start ${name}`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      steps.push(`end ${name}`);
+      return name;
+    });
+
+    assert.deepEqual(await Promise.all([hold('a'), hold('b')]), ['a', 'b']);
+    assert.deepEqual(steps, ['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('releases the lock when the holder throws', async () => {
+    await assert.rejects(withFileLock(filePath, async () => {
+      throw new Error('Write failed');
+    }), /Write failed/);
+
+    await assert.rejects(fs.stat(`${filePath}.lock`), { code: 'ENOENT' });
+    assert.equal(await withFileLock(filePath, async () => 'next'), 'next');
+  });
+
+  it('takes over a lock left by a dead process', async () => {
+    await fs.writeFile(`${filePath}.lock`, '');
+    const longAgo = new Date(Date.now() - 60 * 1000);
+    await fs.utimes(`${filePath}.lock`, longAgo, longAgo);
+
+    assert.equal(await withFileLock(filePath, async () => 'taken'), 'taken');
+  });
+});
@@ -0,0 +1,39 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+const LOCK_ATTEMPTS = 40;
+const LOCK_RETRY_MS = 50;
+// A lock older than this was left by a process that died while holding it
+const STALE_LOCK_MS = 10 * 1000;
+
+// Runs `fn` while holding `<filePath>.lock`, created exclusively, so processes on one host
+// sharing the file take turns reading and writing it
+export const withFileLock = async <T>(filePath: string, fn: () => Promise<T>): Promise<T> => {
+  const lockPath = `${filePath}.lock`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  for (let attempt = 1; attempt <= LOCK_ATTEMPTS; attempt++) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.close();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      const lockStat = await fs.stat(lockPath).catch(() => null);
+      if (lockStat && Date.now() - lockStat.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true });
+      } else {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+      continue;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+  throw new Error(`Timed out waiting for lock ${lockPath}`);
+};
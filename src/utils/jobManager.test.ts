@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobEvent, JobManager } from './jobManager';
+
+describe('JobManager', () => {
+  let jobs: JobManager;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-01-01T10:00:00Z') });
+    jobs = new JobManager();
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('numbers events and sends them to subscribers', () => {
+    const job = jobs.createJob('session-1');
+    const received: JobEvent[] = [];
+    const unsubscribe = jobs.subscribe(job.id, event => received.push(event));
+
+    jobs.emit(job.id, 'tab_opened', { tabId: 'tab-1' });
+    unsubscribe();
+    jobs.emit(job.id, 'worker_started');
+
+    assert.deepEqual(received.map(event => [event.seq, event.type]), [[1, 'tab_opened']]);
+    assert.deepEqual(job.events.map(event => event.seq), [1, 2]);
+  });
+
+  it('finishes a job with job_done and drops its subscribers', () => {
+    const job = jobs.createJob();
+    const received: string[] = [];
+    jobs.subscribe(job.id, event => received.push(event.type));
+
+    jobs.complete(job.id, { statusCode: 500, body: { error: 'No bots joined' } });
+    jobs.emit(job.id, 'tab_failed');
+
+    assert.equal(job.status, 'failed');
+    assert.equal(job.finishedAt, '2025-01-01T10:00:00.000Z');
+    assert.deepEqual(job.events[0].data, { status: 'failed', statusCode: 500, result: { error: 'No bots joined' } });
+    assert.deepEqual(received, ['job_done']);
+  });
+
+  it('refuses subscriptions to unknown jobs', () => {
+    assert.throws(() => jobs.subscribe('unknown', () => undefined), /Job not found/);
+  });
+
+  it('forgets finished jobs after the retention period', () => {
+    const finished = jobs.createJob();
+    jobs.complete(finished.id, { statusCode: 200, body: {} });
+    const running = jobs.createJob();
+
+    mock.timers.tick(60 * 60 * 1000 + 1);
+    jobs.createJob();
+
+    assert.equal(jobs.getJob(finished.id), undefined);
+    assert.equal(jobs.getJob(running.id), running);
+  });
+});
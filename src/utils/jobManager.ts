@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from './logger';
+
+const log = createLogger('jobManager');
+
+export type JobStatus = 'running' | 'completed' | 'failed';
+
+export type JobEventType = 'queued' | 'admitted' | 'tab_opened' | 'tab_failed' | 'worker_started' | 'job_done';
+
+export interface JobEvent {
+  seq: number;
+  type: JobEventType;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+export interface JobResult {
+  statusCode: number;
+  body: Record<string, unknown>;
+}
+
+export interface Job {
+  id: string;
+  // Set once the join leaves the admission queue, if it had to wait
+  sessionId?: string;
+  // Admission queue entry, for joins that had to wait
+  queueId?: string;
+  status: JobStatus;
+  createdAt: string;
+  finishedAt?: string;
+  events: JobEvent[];
+  result?: JobResult;
+}
+
+type JobListener = (event: JobEvent) => void;
+
+export class JobManager {
+  private jobs: Map<string, Job> = new Map();
+  private listeners: Map<string, Set<JobListener>> = new Map();
+  private config = {
+    retentionMs: parseInt(process.env.JOB_RETENTION_MINUTES || '60') * 60 * 1000,
+  };
+
+  createJob(sessionId?: string): Job {
+    this.pruneFinishedJobs();
+
+    const job: Job = {
+      id: uuidv4(),
+      sessionId,
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      events: []
+    };
+    this.jobs.set(job.id, job);
+    this.listeners.set(job.id, new Set());
+    log.info(`Created job ${job.id}`);
+    return job;
+  }
+
+  getJob(jobId: string): Job | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  emit(jobId: string, type: JobEventType, data: Record<string, unknown> = {}): void {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    const event: JobEvent = {
+      seq: job.events.length + 1,
+      type,
+      timestamp: new Date().toISOString(),
+      data
+    };
+    job.events.push(event);
+    this.listeners.get(jobId)?.forEach(listener => listener(event));
+  }
+
+  complete(jobId: string, result: JobResult): void {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    job.status = result.statusCode < 400 ? 'completed' : 'failed';
+    job.finishedAt = new Date().toISOString();
+    job.result = result;
+    this.emit(jobId, 'job_done', { status: job.status, statusCode: result.statusCode, result: result.body });
+    // Streams end on job_done, so nothing is left to notify
+    this.listeners.get(jobId)?.clear();
+    log.info(`Job ${jobId} finished with status ${job.status}`);
+  }
+
+  subscribe(jobId: string, listener: JobListener): () => void {
+    const jobListeners = this.listeners.get(jobId);
+    if (!jobListeners) {
+      throw new Error('Job not found');
+    }
+
+    jobListeners.add(listener);
+    return () => {
+      jobListeners.delete(listener);
+    };
+  }
+
+  private pruneFinishedJobs(): void {
+    const cutoff = Date.now() - this.config.retentionMs;
+    for (const [jobId, job] of this.jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        this.jobs.delete(jobId);
+        this.listeners.delete(jobId);
+      }
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Page } from "playwright";
+import { JoinStateTracker, canTransition, classifySignal } from "./joinStateTracker";
+
+const dom = (text: string) => classifySignal({ source: "dom", text });
+
+describe("classifySignal", () => {
+  it("recognises failures with their reason", () => {
+    assert.deepEqual(dom("The meeting passcode is wrong"), { state: "failed", reason: "wrong_password" });
+    assert.deepEqual(dom("errorCode: 3001"), { state: "failed", reason: "invalid_meeting" });
+    assert.deepEqual(dom("Waiting for the host to start this meeting"), { state: "failed", reason: "meeting_not_started" });
+  });
+
+  it("recognises each stage of joining", () => {
+    assert.equal(dom("Your name\n.preview-join-button")?.state, "prejoin");
+    assert.equal(dom("Please wait, the meeting host will let you in soon.")?.state, "waiting_room");
+    assert.equal(dom("Join Audio\n.footer__leave-btn")?.state, "joined");
+    assert.equal(dom("This meeting has been ended by host")?.state, "ended");
+    assert.equal(classifySignal({ source: "navigation", text: "https://app.zoom.us/wc/leave" })?.state, "ended");
+  });
+
+  it("prefers failures over a stale join button", () => {
+    assert.equal(dom("Join Meeting\nIncorrect passcode")?.state, "failed");
+  });
+
+  it("ignores unrelated text", () => {
+    assert.equal(dom("Loading…"), null);
+  });
+});
+
+describe("canTransition", () => {
+  it("only moves forward", () => {
+    assert.equal(canTransition("loading", "joined"), true);
+    assert.equal(canTransition("prejoin", "waiting_room"), true);
+    assert.equal(canTransition("waiting_room", "prejoin"), false);
+    assert.equal(canTransition("joined", "joined"), false);
+  });
+
+  it("lets the host move a participant back to the waiting room", () => {
+    assert.equal(canTransition("joined", "waiting_room"), true);
+  });
+
+  it("never leaves failed or ended", () => {
+    assert.equal(canTransition("failed", "joined"), false);
+    assert.equal(canTransition("ended", "failed"), false);
+    assert.equal(canTransition("joined", "ended"), true);
+  });
+});
+
+describe("JoinStateTracker", () => {
+  type Handler = (event: unknown) => void;
+  let handlers: Record<string, Handler>;
+  let domText: string;
+  let frameUrl: string;
+  let tracker: JoinStateTracker;
+  const mainFrame = { url: () => frameUrl };
+
+  // Only what the tracker listens to and evaluates
+  const page = {
+    on: (event: string, handler: Handler) => {
+      handlers[event] = handler;
+    },
+    mainFrame: () => mainFrame,
+    isClosed: () => false,
+    evaluate: async () => domText,
+  } as unknown as Page;
+
+  const consoleMessage = (text: string) => handlers.console({ text: () => text });
+  // Lets the tracker's own DOM poll finish; setImmediate isn't mocked
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout", "setInterval", "Date"], now: Date.parse("2025-01-01T10:00:00Z") });
+    handlers = {};
+    domText = "";
+    frameUrl = "https://app.zoom.us/wc/join";
+    tracker = new JoinStateTracker(page, "tab-1");
+    tracker.attach();
+  });
+
+  afterEach(() => {
+    tracker.detach();
+    mock.timers.reset();
+  });
+
+  it("follows console messages without moving back", () => {
+    consoleMessage("onMeetingStatus: connected");
+    consoleMessage("Join meeting");
+
+    assert.deepEqual(tracker.getState(), { state: "joined", reason: undefined });
+    assert.deepEqual(tracker.getHistory().map(({ state }) => state), ["loading", "joined"]);
+  });
+
+  it("reads navigations of the main frame only", () => {
+    handlers.framenavigated({ url: () => "https://app.zoom.us/wc/leave" });
+    assert.equal(tracker.getState().state, "loading");
+
+    handlers.framenavigated(mainFrame);
+    frameUrl = "https://app.zoom.us/wc/leave";
+    handlers.framenavigated(mainFrame);
+    assert.equal(tracker.getState().state, "ended");
+  });
+
+  it("polls the page on a timer", async () => {
+    domText = "You are in the waiting room";
+    mock.timers.tick(5000);
+    await flush();
+
+    assert.equal(tracker.getState().state, "waiting_room");
+  });
+
+  it("resolves a wait once a wanted state is reached", async () => {
+    const waiting = tracker.waitForState(["joined", "failed"], 60 * 1000);
+    await flush();
+    consoleMessage("Leave Meeting");
+
+    assert.equal(await waiting, "joined");
+  });
+
+  it("returns the current state when a wait times out", async () => {
+    consoleMessage("Enter meeting passcode");
+    const waiting = tracker.waitForState(["joined"], 1000);
+    await flush();
+    mock.timers.tick(1000);
+
+    assert.equal(await waiting, "prejoin");
+  });
+
+  it("keeps a failure reported by the worker", () => {
+    tracker.markFailed("join_timeout");
+    consoleMessage("Leave Meeting");
+
+    assert.deepEqual(tracker.getState(), { state: "failed", reason: "join_timeout" });
+  });
+});
@@ -0,0 +1,175 @@
+import { Page } from "playwright";
+import { JoinFailureReason, JoinState } from "../types";
+import { createLogger } from "./logger";
+
+const log = createLogger("joinStateTracker");
+
+export interface JoinSignal {
+  source: "dom" | "console" | "navigation";
+  text: string;
+}
+
+export interface JoinStateChange {
+  state: JoinState;
+  reason?: JoinFailureReason;
+  at: string;
+  signal?: JoinSignal;
+}
+
+interface SignalRule {
+  pattern: RegExp;
+  state: JoinState;
+  reason?: JoinFailureReason;
+}
+
+// Ordered by precedence: a page that shows both a failure banner and a stale
+// "Join" button is treated as failed.
+const SIGNAL_RULES: SignalRule[] = [
+  { pattern: /passcode (is )?(wrong|incorrect)|(wrong|incorrect|invalid) (passcode|password)|password wrong|errorcode:? ?3004/i, state: "failed", reason: "wrong_password" },
+  { pattern: /meeting (number|id) is (not valid|invalid)|invalid meeting|meeting does not exist|meeting not exist|errorcode:? ?(3001|3706|3707)/i, state: "failed", reason: "invalid_meeting" },
+  { pattern: /meeting (has )?not (been )?started|waiting for the host to start|errorcode:? ?3008/i, state: "failed", reason: "meeting_not_started" },
+  { pattern: /meeting has (been )?ended|host (has )?ended (this|the) meeting|you have been removed|removed from the meeting|\/wc\/leave|postattendee/i, state: "ended" },
+  { pattern: /leave meeting|leave-btn|join audio|footer__leave|joined meeting|onmeetingstatus.*connected|meeting_status_connected/i, state: "joined" },
+  { pattern: /waiting room|host will let you in|please wait, the meeting host/i, state: "waiting_room" },
+  { pattern: /enter meeting passcode|your name|preview-join|join meeting|input-for-name/i, state: "prejoin" },
+];
+
+// How far a tab has progressed; a tab never moves back to an earlier stage
+const STATE_RANK: Record<JoinState, number> = {
+  loading: 0,
+  prejoin: 1,
+  waiting_room: 2,
+  joined: 3,
+  failed: 4,
+  ended: 4,
+};
+
+export const SETTLED_JOIN_STATES: JoinState[] = ["waiting_room", "joined", "failed", "ended"];
+
+export const classifySignal = (
+  signal: JoinSignal
+): { state: JoinState; reason?: JoinFailureReason } | null => {
+  const rule = SIGNAL_RULES.find(({ pattern }) => pattern.test(signal.text));
+  return rule ? { state: rule.state, reason: rule.reason } : null;
+};
+
+export const canTransition = (from: JoinState, to: JoinState): boolean => {
+  if (from === to || from === "failed" || from === "ended") return false;
+  // The host can move a joined participant back into the waiting room
+  if (from === "joined" && to === "waiting_room") return true;
+  return STATE_RANK[to] > STATE_RANK[from];
+};
+
+export class JoinStateTracker {
+  private state: JoinState = "loading";
+  private reason?: JoinFailureReason;
+  private history: JoinStateChange[] = [];
+  private waiters: { states: JoinState[]; resolve: (state: JoinState) => void }[] = [];
+  private pollTimer: NodeJS.Timeout | null = null;
+  private readonly page: Page;
+  private readonly tabId: string;
+  private readonly pollIntervalMs = parseInt(process.env.JOIN_STATE_POLL_MS || "5000");
+
+  constructor(page: Page, tabId: string) {
+    this.page = page;
+    this.tabId = tabId;
+    this.history.push({ state: this.state, at: new Date().toISOString() });
+  }
+
+  attach(): void {
+    this.page.on("console", (message) => {
+      this.handleSignal({ source: "console", text: message.text() });
+    });
+    this.page.on("framenavigated", (frame) => {
+      if (frame === this.page.mainFrame()) {
+        this.handleSignal({ source: "navigation", text: frame.url() });
+      }
+    });
+    this.pollTimer = setInterval(() => {
+      this.pollDom().catch(() => undefined);
+    }, this.pollIntervalMs);
+  }
+
+  detach(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.waiters.forEach(({ resolve }) => resolve(this.state));
+    this.waiters = [];
+  }
+
+  getState(): { state: JoinState; reason?: JoinFailureReason } {
+    return { state: this.state, reason: this.reason };
+  }
+
+  getHistory(): JoinStateChange[] {
+    return [...this.history];
+  }
+
+  markFailed(reason: JoinFailureReason): void {
+    this.transition({ state: "failed", reason });
+  }
+
+  // Resolves with the current state as soon as it is one of `states`, or when the timeout elapses
+  async waitForState(states: JoinState[], timeoutMs: number): Promise<JoinState> {
+    await this.pollDom().catch(() => undefined);
+    if (states.includes(this.state)) return this.state;
+
+    return new Promise((resolve) => {
+      const waiter = {
+        states,
+        resolve: (state: JoinState) => {
+          clearTimeout(timer);
+          resolve(state);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        resolve(this.state);
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  private async pollDom(): Promise<void> {
+    if (this.page.isClosed()) return;
+
+    const markers = await this.page.evaluate(() => {
+      const text = (document.body?.innerText || "").slice(0, 5000);
+      const selectors = [
+        ".footer__leave-btn",
+        "[aria-label*='Leave']",
+        ".preview-join-button",
+        "#input-for-name",
+        ".wr-content",
+      ];
+      const present = selectors.filter((selector) => document.querySelector(selector));
+      return `${text}\n${present.join(" ")}`;
+    });
+    this.handleSignal({ source: "dom", text: markers });
+  }
+
+  private handleSignal(signal: JoinSignal): void {
+    const classified = classifySignal(signal);
+    if (classified) {
+      this.transition({ ...classified, signal });
+    }
+  }
+
+  private transition(change: { state: JoinState; reason?: JoinFailureReason; signal?: JoinSignal }): void {
+    if (!canTransition(this.state, change.state)) return;
+
+    this.state = change.state;
+    this.reason = change.reason;
+    this.history.push({ ...change, at: new Date().toISOString() });
+    log.info(`Tab ${this.tabId} join state -> ${change.state}${change.reason ? ` (${change.reason})` : ""}`, {
+      joinState: change.state,
+      failureReason: change.reason
+    });
+
+    const ready = this.waiters.filter(({ states }) => states.includes(this.state));
+    this.waiters = this.waiters.filter(({ states }) => !states.includes(this.state));
+    ready.forEach(({ resolve }) => resolve(this.state));
+  }
+}
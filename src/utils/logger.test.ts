@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { addLogContext, createLogger, redactText, runWithLogContext } from './logger';
+
+// Lines written while `fn` runs, parsed. Writes are only captured for the call itself, so
+// the test runner's own output is left alone.
+const capture = (fn: () => void): Record<string, unknown>[] => {
+  const lines: string[] = [];
+  const record = (chunk: string | Uint8Array) => {
+    lines.push(String(chunk));
+    return true;
+  };
+  const stdout = mock.method(process.stdout, 'write', record);
+  const stderr = mock.method(process.stderr, 'write', record);
+  try {
+    fn();
+  } finally {
+    stdout.mock.restore();
+    stderr.mock.restore();
+  }
+  return lines.map(line => JSON.parse(line));
+};
+
+describe('redactText', () => {
+  it('hides secrets in join URLs, JSON, headers and JWTs', () => {
+    assert.equal(
+      redactText('https://example.com/join?meetingId=123&password=secret&signature=abc#top'),
+      'https://example.com/join?meetingId=123&password=[REDACTED]&signature=[REDACTED]#top'
+    );
+    assert.equal(redactText('{"meetingId":"123","password":"secret"}'), '{"meetingId":"123","password":"[REDACTED]"}');
+    assert.equal(redactText('Authorization: Bearer zbk_abc.def'), 'Authorization: Bearer [REDACTED]');
+    assert.equal(redactText('signed eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.c2ln'), 'signed [REDACTED]');
+  });
+
+  it('leaves other text alone', () => {
+    assert.equal(redactText('Joined meeting 123 with 2 bots'), 'Joined meeting 123 with 2 bots');
+  });
+});
+
+describe('createLogger', () => {
+  let previousLevel: string | undefined;
+  let previousFormat: string | undefined;
+
+  beforeEach(() => {
+    previousLevel = process.env.LOG_LEVEL;
+    previousFormat = process.env.LOG_FORMAT;
+    delete process.env.LOG_LEVEL;
+    delete process.env.LOG_FORMAT;
+  });
+
+  afterEach(() => {
+    if (previousLevel === undefined) delete process.env.LOG_LEVEL;
+    else process.env.LOG_LEVEL = previousLevel;
+    if (previousFormat === undefined) delete process.env.LOG_FORMAT;
+    else process.env.LOG_FORMAT = previousFormat;
+  });
+
+  it('redacts sensitive fields at any depth', () => {
+    const [line] = capture(() => createLogger('test').info('Joining', {
+      request: { meetingPassword: 'secret', headers: { authorization: 'Bearer abc', 'x-api-key': 'abc' }, bots: [{ name: 'Bot1' }] },
+      signature: 'abc',
+      error: new Error('Bad url https://example.com/?pwd=secret')
+    }));
+
+    assert.deepEqual(line.request, {
+      meetingPassword: '[REDACTED]',
+      headers: { authorization: '[REDACTED]', 'x-api-key': '[REDACTED]' },
+      bots: [{ name: 'Bot1' }]
+    });
+    assert.equal(line.signature, '[REDACTED]');
+    assert.equal((line.error as { message: string }).message, 'Bad url https://example.com/?pwd=[REDACTED]');
+  });
+
+  it('cuts off circular and deeply nested values', () => {
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+    const [line] = capture(() => createLogger('test').info('Nested', { circular, deep: { a: { b: { c: { d: { e: { f: 1 } } } } } } }));
+
+    assert.deepEqual(line.circular, { name: 'loop', self: '[Truncated]' });
+    assert.deepEqual(line.deep, { a: { b: { c: { d: { e: '[Truncated]' } } } } });
+  });
+
+  it('adds the correlation ids of the current context', () => {
+    const lines = capture(() => runWithLogContext({ requestId: 'req-1' }, () => {
+      addLogContext({ sessionId: 'session-1' });
+      createLogger('test').child({ tabId: 'tab-1' }).warn('Tab crashed');
+    }));
+
+    assert.equal(lines[0].level, 'warn');
+    assert.equal(lines[0].module, 'test');
+    assert.equal(lines[0].requestId, 'req-1');
+    assert.equal(lines[0].sessionId, 'session-1');
+    assert.equal(lines[0].tabId, 'tab-1');
+  });
+
+  it('skips lines below LOG_LEVEL', () => {
+    process.env.LOG_LEVEL = 'warn';
+    const lines = capture(() => {
+      const log = createLogger('test');
+      log.debug('Debug');
+      log.info('Info');
+      log.error('Error');
+    });
+
+    assert.deepEqual(lines.map(line => line.message), ['Error']);
+  });
+});
@@ -0,0 +1,133 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Structured logging. Every line is one JSON object (or a readable line with LOG_FORMAT=text)
+// carrying the level, the module and the correlation ids of the request, job, session, tab
+// or worker it was written for. Those ids come from the async context set up by
+// runWithLogContext, so code deep inside a join doesn't have to pass them along.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+// Correlation ids, most specific last. Worker threads receive theirs through workerData.
+export interface LogContext {
+  requestId?: string;
+  keyId?: string;
+  jobId?: string;
+  scheduleId?: string;
+  sessionId?: string;
+  meetingId?: string;
+  browserId?: string;
+  tabId?: string;
+  workerId?: string;
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // A logger that adds `fields` to every line
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Read on every line, since modules log before server.ts has loaded .env
+const minimumLevel = (): number => LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+const useTextFormat = (): boolean => process.env.LOG_FORMAT === 'text';
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are never logged, e.g. `password`, `meetingPassword`, `signature`, `apiKey`
+const SENSITIVE_KEY = /(password|passcode|pwd|signature|secret|token|authorization|api[-_]?key|keyhash)$/i;
+
+// Secrets inside free text: query parameters of join URLs, JSON members, bearer tokens and JWTs
+// such as the Zoom SDK signature
+const SENSITIVE_TEXT: [RegExp, string][] = [
+  [/([?&](?:password|passcode|pwd|signature|sig|token|api[-_]?key)=)[^&#\s"']*/gi, `$1${REDACTED}`],
+  [/("(?:password|passcode|signature|secret|token|apiKey)"\s*:\s*")[^"]*/gi, `$1${REDACTED}`],
+  [/(Bearer\s+)[\w.~+/=-]+/gi, `$1${REDACTED}`],
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, REDACTED]
+];
+
+const MAX_DEPTH = 6;
+
+export const redactText = (text: string): string =>
+  SENSITIVE_TEXT.reduce((redacted, [pattern, replacement]) => redacted.replace(pattern, replacement), text);
+
+const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message), stack: value.stack && redactText(value.stack) };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    SENSITIVE_KEY.test(key) && field !== undefined && field !== null ? REDACTED : redact(field, depth + 1, seen)
+  ]));
+};
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+export const getLogContext = (): LogContext => ({ ...contextStorage.getStore() });
+
+// Runs `fn` with `context` added to the current correlation ids, for everything it starts too
+export const runWithLogContext = <T>(context: LogContext, fn: () => T): T =>
+  contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+
+// Adds ids to the current context in place, e.g. once a request has created its session.
+// Outside any context this does nothing.
+export const addLogContext = (context: LogContext): void => {
+  const store = contextStorage.getStore();
+  if (store) {
+    Object.assign(store, context);
+  }
+};
+
+const formatText = (entry: LogFields): string => {
+  const { time, level, module, message, error, ...fields } = entry;
+  const pairs = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  const line = `${time} ${String(level).toUpperCase()} [${module}] ${message}${pairs.length > 0 ? ` ${pairs.join(' ')}` : ''}`;
+  const stack = (error as { stack?: string } | undefined)?.stack;
+  return stack ? `${line}\n${stack}` : error !== undefined ? `${line} error=${JSON.stringify(error)}` : line;
+};
+
+const write = (level: LogLevel, module: string, bound: LogFields, message: string, fields?: LogFields): void => {
+  if (LEVELS[level] < minimumLevel()) return;
+  const entry = redact({
+    time: new Date().toISOString(),
+    level,
+    module,
+    message,
+    ...contextStorage.getStore(),
+    ...bound,
+    ...fields
+  }) as LogFields;
+  const line = useTextFormat() ? formatText(entry) : JSON.stringify(entry);
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+export const createLogger = (module: string, bound: LogFields = {}): Logger => ({
+  debug: (message, fields) => write('debug', module, bound, message, fields),
+  info: (message, fields) => write('info', module, bound, message, fields),
+  warn: (message, fields) => write('warn', module, bound, message, fields),
+  error: (message, fields) => write('error', module, bound, message, fields),
+  child: (fields) => createLogger(module, { ...bound, ...fields })
+});
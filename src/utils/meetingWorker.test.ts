@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MediaSettings, TabDriver, runTask } from './meetingWorker';
+import { JoinFailureReason, JoinState, Task } from '../types';
+
+const task = (fields: Partial<Task> = {}): Task => ({
+  tabId: 'tab-1',
+  botPair: [
+    { id: 1, name: 'Bot1', status: 'ready' },
+    { id: 2, name: 'Bot2', status: 'ready' }
+  ],
+  meetingId: '123',
+  password: 'secret',
+  origin: 'https://example.com',
+  signature: 'signature',
+  browserType: 'chromium',
+  ...fields
+});
+
+// Records every call and answers from what the test set up
+const fakeDriver = (
+  joinState: { state: JoinState; reason?: JoinFailureReason },
+  presentNames: string[] = [],
+  mediaError?: Error
+) => {
+  const calls: { media: MediaSettings[]; waits: { botNames: string[]; timeoutMs: number }[] } = { media: [], waits: [] };
+  const driver: TabDriver = {
+    applyMediaSettings: async (_tabId, settings) => {
+      calls.media.push(settings);
+      if (mediaError) throw mediaError;
+    },
+    getJoinState: async () => joinState,
+    waitForBots: async (_tabId, botNames, timeoutMs) => {
+      calls.waits.push({ botNames, timeoutMs });
+      return botNames.filter(name => presentNames.includes(name));
+    }
+  };
+  return { driver, calls };
+};
+
+describe('runTask', () => {
+  it('applies the task media settings', async () => {
+    const { driver, calls } = fakeDriver({ state: 'joined' }, ['Bot1', 'Bot2']);
+    await runTask(task({ disableVideo: true, lowResolution: true }), driver);
+
+    assert.deepEqual(calls.media, [{ disableVideo: true, disableAudio: false, lowResolution: true }]);
+  });
+
+  it('waits for the bot names and fails bots that never appear', async () => {
+    const { driver, calls } = fakeDriver({ state: 'joined' }, ['Bot1']);
+    const results = await runTask(task({ selectorTimeout: 5000 }), driver);
+
+    assert.deepEqual(calls.waits, [{ botNames: ['Bot1', 'Bot2'], timeoutMs: 5000 }]);
+    assert.deepEqual(results.map(result => result.success), [true, false]);
+    assert.equal(results[1].error, 'Bot did not appear in the meeting within 5000ms');
+    assert.equal(results[1].tabId, 'tab-1');
+  });
+
+  it('waits 30 seconds without a selectorTimeout', async () => {
+    const { driver, calls } = fakeDriver({ state: 'joined' }, ['Bot1', 'Bot2']);
+    const results = await runTask(task(), driver);
+
+    assert.equal(calls.waits[0].timeoutMs, 30000);
+    assert.ok(results.every(result => result.success && result.joinState === 'joined'));
+  });
+
+  it('trusts the join state when skipJoinIndicator is set', async () => {
+    const { driver, calls } = fakeDriver({ state: 'joined' });
+    const results = await runTask(task({ skipJoinIndicator: true }), driver);
+
+    assert.deepEqual(calls.waits, []);
+    assert.ok(results.every(result => result.success));
+  });
+
+  it('fails every bot of a tab that is not in the meeting', async () => {
+    const { driver, calls } = fakeDriver({ state: 'failed', reason: 'wrong_password' });
+    const results = await runTask(task(), driver);
+
+    assert.deepEqual(calls.waits, []);
+    assert.deepEqual(results.map(result => [result.success, result.failureReason, result.error]), [
+      [false, 'wrong_password', 'Tab is failed'],
+      [false, 'wrong_password', 'Tab is failed']
+    ]);
+  });
+
+  it('reports bots in the waiting room as not admitted', async () => {
+    const { driver } = fakeDriver({ state: 'waiting_room' });
+    const results = await runTask(task(), driver);
+
+    assert.equal(results[0].error, 'Waiting for host to admit');
+  });
+
+  it('fails the bots when media settings cannot be applied', async () => {
+    const { driver } = fakeDriver({ state: 'joined' }, [], new Error('Tab not found'));
+    const results = await runTask(task(), driver);
+
+    assert.deepEqual(results.map(result => result.error), [
+      'Failed to apply media settings: Tab not found',
+      'Failed to apply media settings: Tab not found'
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { isMainThread, parentPort, workerData } from 'worker_threads';
+import { JoinFailureReason, JoinState, Task, WorkerResult } from '../types';
+import { createLogger } from './logger';
+
+// Correlation ids of the session and tab the worker runs for, passed in by WorkerManager
+const log = createLogger('meetingWorker', workerData?.logContext);
+
+export interface MediaSettings {
+  disableVideo: boolean;
+  disableAudio: boolean;
+  lowResolution: boolean;
+}
+
+// Page operations a worker needs. Tabs live in the main thread's browser, so inside
+// a worker these calls are proxied to the parent over the message port.
+export interface TabDriver {
+  applyMediaSettings(tabId: string, settings: MediaSettings): Promise<void>;
+  getJoinState(tabId: string): Promise<{ state: JoinState; reason?: JoinFailureReason }>;
+  waitForBots(tabId: string, botNames: string[], timeoutMs: number): Promise<string[]>;
+}
+
+export type DriverMethod = keyof TabDriver;
+
+// Messages sent from the worker to WorkerManager
+export type WorkerMessage =
+  | { type: 'RESULT'; results: WorkerResult[] }
+  | { type: 'DRIVER_CALL'; callId: number; method: DriverMethod; args: unknown[] };
+
+// Messages sent from WorkerManager to the worker
+export type WorkerCommand =
+  | { type: 'TERMINATE' }
+  | { type: 'DRIVER_REPLY'; callId: number; result?: unknown; error?: string };
+
+const DEFAULT_SELECTOR_TIMEOUT = 30000;
+
+export const runTask = async (task: Task, driver: TabDriver): Promise<WorkerResult[]> => {
+  const resultFor = (
+    botId: number,
+    success: boolean,
+    joinState?: JoinState,
+    error?: string,
+    failureReason?: JoinFailureReason
+  ): WorkerResult => ({
+    success,
+    botId,
+    tabId: task.tabId,
+    joinState,
+    failureReason,
+    error,
+    browser: task.browserType,
+    keepOpenOnTimeout: task.keepOpenOnTimeout
+  });
+
+  try {
+    await driver.applyMediaSettings(task.tabId, {
+      disableVideo: task.disableVideo ?? false,
+      disableAudio: task.disableAudio ?? false,
+      lowResolution: task.lowResolution ?? false
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return task.botPair.map(bot => resultFor(bot.id, false, undefined, `Failed to apply media settings: ${message}`));
+  }
+
+  // A bot only counts as successful once its tab is actually in the meeting
+  const { state, reason } = await driver.getJoinState(task.tabId);
+  if (state !== 'joined') {
+    const error = state === 'waiting_room' ? 'Waiting for host to admit' : `Tab is ${state}`;
+    return task.botPair.map(bot => resultFor(bot.id, false, state, error, reason));
+  }
+
+  if (task.skipJoinIndicator) {
+    return task.botPair.map(bot => resultFor(bot.id, true, state));
+  }
+
+  const timeoutMs = task.selectorTimeout ?? DEFAULT_SELECTOR_TIMEOUT;
+  const joinedNames = await driver.waitForBots(task.tabId, task.botPair.map(bot => bot.name), timeoutMs);
+  return task.botPair.map(bot =>
+    joinedNames.includes(bot.name)
+      ? resultFor(bot.id, true, state)
+      : resultFor(bot.id, false, state, `Bot did not appear in the meeting within ${timeoutMs}ms`)
+  );
+};
+
+const createRemoteDriver = (port: NonNullable<typeof parentPort>): TabDriver => {
+  let nextCallId = 1;
+  const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+  port.on('message', (command: WorkerCommand) => {
+    if (command.type !== 'DRIVER_REPLY') return;
+    const call = pending.get(command.callId);
+    if (!call) return;
+    pending.delete(command.callId);
+    if (command.error) {
+      call.reject(new Error(command.error));
+    } else {
+      call.resolve(command.result);
+    }
+  });
+
+  const call = <T>(method: DriverMethod, args: unknown[]): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const callId = nextCallId++;
+      // Replies carry whatever the driver method returned, which is a T for this method
+      pending.set(callId, { resolve: value => resolve(value as T), reject });
+      port.postMessage({ type: 'DRIVER_CALL', callId, method, args } as WorkerMessage);
+    });
+
+  return {
+    applyMediaSettings: (tabId, settings) => call<void>('applyMediaSettings', [tabId, settings]),
+    getJoinState: (tabId) => call<{ state: JoinState; reason?: JoinFailureReason }>('getJoinState', [tabId]),
+    waitForBots: (tabId, botNames, timeoutMs) => call<string[]>('waitForBots', [tabId, botNames, timeoutMs])
+  };
+};
+
+if (!isMainThread && parentPort && workerData?.task) {
+  const port = parentPort;
+  const task = workerData.task as Task;
+
+  // The worker stays alive for the meeting's duration and exits once WorkerManager asks it to
+  port.on('message', (command: WorkerCommand) => {
+    if (command.type === 'TERMINATE') {
+      log.info(`Worker for tab ${task.tabId} terminating`);
+      port.close();
+    }
+  });
+
+  runTask(task, createRemoteDriver(port))
+    .then(results => port.postMessage({ type: 'RESULT', results } as WorkerMessage))
+    .catch(error => {
+      log.error(`Worker for tab ${task.tabId} failed`, { error });
+      port.postMessage({
+        type: 'RESULT',
+        results: task.botPair.map(bot => ({
+          success: false,
+          botId: bot.id,
+          tabId: task.tabId,
+          error: `Worker error: ${error instanceof Error ? error.message : String(error)}`,
+          browser: task.browserType
+        }))
+      } as WorkerMessage);
+    });
+}
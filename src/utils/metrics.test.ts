@@ -0,0 +1,61 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { botJoins, registerServiceMetrics, registry } from './metrics';
+import type { MeetingService } from '../services/meetingService';
+import { Session } from '../types';
+
+describe('metrics', () => {
+  let sessions: Partial<Session>[];
+  let queued: number;
+
+  // The value of one sample line, e.g. `zoom_bots_sessions{status="active"}`
+  const valueOf = async (sample: string): Promise<number | undefined> => {
+    const line = (await registry.metrics()).split('\n').find(candidate => candidate.startsWith(`${sample} `));
+    return line === undefined ? undefined : Number(line.slice(sample.length + 1));
+  };
+
+  before(() => {
+    sessions = [];
+    queued = 0;
+    // Only what the gauges read on each scrape
+    registerServiceMetrics({
+      sessionManager: { listSessions: () => sessions },
+      browserManager: { getBrowserStats: () => ({ byEngine: { chromium: { browsers: 2, tabs: 5 }, firefox: { browsers: 1, tabs: 0 } } }) },
+      systemMonitor: {
+        getMetrics: () => ({ cpuLoad: 0.25, memoryUsage: 0.5, totalActiveBots: 12, loadAverage: [1, 2, 3] }),
+        getMaxSystemBots: () => 1000,
+        getBrowserProcesses: () => [{ browserId: 'browser-1', pid: 100, processCount: 4, cpuLoad: 0.1, rssBytes: 2048 }]
+      },
+      workerManager: { getActiveWorkers: () => [{}, {}] },
+      admissionQueue: { get length() { return queued; } }
+    } as unknown as MeetingService);
+  });
+
+  it('reads the gauges from the services on every scrape', async () => {
+    sessions.push(
+      { status: 'active', bots: [{ botId: 1, name: 'Bot1', status: 'joined' }, { botId: 2, name: 'Bot2', status: 'failed' }] },
+      { status: 'stopped', bots: [{ botId: 1, name: 'Bot1', status: 'left' }] }
+    );
+    queued = 3;
+
+    assert.equal(await valueOf('zoom_bots_sessions{status="active"}'), 1);
+    assert.equal(await valueOf('zoom_bots_bots{status="joined"}'), 1);
+    assert.equal(await valueOf('zoom_bots_bots{status="left"}'), undefined);
+    assert.equal(await valueOf('zoom_bots_tabs{browser_type="chromium"}'), 5);
+    assert.equal(await valueOf('zoom_bots_browsers{browser_type="firefox"}'), 1);
+    assert.equal(await valueOf('zoom_bots_queued_joins'), 3);
+    assert.equal(await valueOf('zoom_bots_active_workers'), 2);
+    assert.equal(await valueOf('zoom_bots_load_average{period="5m"}'), 2);
+    assert.equal(await valueOf('zoom_bots_browser_rss_bytes{browser_id="browser-1"}'), 2048);
+
+    // Sessions that are gone drop out of the next scrape
+    sessions.length = 0;
+    assert.equal(await valueOf('zoom_bots_sessions{status="active"}'), undefined);
+  });
+
+  it('counts events where they happen', async () => {
+    botJoins.inc({ result: 'failed', reason: 'wrong_password' });
+
+    assert.equal(await valueOf('zoom_bots_bot_joins_total{result="failed",reason="wrong_password"}'), 1);
+  });
+});
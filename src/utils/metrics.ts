@@ -0,0 +1,199 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { MeetingService } from '../services/meetingService';
+
+// Prometheus metrics served at /metrics. Counters and histograms are updated where things
+// happen; gauges are read from the running services on each scrape (see registerServiceMetrics).
+
+const PREFIX = 'zoom_bots_';
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: PREFIX });
+
+export const joinAttempts = new Counter({
+  name: `${PREFIX}join_attempts_total`,
+  help: 'Join requests by how they ended: joined, partially_failed, invalid, at_capacity, stopped or failed',
+  labelNames: ['status'] as const,
+  registers: [registry]
+});
+
+export const botJoins = new Counter({
+  name: `${PREFIX}bot_joins_total`,
+  help: 'Bots that joined or failed to join, with the failure reason',
+  labelNames: ['result', 'reason'] as const,
+  registers: [registry]
+});
+
+export const capacityRejections = new Counter({
+  name: `${PREFIX}capacity_rejections_total`,
+  help: 'Joins turned away for lack of capacity: no_wait, queue_full, queue_timeout or cancelled',
+  labelNames: ['reason'] as const,
+  registers: [registry]
+});
+
+export const joinsQueued = new Counter({
+  name: `${PREFIX}joins_queued_total`,
+  help: 'Joins that had to wait in the admission queue',
+  registers: [registry]
+});
+
+export const tabOpenSeconds = new Histogram({
+  name: `${PREFIX}tab_open_seconds`,
+  help: 'Time from opening a tab until its join state settled',
+  labelNames: ['browser_type', 'join_state'] as const,
+  buckets: [1, 2, 5, 10, 20, 30, 60, 90, 120],
+  registers: [registry]
+});
+
+export const workersStarted = new Counter({
+  name: `${PREFIX}workers_started_total`,
+  help: 'Worker threads started',
+  registers: [registry]
+});
+
+export const workerFailures = new Counter({
+  name: `${PREFIX}worker_failures_total`,
+  help: 'Worker threads that errored or exited with a non-zero code',
+  labelNames: ['reason'] as const,
+  registers: [registry]
+});
+
+export const scheduleRunsStarted = new Counter({
+  name: `${PREFIX}schedule_runs_started_total`,
+  help: 'Scheduled runs claimed and launched by this instance',
+  registers: [registry]
+});
+
+export const scheduleRunsFinished = new Counter({
+  name: `${PREFIX}schedule_runs_finished_total`,
+  help: 'Scheduled runs by outcome: completed, partially_failed, failed or missed',
+  labelNames: ['outcome'] as const,
+  registers: [registry]
+});
+
+export const schedulerLeader = new Gauge({
+  name: `${PREFIX}scheduler_leader`,
+  help: '1 while this instance holds the scheduler lease',
+  registers: [registry]
+});
+
+// Gauges read from the services' own state on each scrape, so they can't drift from it
+export const registerServiceMetrics = (service: MeetingService): void => {
+  const { sessionManager, browserManager, systemMonitor, workerManager, admissionQueue } = service;
+
+  new Gauge({
+    name: `${PREFIX}sessions`,
+    help: 'Sessions by status',
+    labelNames: ['status'] as const,
+    registers: [registry],
+    collect() {
+      this.reset();
+      sessionManager.listSessions().forEach(session => this.inc({ status: session.status }));
+    }
+  });
+
+  new Gauge({
+    name: `${PREFIX}bots`,
+    help: 'Bots of starting and active sessions, by bot status',
+    labelNames: ['status'] as const,
+    registers: [registry],
+    collect() {
+      this.reset();
+      sessionManager.listSessions()
+        .filter(session => session.status === 'starting' || session.status === 'active')
+        .forEach(session => session.bots.forEach(bot => this.inc({ status: bot.status })));
+    }
+  });
+
+  new Gauge({
+    name: `${PREFIX}browsers`,
+    help: 'Running browser processes by engine',
+    labelNames: ['browser_type'] as const,
+    registers: [registry],
+    collect() {
+      this.reset();
+      Object.entries(browserManager.getBrowserStats().byEngine).forEach(([browserType, stats]) => {
+        this.set({ browser_type: browserType }, stats?.browsers ?? 0);
+      });
+    }
+  });
+
+  new Gauge({
+    name: `${PREFIX}tabs`,
+    help: 'Open tabs by engine',
+    labelNames: ['browser_type'] as const,
+    registers: [registry],
+    collect() {
+      this.reset();
+      Object.entries(browserManager.getBrowserStats().byEngine).forEach(([browserType, stats]) => {
+        this.set({ browser_type: browserType }, stats?.tabs ?? 0);
+      });
+    }
+  });
+
+  new Gauge({
+    name: `${PREFIX}active_workers`,
+    help: 'Worker threads holding bots',
+    registers: [registry],
+    collect() {
+      this.set(workerManager.getActiveWorkers().length);
+    }
+  });
+
+  new Gauge({
+    name: `${PREFIX}queued_joins`,
+    help: 'Joins waiting in the admission queue',
+    registers: [registry],
+    collect() {
+      this.set(admissionQueue.length);
+    }
+  });
+
+  const systemGauge = (name: string, help: string, read: () => number) => new Gauge({
+    name: `${PREFIX}${name}`,
+    help,
+    registers: [registry],
+    collect() {
+      this.set(read());
+    }
+  });
+  systemGauge('cpu_load', 'Smoothed share of host CPU time in use, 0 to 1', () => systemMonitor.getMetrics().cpuLoad);
+  systemGauge('memory_usage', 'Smoothed share of host memory in use, 0 to 1', () => systemMonitor.getMetrics().memoryUsage);
+  systemGauge('max_system_bots', 'Bots the server admits at most (MAX_SYSTEM_BOTS)', () => systemMonitor.getMaxSystemBots());
+  systemGauge('active_bots', 'Bots held by running workers', () => systemMonitor.getMetrics().totalActiveBots);
+
+  new Gauge({
+    name: `${PREFIX}load_average`,
+    help: 'Host load average',
+    labelNames: ['period'] as const,
+    registers: [registry],
+    collect() {
+      const [one, five, fifteen] = systemMonitor.getMetrics().loadAverage;
+      this.set({ period: '1m' }, one);
+      this.set({ period: '5m' }, five);
+      this.set({ period: '15m' }, fifteen);
+    }
+  });
+
+  new Gauge({
+    name: `${PREFIX}browser_cpu_load`,
+    help: 'Smoothed share of host CPU time used by each browser process tree',
+    labelNames: ['browser_id'] as const,
+    registers: [registry],
+    collect() {
+      this.reset();
+      systemMonitor.getBrowserProcesses().forEach(stats => this.set({ browser_id: stats.browserId }, stats.cpuLoad));
+    }
+  });
+
+  new Gauge({
+    name: `${PREFIX}browser_rss_bytes`,
+    help: 'Smoothed resident memory of each browser process tree',
+    labelNames: ['browser_id'] as const,
+    registers: [registry],
+    collect() {
+      this.reset();
+      systemMonitor.getBrowserProcesses().forEach(stats => this.set({ browser_id: stats.browserId }, stats.rssBytes));
+    }
+  });
+};
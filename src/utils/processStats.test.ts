@@ -0,0 +1,75 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn } from 'child_process';
+import { once } from 'events';
+import { ProcessSample, groupByChildOf, isProcessAlive, readProcessEnv, readProcessTable } from './processStats';
+import { SystemMonitor } from './SystemMoniter';
+import { BROWSER_ID_ENV } from './browserManager';
+
+// Only Linux has /proc
+const skip = process.platform !== 'linux';
+
+const sample = (pid: number, ppid: number, rssBytes = 0): ProcessSample => ({ pid, ppid, cpuTicks: 0, rssBytes });
+
+describe('groupByChildOf', () => {
+  it('groups every descendant under the child it descends from', () => {
+    const table = new Map([
+      sample(10, 1),
+      sample(20, 10),
+      sample(21, 20),
+      sample(22, 21),
+      sample(30, 10),
+      sample(40, 1)
+    ].map(entry => [entry.pid, entry]));
+
+    const groups = groupByChildOf(10, table);
+    assert.deepEqual([...groups.keys()].sort(), [20, 30]);
+    assert.deepEqual(groups.get(20)?.map(entry => entry.pid).sort(), [20, 21, 22]);
+    assert.deepEqual(groups.get(30)?.map(entry => entry.pid), [30]);
+  });
+});
+
+describe('reading /proc', { skip }, () => {
+  let child: ChildProcess;
+
+  before(async () => {
+    // Stands in for a browser launched by BrowserManager
+    child = spawn(process.execPath, ['-e', 'setInterval(() => undefined, 1000)'], {
+      env: { ...process.env, [BROWSER_ID_ENV]: 'browser-1' },
+      stdio: 'ignore'
+    });
+    await once(child, 'spawn');
+  });
+
+  after(async () => {
+    child.kill();
+    if (child.exitCode === null) await once(child, 'exit');
+  });
+
+  it('reads this process and its children', async () => {
+    const table = await readProcessTable();
+
+    assert.equal(table.get(process.pid)?.ppid, process.ppid);
+    assert.equal(table.get(child.pid as number)?.ppid, process.pid);
+    assert.ok((table.get(process.pid)?.rssBytes as number) > 0);
+  });
+
+  it('reads the environment a process started with', async () => {
+    assert.equal(await readProcessEnv(child.pid as number, BROWSER_ID_ENV), 'browser-1');
+    assert.equal(await readProcessEnv(child.pid as number, 'NOT_SET_ANYWHERE'), undefined);
+    assert.equal(isProcessAlive(child.pid as number), true);
+  });
+
+  it('samples each browser process tree by its browser id', async () => {
+    const monitor = new SystemMonitor();
+    while (!monitor.getMetrics().sampledAt) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    const [browser] = monitor.getBrowserProcesses();
+    assert.equal(browser?.browserId, 'browser-1');
+    assert.equal(browser.pid, child.pid);
+    assert.equal(browser.processCount, 1);
+    assert.ok(monitor.getMetrics().browserRssBytes >= browser.rssBytes);
+  });
+});
@@ -0,0 +1,98 @@
+import fs from 'fs/promises';
+
+// Kernel clock ticks per second for the utime/stime fields of /proc/<pid>/stat. Node can't
+// query sysconf(_SC_CLK_TCK), but Linux fixes it at 100 on every mainstream architecture.
+export const CLOCK_TICKS_PER_SECOND = 100;
+
+const PAGE_SIZE_BYTES = 4096;
+
+export interface ProcessSample {
+  pid: number;
+  ppid: number;
+  // User plus system CPU time, in clock ticks
+  cpuTicks: number;
+  rssBytes: number;
+}
+
+// Parses /proc/<pid>/stat. The command name may contain spaces and parentheses, so the
+// fields are counted from its closing parenthesis.
+const parseStat = (pid: number, stat: string): ProcessSample | null => {
+  const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+  // fields[0] is field 3 (state): ppid is field 4, utime 14, stime 15 and rss 24
+  const ppid = parseInt(fields[1]);
+  const utime = parseInt(fields[11]);
+  const stime = parseInt(fields[12]);
+  const rssPages = parseInt(fields[21]);
+  if ([ppid, utime, stime, rssPages].some(Number.isNaN)) {
+    return null;
+  }
+  return { pid, ppid, cpuTicks: utime + stime, rssBytes: rssPages * PAGE_SIZE_BYTES };
+};
+
+// Every process on the host, or an empty map where there is no /proc (macOS, Windows)
+export const readProcessTable = async (): Promise<Map<number, ProcessSample>> => {
+  const table = new Map<number, ProcessSample>();
+  const entries = await fs.readdir('/proc').catch(() => [] as string[]);
+  await Promise.all(entries.filter(name => /^\d+$/.test(name)).map(async name => {
+    const pid = Number(name);
+    // Processes exit between listing and reading
+    const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf8').catch(() => null);
+    const sample = stat ? parseStat(pid, stat) : null;
+    if (sample) {
+      table.set(pid, sample);
+    }
+  }));
+  return table;
+};
+
+// Groups every descendant of `ancestorPid` under the direct child of it that it descends
+// from, e.g. each browser process with its renderers, GPU and utility processes
+export const groupByChildOf = (ancestorPid: number, table: Map<number, ProcessSample>): Map<number, ProcessSample[]> => {
+  const groups = new Map<number, ProcessSample[]>();
+  const rootOf = new Map<number, number | null>();
+
+  const findRoot = (pid: number): number | null => {
+    const seen: number[] = [];
+    let current = table.get(pid);
+    let root: number | null = null;
+    while (current) {
+      if (rootOf.has(current.pid)) {
+        root = rootOf.get(current.pid) as number | null;
+        break;
+      }
+      seen.push(current.pid);
+      if (current.ppid === ancestorPid) {
+        root = current.pid;
+        break;
+      }
+      current = current.ppid > 1 ? table.get(current.ppid) : undefined;
+    }
+    seen.forEach(seenPid => rootOf.set(seenPid, root));
+    return root;
+  };
+
+  table.forEach(sample => {
+    const root = findRoot(sample.pid);
+    if (root !== null) {
+      groups.set(root, [...(groups.get(root) || []), sample]);
+    }
+  });
+  return groups;
+};
+
+// Signal 0 only checks that the process exists; EPERM means it does, under another user
+export const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+// Value of `name` in the environment a process was started with, if readable
+export const readProcessEnv = async (pid: number, name: string): Promise<string | undefined> => {
+  const environ = await fs.readFile(`/proc/${pid}/environ`, 'utf8').catch(() => '');
+  const entry = environ.split('\0').find(variable => variable.startsWith(`${name}=`));
+  return entry?.slice(name.length + 1);
+};
@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { getSignatureExpiry } from './signature';
+import { SessionManager } from './sessionManager';
+import { MemoryStateStore, PersistedState } from './stateStore';
+import BrowserManager from './browserManager';
+import { WorkerManager } from './workerManager';
+
+// Only what the session bookkeeping touches; no browser is launched. Open tabs and running
+// workers are tracked by id, with their close and termination times.
+const openTabs = new Map<string, number>();
+const runningWorkers = new Map<string, number>();
+const browserManager = {
+  onTabEvent: () => undefined,
+  getTabInfo: () => undefined,
+  hasTab: (tabId: string) => openTabs.has(tabId),
+  cancelRecovery: () => undefined,
+  closeTab: async (tabId: string) => { openTabs.delete(tabId); },
+  rescheduleTabClose: (tabId: string, durationMs: number) => { openTabs.set(tabId, Date.now() + durationMs); },
+  replaceTabSignature: () => undefined
+} as unknown as BrowserManager;
+const workerManager = {
+  isWorkerActive: (taskId: string) => runningWorkers.has(taskId),
+  terminateWorkers: async (taskIds: string[]) => taskIds.filter(taskId => runningWorkers.delete(taskId)).length,
+  rescheduleTermination: (taskId: string, endsAt: number) => { runningWorkers.set(taskId, endsAt); }
+} as unknown as WorkerManager;
+
+const bots = [
+  { id: 1, name: 'Bot1', status: 'ready' },
+  { id: 2, name: 'Bot2', status: 'ready' }
+];
+
+describe('SessionManager', () => {
+  let sessions: SessionManager;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setInterval', 'Date'], now: Date.parse('2025-01-01T10:00:00Z') });
+    openTabs.clear();
+    runningWorkers.clear();
+    sessions = new SessionManager(browserManager, workerManager, new MemoryStateStore());
+  });
+
+  // A tab for both bots that has been open since now, with a worker, each timed to close after `durationMinutes`
+  const openTab = (sessionId: string, durationMinutes: number, tabId = 'tab-1', taskId = 'task-1') => {
+    openTabs.set(tabId, Date.now() + durationMinutes * 60 * 1000);
+    runningWorkers.set(taskId, Date.now() + durationMinutes * 60 * 1000);
+    sessions.addTab(sessionId, { tabId, botIds: ['1', '2'], browserType: 'chromium', joinState: 'joined' });
+    sessions.addWorker(sessionId, taskId, [1, 2]);
+  };
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('starts a session with every bot pending', () => {
+    const session = sessions.createSession('123', bots, 30, 'signature');
+
+    assert.equal(session.status, 'starting');
+    assert.deepEqual(session.bots.map(bot => bot.status), ['pending', 'pending']);
+    assert.equal(sessions.getSession(session.id), session);
+  });
+
+  it('times the session from when it becomes active', () => {
+    const session = sessions.createSession('123', bots, 30, 'signature');
+    mock.timers.tick(20 * 1000);
+    sessions.markActive(session.id, new Map());
+
+    assert.equal(session.status, 'active');
+    assert.equal(session.startedAt, '2025-01-01T10:00:20.000Z');
+    assert.equal(session.endsAt, '2025-01-01T10:30:20.000Z');
+  });
+
+  it('moves every tab and worker to the session end time', () => {
+    const session = sessions.createSession('123', bots, 30, 'signature');
+    openTab(session.id, 30);
+    mock.timers.tick(45 * 1000);
+    sessions.markActive(session.id, new Map());
+
+    const endsAt = Date.parse('2025-01-01T10:30:45Z');
+    assert.equal(session.endsAt, new Date(endsAt).toISOString());
+    assert.equal(openTabs.get('tab-1'), endsAt);
+    assert.equal(runningWorkers.get('task-1'), endsAt);
+  });
+
+  it('closes the tabs and workers of a failed session', async () => {
+    const session = sessions.createSession('123', bots, 30, 'signature');
+    openTab(session.id, 30);
+    const finished: string[] = [];
+    sessions.onSessionFinished(({ id }) => finished.push(id));
+    await sessions.markFailed(session.id, 'No bots joined', new Map());
+
+    assert.equal(session.status, 'failed');
+    assert.equal(session.error, 'No bots joined');
+    assert.equal(openTabs.size, 0);
+    assert.equal(runningWorkers.size, 0);
+    assert.deepEqual(session.bots.map(bot => bot.status), ['left', 'left']);
+    assert.deepEqual(finished, [session.id]);
+  });
+
+  it('leaves finished sessions alone when failing them', async () => {
+    const session = sessions.createSession('123', bots, 30, 'signature');
+    const finished: string[] = [];
+    sessions.onSessionFinished(({ id }) => finished.push(id));
+    await sessions.stopSession(session.id, new Map());
+    await sessions.markFailed(session.id, 'Join threw', new Map());
+
+    assert.equal(session.status, 'stopped');
+    assert.equal(session.error, undefined);
+    assert.deepEqual(finished, [session.id]);
+  });
+
+  it('stops one session and leaves the others running', async () => {
+    const stopped = sessions.createSession('123', bots, 30, 'signature');
+    openTab(stopped.id, 30);
+    const running = sessions.createSession('123', bots, 30, 'signature');
+    openTab(running.id, 30, 'tab-2', 'task-2');
+    sessions.markActive(stopped.id, new Map());
+    const finished: string[] = [];
+    sessions.onSessionFinished(({ id }) => finished.push(id));
+
+    assert.deepEqual(await sessions.stopSession(stopped.id, new Map()), { closedTabs: 1, terminatedWorkers: 1 });
+    assert.equal(stopped.status, 'stopped');
+    assert.deepEqual(stopped.bots.map(bot => bot.status), ['left', 'left']);
+    assert.deepEqual([...openTabs.keys()], ['tab-2']);
+    assert.deepEqual([...runningWorkers.keys()], ['task-2']);
+    assert.equal(running.status, 'starting');
+    assert.deepEqual(finished, [stopped.id]);
+    assert.deepEqual(sessions.findRunningSessionsByMeeting('123'), [running]);
+  });
+
+  it('refuses to stop an unknown session', async () => {
+    await assert.rejects(sessions.stopSession('unknown', new Map()), /Session not found/);
+  });
+
+  describe('rescheduleSession', () => {
+    let previous: Record<string, string | undefined>;
+
+    beforeEach(() => {
+      previous = {
+        key: process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY,
+        secret: process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET
+      };
+      process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY = 'sdk-key';
+      process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET = 'sdk-secret';
+    });
+
+    afterEach(() => {
+      if (previous.key === undefined) delete process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY;
+      else process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY = previous.key;
+      if (previous.secret === undefined) delete process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET;
+      else process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET = previous.secret;
+    });
+
+    it('moves the end time and issues a signature that covers it', async () => {
+      const session = sessions.createSession('123', bots, 30, 'signature');
+      openTab(session.id, 30);
+      sessions.markActive(session.id, new Map());
+      mock.timers.tick(10 * 60 * 1000);
+
+      const endsAt = Date.parse('2025-01-01T11:15:00Z');
+      assert.deepEqual(await sessions.rescheduleSession(session.id, endsAt, new Map()), { signatureReissued: true });
+      assert.equal(session.endsAt, '2025-01-01T11:15:00.000Z');
+      assert.equal(session.durationMinutes, 75);
+      assert.equal(openTabs.get('tab-1'), endsAt);
+      assert.equal(runningWorkers.get('task-1'), endsAt);
+      assert.ok((getSignatureExpiry(session.signature) as number) >= endsAt);
+
+      // Shortening keeps the signature
+      assert.deepEqual(await sessions.rescheduleSession(session.id, endsAt - 60 * 60 * 1000, new Map()), { signatureReissued: false });
+      assert.equal(session.durationMinutes, 15);
+    });
+
+    it('only reschedules active sessions', async () => {
+      const session = sessions.createSession('123', bots, 30, 'signature');
+
+      await assert.rejects(sessions.rescheduleSession(session.id, Date.now() + 60 * 1000, new Map()), /Cannot reschedule a session that is starting/);
+      await assert.rejects(sessions.rescheduleSession('unknown', Date.now(), new Map()), /Session not found/);
+    });
+  });
+
+  it('marks bots joined or failed from worker results', () => {
+    const session = sessions.createSession('123', bots, 30, 'signature');
+    sessions.recordResults(session.id, [
+      { success: true, botId: 1, joinState: 'joined', browser: 'chromium' },
+      { success: false, botId: 2, joinState: 'failed', error: 'Tab is failed', browser: 'chromium' }
+    ]);
+
+    assert.deepEqual(session.bots.map(bot => bot.status), ['joined', 'failed']);
+    assert.equal(session.bots[1].error, 'Tab is failed');
+  });
+
+  describe('restore', () => {
+    // The pid of a process that has already exited
+    const deadPid = () => spawnSync(process.execPath, ['--version']).pid;
+
+    // State written by `ownerPid` with a session caught mid-join and an expired active one
+    const savedState = async (ownerPid: number): Promise<PersistedState> => {
+      const store = new MemoryStateStore();
+      const previous = new SessionManager(browserManager, workerManager, store);
+      previous.createSession('123', bots, 30, 'signature');
+      const expired = previous.createSession('456', bots, 30, 'signature');
+      previous.markActive(expired.id, new Map());
+      mock.timers.tick(31 * 60 * 1000);
+      const state = await store.load() as PersistedState;
+      return { ...state, ownerPid };
+    };
+
+    const restoreFrom = async (state: PersistedState) => {
+      const store = new MemoryStateStore();
+      await store.save(state);
+      sessions = new SessionManager(browserManager, workerManager, store);
+      return sessions.restore();
+    };
+
+    it('takes over the sessions of a process that has exited', async () => {
+      const result = await restoreFrom(await savedState(deadPid()));
+
+      assert.deepEqual(result, { resumed: 0, interrupted: 1 });
+      assert.deepEqual(sessions.listSessions().map(session => [session.meetingId, session.status]), [['123', 'interrupted'], ['456', 'ended']]);
+      assert.ok(sessions.listSessions().every(session => session.signature === ''));
+    });
+
+    it('leaves the sessions of a live process alone', async () => {
+      const result = await restoreFrom(await savedState(process.ppid));
+
+      assert.deepEqual(result, { resumed: 0, interrupted: 0 });
+      assert.deepEqual(sessions.listSessions(), []);
+    });
+
+    it('never saves the signature', async () => {
+      const state = await savedState(process.pid);
+
+      assert.ok(state.sessions.every(({ session }) => !('signature' in session)));
+    });
+  });
+
+  it('evicts finished sessions once the retention period is over', async () => {
+    const finished = sessions.createSession('123', bots, 30, 'signature');
+    await sessions.markFailed(finished.id, 'No tabs', new Map());
+    const running = sessions.createSession('456', bots, 30, 'signature');
+
+    mock.timers.tick(23 * 60 * 60 * 1000);
+    assert.ok(sessions.getSession(finished.id));
+
+    mock.timers.tick(60 * 60 * 1000 + 30 * 1000);
+    assert.equal(sessions.getSession(finished.id), undefined);
+    assert.equal(sessions.getSession(running.id), running);
+  });
+});
@@ -0,0 +1,594 @@
+import { v4 as uuidv4 } from 'uuid';
+import BrowserManager from './browserManager';
+import { WorkerManager, ActiveWorkerInfo } from './workerManager';
+import { generateSignature, getSignatureExpiry } from './signature';
+import { PersistedSession, StateStore, openSecret, readJoinPassword, sealSecret, setJoinParam, stripJoinSecrets } from './stateStore';
+import { isProcessAlive } from './processStats';
+import { ApiKeyIdentity, Bot, Session, SessionBot, SessionEvent, SessionStatus, SessionTab, TabEvent, TabJoinResult, WorkerResult } from '../types';
+import { createLogger, runWithLogContext } from './logger';
+
+const log = createLogger('sessionManager');
+
+export interface SessionView {
+  id: string;
+  meetingId: string;
+  status: SessionStatus;
+  durationMinutes: number;
+  createdAt: string;
+  startedAt?: string;
+  endsAt?: string;
+  endedAt?: string;
+  signatureExpiresAt?: string;
+  remainingMinutes: number;
+  error?: string;
+  createdBy?: ApiKeyIdentity;
+  scheduleId?: string;
+  tabs: (SessionTab & { isOpen: boolean; isRecovering: boolean; title?: string })[];
+  workers: { taskId: string; isActive: boolean }[];
+  bots: SessionBot[];
+  events: SessionEvent[];
+}
+
+export class SessionManager {
+  private sessions: Map<string, Session> = new Map();
+  private tabUrls: Map<string, string> = new Map();
+  private resumingSessionIds: Set<string> = new Set();
+  private browserManager: BrowserManager;
+  private workerManager: WorkerManager;
+  private stateStore: StateStore;
+  private finishListeners: ((session: Session) => void)[] = [];
+  private readonly RESUME_SESSIONS = process.env.RESUME_SESSIONS !== 'false';
+  private readonly SESSION_RETENTION_MS = parseInt(process.env.SESSION_RETENTION_HOURS || '24') * 60 * 60 * 1000;
+
+  constructor(browserManager: BrowserManager, workerManager: WorkerManager, stateStore: StateStore) {
+    this.browserManager = browserManager;
+    this.workerManager = workerManager;
+    this.stateStore = stateStore;
+    this.browserManager.onTabEvent(event => this.handleTabEvent(event));
+
+    // Sessions otherwise only notice they have ended when someone looks at them
+    const refreshTimer = setInterval(() => {
+      this.listSessions().forEach(session => this.refreshStatus(session));
+      this.evictExpired();
+    }, 30 * 1000);
+    refreshTimer.unref();
+  }
+
+  // Called once when a session reaches ended, stopped, failed or interrupted
+  onSessionFinished(listener: (session: Session) => void): void {
+    this.finishListeners.push(listener);
+  }
+
+  createSession(meetingId: string, bots: Bot[], durationMinutes: number, signature: string, createdBy?: ApiKeyIdentity, scheduleId?: string): Session {
+    const signatureExpiry = getSignatureExpiry(signature);
+    const session: Session = {
+      id: uuidv4(),
+      meetingId,
+      status: 'starting',
+      durationMinutes,
+      bots: bots.map(bot => ({ botId: bot.id, name: bot.name, browserType: bot.browserType, status: 'pending' })),
+      tabs: [],
+      taskIds: [],
+      signature,
+      signatureExpiresAt: signatureExpiry ? new Date(signatureExpiry).toISOString() : undefined,
+      createdAt: new Date().toISOString(),
+      events: []
+    };
+    if (createdBy) {
+      session.createdBy = createdBy;
+    }
+    if (scheduleId) {
+      session.scheduleId = scheduleId;
+    }
+    this.sessions.set(session.id, session);
+    this.recordEvent(session, {
+      type: 'created',
+      message: `Session created with ${bots.length} bots${createdBy ? ` by API key ${createdBy.keyId} (${createdBy.name})` : ''}`
+    });
+    this.persist();
+    log.info(`Created session ${session.id} for meeting ${meetingId} with ${bots.length} bots`);
+    return session;
+  }
+
+  addTab(sessionId: string, tab: TabJoinResult): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.tabs.push({ ...tab, openedAt: new Date().toISOString() });
+    session.bots
+      .filter(bot => tab.botIds.includes(bot.botId.toString()))
+      .forEach(bot => {
+        bot.tabId = tab.tabId;
+        bot.joinState = tab.joinState;
+      });
+    const url = this.browserManager.getTabInfo(tab.tabId)?.url;
+    if (url) {
+      this.tabUrls.set(tab.tabId, url);
+    }
+    this.persist();
+  }
+
+  addWorker(sessionId: string, taskId: string, botIds: number[]): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.taskIds.push(taskId);
+    session.bots
+      .filter(bot => botIds.includes(bot.botId))
+      .forEach(bot => { bot.taskId = taskId; });
+    this.persist();
+  }
+
+  recordResults(sessionId: string, results: WorkerResult[]): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    for (const result of results) {
+      const bot = session.bots.find(b => b.botId === result.botId);
+      if (!bot) continue;
+      bot.joinState = result.joinState ?? bot.joinState;
+      bot.error = result.error;
+      if (result.success) {
+        bot.status = 'joined';
+      } else if (result.joinState !== 'waiting_room') {
+        bot.status = 'failed';
+      }
+    }
+
+    // Bots that never got a tab were dropped by BotManager before reaching a worker
+    session.bots
+      .filter(bot => !bot.tabId && bot.status === 'pending')
+      .forEach(bot => {
+        bot.status = 'failed';
+        bot.error = 'No tab opened for bot';
+      });
+    this.persist();
+  }
+
+  // Tabs and workers each got the full duration as they opened, so they are moved to one
+  // end time counted from now, when the last of them is in
+  markActive(sessionId: string, globalActiveWorkers: Map<string, ActiveWorkerInfo>): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.status !== 'starting') return;
+
+    const now = Date.now();
+    const endsAt = now + session.durationMinutes * 60 * 1000;
+    this.moveEndTime(session, endsAt, globalActiveWorkers);
+    session.status = 'active';
+    session.startedAt = new Date(now).toISOString();
+    session.endsAt = new Date(endsAt).toISOString();
+    this.persist();
+  }
+
+  // Fails a session that is still starting or active and closes its tabs and workers, so
+  // they don't keep running outside the capacity count. Finished sessions are left alone.
+  async markFailed(sessionId: string, error: string, globalActiveWorkers: Map<string, ActiveWorkerInfo>): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session || (session.status !== 'starting' && session.status !== 'active')) return;
+
+    session.status = 'failed';
+    session.error = error;
+    session.endedAt = new Date().toISOString();
+    const { closedTabs, terminatedWorkers } = await this.closeTabsAndWorkers(session, globalActiveWorkers);
+    session.bots
+      .filter(bot => bot.status === 'joined' || bot.status === 'pending' || bot.status === 'dropped')
+      .forEach(bot => { bot.status = 'left'; });
+    this.recordEvent(session, { type: 'failed', message: `${error}; closed ${closedTabs} tab(s), terminated ${terminatedWorkers} worker(s)` });
+    this.persist();
+    this.notifyFinished(session);
+  }
+
+  async stopSession(
+    sessionId: string,
+    globalActiveWorkers: Map<string, ActiveWorkerInfo>
+  ): Promise<{ closedTabs: number; terminatedWorkers: number }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const { closedTabs, terminatedWorkers } = await this.closeTabsAndWorkers(session, globalActiveWorkers);
+
+    const wasRunning = session.status === 'starting' || session.status === 'active';
+    if (wasRunning) {
+      session.status = 'stopped';
+      session.endedAt = new Date().toISOString();
+    }
+    session.bots
+      .filter(bot => bot.status === 'joined' || bot.status === 'pending' || bot.status === 'dropped')
+      .forEach(bot => { bot.status = 'left'; });
+    this.recordEvent(session, { type: 'stopped', message: `Closed ${closedTabs} tab(s), terminated ${terminatedWorkers} worker(s)` });
+    this.persist();
+    if (wasRunning) {
+      this.notifyFinished(session);
+    }
+
+    log.info(`Stopped session ${sessionId}: closed ${closedTabs} tab(s), terminated ${terminatedWorkers} worker(s)`);
+    return { closedTabs, terminatedWorkers };
+  }
+
+  async rescheduleSession(
+    sessionId: string,
+    endsAt: number,
+    globalActiveWorkers: Map<string, ActiveWorkerInfo>
+  ): Promise<{ signatureReissued: boolean }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    if (session.status !== 'active' || !session.startedAt) {
+      throw new Error(`Cannot reschedule a session that is ${session.status}`);
+    }
+
+    // First, so a signature that can't cover the new end time leaves the session unchanged
+    const signatureReissued = this.reissueSignatureIfNeeded(session, endsAt);
+
+    this.moveEndTime(session, endsAt, globalActiveWorkers);
+    session.endsAt = new Date(endsAt).toISOString();
+    session.durationMinutes = parseFloat(((endsAt - Date.parse(session.startedAt)) / (60 * 1000)).toFixed(2));
+
+    this.recordEvent(session, { type: 'rescheduled', message: `Session now ends at ${session.endsAt}` });
+    this.persist();
+
+    log.info(`Rescheduled session ${sessionId} to end at ${session.endsAt}`);
+    return { signatureReissued };
+  }
+
+  // Loads the sessions saved before the last shutdown or crash. Unexpired active sessions
+  // get their tabs reopened for the time they have left; sessions caught mid-join (or all
+  // of them when RESUME_SESSIONS=false) are reported as interrupted.
+  async restore(): Promise<{ resumed: number; interrupted: number }> {
+    const state = await this.stateStore.load();
+    if (!state) {
+      return { resumed: 0, interrupted: 0 };
+    }
+    // Another running process writes this state, e.g. two instances left with the same INSTANCE_ID;
+    // resuming its sessions would put their bots in the meetings twice
+    if (state.ownerPid !== process.pid && isProcessAlive(state.ownerPid)) {
+      log.warn(`Not restoring sessions: the state is still in use by process ${state.ownerPid}`);
+      return { resumed: 0, interrupted: 0 };
+    }
+
+    const toResume: Session[] = [];
+    let interrupted = 0;
+    for (const { session: saved, tabUrls, passwordProtected, sealedPassword } of state.sessions) {
+      const finishedAt = saved.endedAt ? Date.parse(saved.endedAt) : undefined;
+      if (finishedAt !== undefined && Date.now() - finishedAt > this.SESSION_RETENTION_MS) continue;
+
+      // The signature isn't saved; an empty one makes resumeSession issue a new one
+      const session: Session = { ...saved, signature: '', events: saved.events || [] };
+      const password = sealedPassword ? openSecret(sealedPassword) : undefined;
+      this.sessions.set(session.id, session);
+      Object.entries(tabUrls).forEach(([tabId, url]) => {
+        this.tabUrls.set(tabId, password ? setJoinParam(url, 'password', password) : url);
+      });
+
+      if (session.status !== 'starting' && session.status !== 'active') continue;
+
+      const remainingMs = session.endsAt ? Date.parse(session.endsAt) - Date.now() : 0;
+      if (session.status === 'active' && remainingMs <= 0) {
+        session.status = 'ended';
+        session.endedAt = session.endsAt;
+        this.notifyFinished(session);
+      } else if (session.status === 'active' && this.RESUME_SESSIONS && passwordProtected && !password) {
+        this.markInterrupted(session, 'Meeting password could not be recovered; set STATE_ENCRYPTION_KEY to resume password-protected meetings');
+        interrupted++;
+      } else if (session.status === 'active' && this.RESUME_SESSIONS) {
+        toResume.push(session);
+      } else {
+        this.markInterrupted(session, 'Server restarted while the session was running');
+        interrupted++;
+      }
+    }
+    this.persist();
+    log.info(`Restored ${this.sessions.size} session(s) from the state store, resuming ${toResume.length}`);
+
+    let resumed = 0;
+    for (const session of toResume) {
+      if (await runWithLogContext({ sessionId: session.id, meetingId: session.meetingId }, () => this.resumeSession(session))) {
+        resumed++;
+      } else {
+        interrupted++;
+      }
+    }
+    return { resumed, interrupted };
+  }
+
+  getSession(sessionId: string): Session | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  listSessions(): Session[] {
+    return Array.from(this.sessions.values());
+  }
+
+  findRunningSessionsByMeeting(meetingId: string): Session[] {
+    return this.listSessions().filter(session =>
+      session.meetingId === meetingId && (session.status === 'starting' || session.status === 'active')
+    );
+  }
+
+  describeSession(session: Session): SessionView {
+    this.refreshStatus(session);
+
+    const tabs = session.tabs.map(tab => {
+      const liveJoinState = this.browserManager.getTabJoinState(tab.tabId);
+      return {
+        ...tab,
+        joinState: liveJoinState?.state ?? tab.joinState,
+        failureReason: liveJoinState ? liveJoinState.reason : tab.failureReason,
+        isOpen: this.browserManager.hasTab(tab.tabId),
+        isRecovering: this.browserManager.isTabRecovering(tab.tabId),
+        title: this.browserManager.getTabInfo(tab.tabId)?.title
+      };
+    });
+    const tabJoinStates = new Map(tabs.map(tab => [tab.tabId, tab.joinState]));
+    const openTabIds = new Set(tabs.filter(tab => tab.isOpen).map(tab => tab.tabId));
+
+    const bots = session.bots.map(bot => ({
+      ...bot,
+      joinState: bot.tabId ? tabJoinStates.get(bot.tabId) : bot.joinState,
+      status: bot.status === 'joined' && bot.tabId && !openTabIds.has(bot.tabId) ? 'left' as const : bot.status
+    }));
+
+    const remainingMs = session.endsAt ? Date.parse(session.endsAt) - Date.now() : 0;
+
+    return {
+      id: session.id,
+      meetingId: session.meetingId,
+      status: session.status,
+      durationMinutes: session.durationMinutes,
+      createdAt: session.createdAt,
+      startedAt: session.startedAt,
+      endsAt: session.endsAt,
+      endedAt: session.endedAt,
+      signatureExpiresAt: session.signatureExpiresAt,
+      remainingMinutes: parseFloat(Math.max(0, remainingMs / (60 * 1000)).toFixed(2)),
+      error: session.error,
+      createdBy: session.createdBy,
+      scheduleId: session.scheduleId,
+      tabs,
+      workers: session.taskIds.map(taskId => ({
+        taskId,
+        isActive: this.workerManager.isWorkerActive(taskId)
+      })),
+      bots,
+      events: [...session.events]
+    };
+  }
+
+  private async resumeSession(session: Session): Promise<boolean> {
+    this.resumingSessionIds.add(session.id);
+    try {
+      const endsAt = Date.parse(session.endsAt as string);
+      try {
+        this.reissueSignatureIfNeeded(session, endsAt);
+      } catch (error) {
+        log.error(`Failed to reissue the signature for session ${session.id}`, { error });
+        this.markInterrupted(session, `No signature for the rest of the session: ${error instanceof Error ? error.message : String(error)}`);
+        this.persist();
+        return false;
+      }
+
+      let reopened = 0;
+      const liveTabs = session.tabs.filter(tab => tab.joinState !== 'failed' && tab.joinState !== 'ended');
+      for (const tab of liveTabs) {
+        const url = this.tabUrls.get(tab.tabId);
+        const remainingMs = endsAt - Date.now();
+        if (!url || remainingMs <= 0) continue;
+
+        const tabBots = session.bots.filter(bot => bot.tabId === tab.tabId);
+        try {
+          const { joinState, failureReason } = await this.browserManager.openTabForDuration(url, remainingMs, tab.browserType, tab.tabId);
+          tab.joinState = joinState;
+          tab.failureReason = failureReason;
+          if (joinState === 'failed' || joinState === 'ended') {
+            tabBots.forEach(bot => {
+              bot.status = 'failed';
+              bot.error = `Tab did not rejoin after restart (${failureReason || joinState})`;
+            });
+            continue;
+          }
+          tabBots.forEach(bot => {
+            bot.status = joinState === 'joined' ? 'joined' : 'pending';
+            bot.joinState = joinState;
+          });
+          reopened++;
+        } catch (error) {
+          log.error(`Failed to reopen tab ${tab.tabId} for session ${session.id}`, { error });
+          tabBots.forEach(bot => {
+            bot.status = 'failed';
+            bot.error = `Tab could not be reopened after restart: ${error instanceof Error ? error.message : String(error)}`;
+          });
+        }
+      }
+
+      if (reopened === 0) {
+        this.markInterrupted(session, 'No tabs could be reopened after restart');
+        this.persist();
+        return false;
+      }
+
+      this.recordEvent(session, { type: 'resumed', message: `Reopened ${reopened}/${liveTabs.length} tab(s) after restart` });
+      this.persist();
+      log.info(`Resumed session ${session.id} with ${reopened} tab(s)`);
+      return true;
+    } finally {
+      this.resumingSessionIds.delete(session.id);
+    }
+  }
+
+  // Drops sessions that finished more than SESSION_RETENTION_HOURS ago, so a long-running
+  // server doesn't keep every session it ever ran
+  private evictExpired(): void {
+    const cutoff = Date.now() - this.SESSION_RETENTION_MS;
+    const expired = this.listSessions().filter(session => session.endedAt && Date.parse(session.endedAt) < cutoff);
+    if (expired.length === 0) return;
+
+    expired.forEach(session => {
+      this.sessions.delete(session.id);
+      session.tabs.forEach(tab => this.tabUrls.delete(tab.tabId));
+    });
+    this.persist();
+    log.info(`Evicted ${expired.length} session(s) finished more than ${this.SESSION_RETENTION_MS / (60 * 60 * 1000)} hours ago`);
+  }
+
+  private async closeTabsAndWorkers(
+    session: Session,
+    globalActiveWorkers: Map<string, ActiveWorkerInfo>
+  ): Promise<{ closedTabs: number; terminatedWorkers: number }> {
+    let closedTabs = 0;
+    for (const tab of session.tabs) {
+      this.browserManager.cancelRecovery(tab.tabId);
+      if (!this.browserManager.hasTab(tab.tabId)) continue;
+      try {
+        await this.browserManager.closeTab(tab.tabId);
+        closedTabs++;
+      } catch (error) {
+        log.error(`Failed to close tab ${tab.tabId} for session ${session.id}`, { error });
+      }
+    }
+
+    const terminatedWorkers = await this.workerManager.terminateWorkers(session.taskIds, globalActiveWorkers);
+    return { closedTabs, terminatedWorkers };
+  }
+
+  // Moves the close timers of the session's open tabs and the termination of its running workers to `endsAt`
+  private moveEndTime(session: Session, endsAt: number, globalActiveWorkers: Map<string, ActiveWorkerInfo>): void {
+    const remainingMs = endsAt - Date.now();
+    for (const tab of session.tabs) {
+      if (this.browserManager.hasTab(tab.tabId)) {
+        this.browserManager.rescheduleTabClose(tab.tabId, remainingMs);
+      }
+    }
+    for (const taskId of session.taskIds) {
+      if (this.workerManager.isWorkerActive(taskId)) {
+        this.workerManager.rescheduleTermination(taskId, endsAt, globalActiveWorkers);
+      }
+    }
+  }
+
+  private markInterrupted(session: Session, error: string): void {
+    session.status = 'interrupted';
+    session.error = error;
+    session.endedAt = new Date().toISOString();
+    session.bots
+      .filter(bot => bot.status === 'joined' || bot.status === 'pending' || bot.status === 'dropped')
+      .forEach(bot => { bot.status = 'left'; });
+    this.recordEvent(session, { type: 'interrupted', message: error });
+    this.notifyFinished(session);
+  }
+
+  private notifyFinished(session: Session): void {
+    this.finishListeners.forEach(listener => {
+      try {
+        listener(session);
+      } catch (error) {
+        log.error(`Session finish listener failed for ${session.id}`, { error });
+      }
+    });
+  }
+
+  // Tabs that reconnect after the old token's exp need a fresh signature
+  private reissueSignatureIfNeeded(session: Session, endsAt: number): boolean {
+    if (session.signature && session.signatureExpiresAt && endsAt <= Date.parse(session.signatureExpiresAt)) {
+      return false;
+    }
+
+    const remainingMs = endsAt - Date.now();
+    const signature = generateSignature(session.meetingId, 0, Math.ceil(remainingMs / (60 * 1000)));
+    const signatureExpiry = getSignatureExpiry(signature);
+    if (signatureExpiry === null || signatureExpiry < endsAt) {
+      throw new Error(`New signature for session ${session.id} expires before the session ends at ${new Date(endsAt).toISOString()}`);
+    }
+    session.signature = signature;
+    session.signatureExpiresAt = new Date(signatureExpiry).toISOString();
+
+    // Recovered and resumed tabs reopen with their stored URL, so it has to carry the new signature
+    for (const tab of session.tabs) {
+      this.browserManager.replaceTabSignature(tab.tabId, session.signature);
+      const url = this.tabUrls.get(tab.tabId);
+      if (url) {
+        this.tabUrls.set(tab.tabId, setJoinParam(url, 'signature', session.signature));
+      }
+    }
+    return true;
+  }
+
+  private persist(): void {
+    const sessions = this.listSessions().map(({ signature, ...session }) => {
+      const tabUrls: Record<string, string> = {};
+      let password: string | undefined;
+      for (const tab of session.tabs) {
+        const url = this.browserManager.getTabInfo(tab.tabId)?.url ?? this.tabUrls.get(tab.tabId);
+        if (url) {
+          password = password ?? readJoinPassword(url);
+          tabUrls[tab.tabId] = stripJoinSecrets(url);
+        }
+      }
+      const record: PersistedSession = { session, tabUrls };
+      if (password) {
+        record.passwordProtected = true;
+        record.sealedPassword = sealSecret(password) ?? undefined;
+      }
+      return record;
+    });
+
+    this.stateStore.save({ ownerPid: process.pid, savedAt: new Date().toISOString(), sessions }).catch(error => {
+      log.error('Failed to persist session state', { error });
+    });
+  }
+
+  private recordEvent(session: Session, event: Omit<SessionEvent, 'at'>, at = new Date().toISOString()): void {
+    session.events.push({ ...event, at });
+  }
+
+  private handleTabEvent(event: TabEvent): void {
+    const session = this.listSessions().find(s => s.tabs.some(tab => tab.tabId === event.tabId));
+    if (!session) return;
+
+    const tabBots = session.bots.filter(bot => bot.tabId === event.tabId);
+    switch (event.type) {
+      case 'tab_dropped':
+        tabBots
+          .filter(bot => bot.status === 'joined' || bot.status === 'pending')
+          .forEach(bot => { bot.status = 'dropped'; });
+        this.recordEvent(session, { type: event.type, tabId: event.tabId, message: `Tab dropped (${event.reason}), ${tabBots.length} bot(s) affected` }, event.at);
+        break;
+      case 'tab_recovered':
+        tabBots
+          .filter(bot => bot.status === 'dropped')
+          .forEach(bot => {
+            bot.status = event.joinState === 'joined' ? 'joined' : 'pending';
+            bot.joinState = event.joinState;
+          });
+        this.recordEvent(session, { type: event.type, tabId: event.tabId, message: `Tab reopened on attempt ${event.attempt} (${event.joinState})` }, event.at);
+        break;
+      case 'tab_recovery_failed':
+        tabBots
+          .filter(bot => bot.status === 'dropped')
+          .forEach(bot => {
+            bot.status = 'failed';
+            bot.error = `Tab could not be recovered after ${event.reason}`;
+          });
+        this.recordEvent(session, { type: event.type, tabId: event.tabId, message: `Gave up reopening tab after ${event.attempt} attempt(s)` }, event.at);
+        break;
+    }
+    this.persist();
+  }
+
+  private refreshStatus(session: Session): void {
+    if (session.status !== 'active' || this.resumingSessionIds.has(session.id)) return;
+
+    const expired = session.endsAt !== undefined && Date.parse(session.endsAt) <= Date.now();
+    const allTabsClosed = session.tabs.every(tab =>
+      !this.browserManager.hasTab(tab.tabId) && !this.browserManager.isTabRecovering(tab.tabId)
+    );
+    if (expired || allTabsClosed) {
+      session.status = 'ended';
+      session.endedAt = new Date().toISOString();
+      this.persist();
+      this.notifyFinished(session);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateSignature, getSignatureExpiry } from './signature';
+
+const NOW = Date.parse('2025-01-01T10:00:00Z');
+
+describe('generateSignature', () => {
+  let previous: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: NOW });
+    previous = {
+      key: process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY,
+      secret: process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET
+    };
+    process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY = 'sdk-key';
+    process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET = 'sdk-secret';
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    if (previous.key === undefined) delete process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY;
+    else process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY = previous.key;
+    if (previous.secret === undefined) delete process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET;
+    else process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET = previous.secret;
+  });
+
+  it('lasts the whole duration from now', () => {
+    assert.equal(getSignatureExpiry(generateSignature('1001', 0, 90)), NOW + 90 * 60 * 1000);
+  });
+
+  it('reuses a signature only while it still lasts long enough', () => {
+    const first = generateSignature('1002', 0, 60);
+    mock.timers.tick(1000);
+    const second = generateSignature('1002', 0, 60);
+
+    assert.notEqual(second, first);
+    assert.equal(getSignatureExpiry(second), NOW + 1000 + 60 * 60 * 1000);
+    assert.equal(generateSignature('1002', 0, 60), second);
+    assert.notEqual(generateSignature('1002', 0, 61), second);
+  });
+
+  it('needs the SDK credentials', () => {
+    delete process.env.NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET;
+
+    assert.throws(() => generateSignature('1003'), /Zoom SDK credentials not configured/);
+  });
+});
+
+describe('getSignatureExpiry', () => {
+  it('is null for anything but a token with an exp claim', () => {
+    assert.equal(getSignatureExpiry('signature'), null);
+    assert.equal(getSignatureExpiry('a.b.c'), null);
+  });
+});
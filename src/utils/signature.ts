@@ -1,4 +1,7 @@
-import { KJUR } from 'jsrsasign';
+import { KJUR, b64utoutf8 } from 'jsrsasign';
+import { createLogger } from './logger';
+
+const log = createLogger('signature');
 
 const signatureCache = new Map<string, { signature: string; expires: number }>();
 
@@ -7,19 +10,22 @@ export const generateSignature = (
   role: number = 0,
   duration: number = 60 
 ): string => {
-  console.log(`[${new Date().toISOString()}] Generating signature for meeting ${meetingNumber}`);
+  log.info(`Generating signature for meeting ${meetingNumber}`);
   const cacheKey = `${meetingNumber}-${role}-${duration}`;
   const now = Date.now() / 1000;
 
+  // Backdated for clock skew; `exp` still covers the full duration from now
   const iat = Math.round(now) - 30;
-  const exp = iat + duration * 60; // duration in minutes -> seconds
+  const exp = Math.ceil(now) + duration * 60; // duration in minutes -> seconds
 
+  // Only reused while it lasts as long as a new one would, so callers never get a signature
+  // that expires before the time they asked for
   const cached = signatureCache.get(cacheKey);
-  if (cached && cached.expires > now) return cached.signature;
+  if (cached && cached.expires >= exp) return cached.signature;
 
   const { NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY, NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET } = process.env;
   if (!NEXT_PUBLIC_ZOOM_MEETING_SDK_KEY || !NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET) {
-    console.error(`[${new Date().toISOString()}] Zoom SDK credentials missing`);
+    log.error('Zoom SDK credentials missing');
     throw new Error('Zoom SDK credentials not configured');
   }
 
@@ -36,6 +42,15 @@ export const generateSignature = (
 
   const signature = KJUR.jws.JWS.sign('HS256', JSON.stringify(header), JSON.stringify(payload), NEXT_PUBLIC_ZOOM_MEETING_SDK_SECRET);
   signatureCache.set(cacheKey, { signature, expires: exp });
-  console.log(`[${new Date().toISOString()}] New signature generated for ${meetingNumber} with expiry in ${duration} minutes`);
+  log.info(`New signature generated for ${meetingNumber} with expiry in ${duration} minutes`);
   return signature;
-};
\ No newline at end of file
+};
+
+// Returns the token's `exp` claim in epoch milliseconds, or null if the signature can't be decoded
+export const getSignatureExpiry = (signature: string): number | null => {
+  const [, payloadPart] = signature.split('.');
+  if (!payloadPart) return null;
+
+  const payload = KJUR.jws.JWS.readSafeJSONString(b64utoutf8(payloadPart)) as { exp?: number } | null;
+  return payload && typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+};
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileStateStore, PersistedState, openSecret, readJoinPassword, sealSecret, setJoinParam, stripJoinSecrets } from './stateStore';
+
+const JOIN_URL = 'https://example.com/meeting.html?meetingId=123&password=secret&signature=abc&name=Bot1';
+
+describe('join URLs', () => {
+  it('strips the password and signature only', () => {
+    assert.equal(stripJoinSecrets(JOIN_URL), 'https://example.com/meeting.html?meetingId=123&name=Bot1');
+    assert.equal(stripJoinSecrets('not a url'), 'not a url');
+  });
+
+  it('reads and sets join parameters', () => {
+    assert.equal(readJoinPassword(JOIN_URL), 'secret');
+    assert.equal(readJoinPassword(stripJoinSecrets(JOIN_URL)), undefined);
+    assert.equal(readJoinPassword(setJoinParam(stripJoinSecrets(JOIN_URL), 'password', 'p&ss word')), 'p&ss word');
+  });
+});
+
+describe('sealSecret', () => {
+  let previous: string | undefined;
+
+  beforeEach(() => {
+    previous = process.env.STATE_ENCRYPTION_KEY;
+    process.env.STATE_ENCRYPTION_KEY = 'a long random secret';
+  });
+
+  afterEach(() => {
+    if (previous === undefined) delete process.env.STATE_ENCRYPTION_KEY;
+    else process.env.STATE_ENCRYPTION_KEY = previous;
+  });
+
+  it('seals a secret that only the same key opens', () => {
+    const sealed = sealSecret('secret');
+    assert.ok(sealed);
+    assert.equal(sealed.includes('secret'), false);
+    assert.notEqual(sealSecret('secret'), sealed);
+    assert.equal(openSecret(sealed), 'secret');
+
+    process.env.STATE_ENCRYPTION_KEY = 'another secret';
+    assert.equal(openSecret(sealed), undefined);
+  });
+
+  it('refuses a tampered secret', () => {
+    const sealed = Buffer.from(sealSecret('secret') as string, 'base64');
+    sealed[sealed.length - 1] ^= 1;
+
+    assert.equal(openSecret(sealed.toString('base64')), undefined);
+  });
+
+  it('does nothing without STATE_ENCRYPTION_KEY', () => {
+    const sealed = sealSecret('secret') as string;
+    delete process.env.STATE_ENCRYPTION_KEY;
+
+    assert.equal(sealSecret('secret'), null);
+    assert.equal(openSecret(sealed), undefined);
+  });
+});
+
+describe('FileStateStore', () => {
+  let dir: string;
+  let filePath: string;
+  const state = (savedAt: string): PersistedState => ({ ownerPid: process.pid, savedAt, sessions: [] });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'state-store-'));
+    filePath = path.join(dir, 'nested', 'sessions.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads the last of several saves', async () => {
+    const store = new FileStateStore(filePath);
+    assert.equal(await store.load(), null);
+
+    await Promise.all([store.save(state('first')), store.save(state('second'))]);
+    assert.deepEqual(await store.load(), state('second'));
+    await assert.rejects(fs.stat(`${filePath}.tmp`), { code: 'ENOENT' });
+  });
+
+  it('loads nothing from an unreadable file', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, '{"ownerPid": 1');
+
+    assert.equal(await new FileStateStore(filePath).load(), null);
+  });
+});
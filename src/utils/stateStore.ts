@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Session } from '../types';
+import { createLogger } from './logger';
+
+const log = createLogger('stateStore');
+
+// A session plus what is needed to reopen its tabs after a restart. No secrets are written in
+// the clear: the signature is reissued on resume and the tab URLs go without the meeting
+// password and signature.
+export interface PersistedSession {
+  session: Omit<Session, 'signature'>;
+  tabUrls: Record<string, string>;
+  passwordProtected?: boolean;
+  // The meeting password encrypted with STATE_ENCRYPTION_KEY; left out without a key
+  sealedPassword?: string;
+}
+
+export interface PersistedState {
+  // The process that last wrote the state, so a second process configured as the same
+  // instance doesn't take over sessions that are still running
+  ownerPid: number;
+  savedAt: string;
+  sessions: PersistedSession[];
+}
+
+export interface StateStore {
+  load(): Promise<PersistedState | null>;
+  save(state: PersistedState): Promise<void>;
+}
+
+export class FileStateStore implements StateStore {
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<PersistedState | null> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents) as PersistedState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      log.error(`Failed to read state from ${this.filePath}`, { error });
+      return null;
+    }
+  }
+
+  // Writes are serialized and go through a temp file so a crash mid-write can't leave a torn file
+  save(state: PersistedState): Promise<void> {
+    const write = this.writeChain.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(state, null, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export class MemoryStateStore implements StateStore {
+  private state: PersistedState | null = null;
+
+  async load(): Promise<PersistedState | null> {
+    return this.state;
+  }
+
+  async save(state: PersistedState): Promise<void> {
+    this.state = state;
+  }
+}
+
+export const STATE_DIR = process.env.STATE_DIR || './state';
+
+const JOIN_SECRET_PARAMS = ['password', 'signature'];
+
+// A join URL without the meeting password and SDK signature
+export const stripJoinSecrets = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    JOIN_SECRET_PARAMS.forEach(param => parsed.searchParams.delete(param));
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+};
+
+export const readJoinPassword = (url: string): string | undefined => {
+  try {
+    return new URL(url).searchParams.get('password') || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const setJoinParam = (url: string, name: string, value: string): string => {
+  const parsed = new URL(url);
+  parsed.searchParams.set(name, value);
+  return parsed.toString();
+};
+
+// Read when used, since server.ts loads .env after this module
+const encryptionKey = (): Buffer | null => process.env.STATE_ENCRYPTION_KEY
+  ? crypto.createHash('sha256').update(process.env.STATE_ENCRYPTION_KEY).digest()
+  : null;
+
+// AES-256-GCM, stored as base64 of iv, auth tag and ciphertext. Null without STATE_ENCRYPTION_KEY.
+export const sealSecret = (secret: string): string | null => {
+  const key = encryptionKey();
+  if (!key) return null;
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+};
+
+// Undefined when there is no key, or the secret was sealed with a different one
+export const openSecret = (sealed: string): string | undefined => {
+  const key = encryptionKey();
+  if (!key) return undefined;
+  try {
+    const data = Buffer.from(sealed, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+  } catch {
+    return undefined;
+  }
+};
+
+// Identifies this instance's own state files among those of other instances sharing STATE_DIR.
+// It has to survive restarts, so a restarted instance resumes its own sessions and nobody
+// else's: INSTANCE_ID, or the slot number PM2 gives each cluster instance. Unset when a
+// single instance owns the directory.
+export const STATE_INSTANCE = (process.env.INSTANCE_ID || process.env.NODE_APP_INSTANCE || '').replace(/[^\w.-]/g, '_');
+
+// e.g. `STATE_DIR/sessions-2.json` for PM2 instance 2, `STATE_DIR/sessions.json` without instances
+export const instanceStatePath = (name: string, extension: string): string =>
+  path.join(STATE_DIR, STATE_INSTANCE ? `${name}-${STATE_INSTANCE}${extension}` : `${name}${extension}`);
+
+export const createStateStore = (): StateStore => {
+  const kind = process.env.STATE_STORE || 'file';
+  switch (kind) {
+    case 'memory':
+      return new MemoryStateStore();
+    case 'file':
+      return new FileStateStore(instanceStatePath('sessions', '.json'));
+    default:
+      throw new Error(`Unknown STATE_STORE: ${kind}`);
+  }
+};
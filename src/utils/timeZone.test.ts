@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatInTimeZone, formatLocalDateTime, isValidTimeZone, zonedTimeToUtc } from './timeZone';
+
+describe('zonedTimeToUtc', () => {
+  it('reads the wall-clock time in the given zone', () => {
+    assert.equal(zonedTimeToUtc('2025-01-15', '09:00', 'America/New_York').toISOString(), '2025-01-15T14:00:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-01-01', '09:00', 'Asia/Kolkata').toISOString(), '2025-01-01T03:30:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-06-01', '23:45', 'UTC').toISOString(), '2025-06-01T23:45:00.000Z');
+  });
+
+  it('uses the offset in force on that date', () => {
+    assert.equal(zonedTimeToUtc('2025-03-29', '09:00', 'Europe/Berlin').toISOString(), '2025-03-29T08:00:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-03-30', '09:00', 'Europe/Berlin').toISOString(), '2025-03-30T07:00:00.000Z');
+  });
+
+  it('moves a time skipped by spring-forward past the change', () => {
+    // 02:30 doesn't exist in Berlin on 2025-03-30; it runs at 03:30 CEST
+    assert.equal(zonedTimeToUtc('2025-03-30', '02:30', 'Europe/Berlin').toISOString(), '2025-03-30T01:30:00.000Z');
+  });
+
+  it('picks the first of a time repeated by fall-back', () => {
+    // 02:30 happens twice in Berlin on 2025-10-26: at 00:30Z (CEST) and 01:30Z (CET)
+    assert.equal(zonedTimeToUtc('2025-10-26', '02:30', 'Europe/Berlin').toISOString(), '2025-10-26T00:30:00.000Z');
+  });
+
+  it('rejects dates and times that are not numbers', () => {
+    assert.throws(() => zonedTimeToUtc('2025-xx-01', '09:00', 'UTC'), /Invalid date or time/);
+  });
+});
+
+describe('formatting', () => {
+  it('writes local time with the offset at that instant', () => {
+    assert.equal(formatInTimeZone(new Date('2025-03-30T07:00:00Z'), 'Europe/Berlin'), '2025-03-30T09:00:00+02:00');
+    assert.equal(formatInTimeZone(new Date('2025-01-15T14:00:00Z'), 'America/New_York'), '2025-01-15T09:00:00-05:00');
+    assert.equal(formatInTimeZone(new Date('2025-01-01T03:30:00Z'), 'Asia/Kolkata'), '2025-01-01T09:00:00+05:30');
+  });
+
+  it('writes wall-clock time without an offset', () => {
+    assert.equal(formatLocalDateTime(new Date('2025-10-26T01:30:00Z'), 'Europe/Berlin'), '2025-10-26T02:30:00');
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and rejects anything else', () => {
+    assert.equal(isValidTimeZone('Europe/Berlin'), true);
+    assert.equal(isValidTimeZone('UTC'), true);
+    assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+    assert.equal(isValidTimeZone(''), false);
+  });
+});
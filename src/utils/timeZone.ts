@@ -0,0 +1,104 @@
+// Time zone conversions on top of Intl, so schedules can be written in local wall-clock
+// time for any IANA zone and still resolve to the right instant across DST changes.
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+};
+
+// Offset of the zone from UTC at the given instant, in milliseconds (positive east of UTC)
+export const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Converts a wall-clock date (YYYY-MM-DD) and time (HH:mm) in `timeZone` to an instant.
+// A time skipped by a spring-forward change resolves to the same distance past the
+// change (02:30 becomes 03:30); a time repeated by a fall-back change resolves to its
+// first occurrence.
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  if (Number.isNaN(wallClock)) {
+    throw new Error(`Invalid date or time: ${date} ${time}`);
+  }
+
+  const firstGuess = wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  const candidates = Array.from(new Set([
+    firstGuess,
+    wallClock - getTimeZoneOffsetMs(new Date(firstGuess), timeZone),
+    wallClock - getTimeZoneOffsetMs(new Date(firstGuess - 24 * 60 * 60 * 1000), timeZone),
+    wallClock - getTimeZoneOffsetMs(new Date(firstGuess + 24 * 60 * 60 * 1000), timeZone)
+  ]));
+
+  const matching = candidates.filter(instant => formatLocalDateTime(new Date(instant), timeZone).slice(0, 16) === `${date}T${time}`);
+  return new Date(matching.length > 0 ? Math.min(...matching) : Math.max(...candidates));
+};
+
+// YYYY-MM-DDTHH:mm:ss wall-clock time in the zone, without an offset
+export const formatLocalDateTime = (date: Date, timeZone: string): string => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}`;
+};
+
+// ISO 8601 with the zone's offset at that instant, e.g. 2025-03-30T09:00:00+02:00
+export const formatInTimeZone = (date: Date, timeZone: string): string => {
+  const offsetMinutes = Math.round(getTimeZoneOffsetMs(date, timeZone) / (60 * 1000));
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${formatLocalDateTime(date, timeZone)}${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
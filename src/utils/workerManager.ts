@@ -1,9 +1,19 @@
 import { Worker } from 'worker_threads';
-import { cpus, setPriority } from 'os';
+import { cpus } from 'os';
+import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { SystemMonitor } from './SystemMoniter';
-import { Task, WorkerResult } from '../types';
-import { workerScript } from './workerScript';
+import { JoinFailureReason, JoinState, Task, WorkerResult } from '../types';
+import { TabDriver, WorkerCommand, WorkerMessage } from './meetingWorker';
+import { workerFailures, workersStarted } from './metrics';
+import { createLogger, getLogContext } from './logger';
+
+const log = createLogger('workerManager');
+
+// Under ts-node the worker is loaded from source, otherwise from the compiled output
+const workerExtension = path.extname(__filename);
+const workerPath = path.join(__dirname, `meetingWorker${workerExtension}`);
+const workerExecArgv = workerExtension === '.ts' ? ['--require', 'ts-node/register'] : undefined;
 
 export interface ActiveWorkerInfo {
   worker: Worker;
@@ -16,17 +26,24 @@ export interface ActiveWorkerInfo {
 export class WorkerManager {
   private activeWorkers: Map<string, ActiveWorkerInfo> = new Map();
   private systemMonitor: SystemMonitor;
+  private tabDriver: TabDriver;
   private config = {
     maxConcurrentWorkers: parseInt(process.env.MAX_CONCURRENT_WORKERS || '50'),
     workerTimeout: parseInt(process.env.WORKER_TIMEOUT || '60000'),
     gracePeriod: parseInt(process.env.GRACE_PERIOD || '5000'),
   };
 
-  constructor(systemMonitor: SystemMonitor) {
+  constructor(systemMonitor: SystemMonitor, tabDriver: TabDriver) {
     this.systemMonitor = systemMonitor;
+    this.tabDriver = tabDriver;
   }
 
-  async executeTasks(tasks: Task[], duration: number, globalActiveWorkers: Map<string, ActiveWorkerInfo>): Promise<WorkerResult[]> {
+  async executeTasks(
+    tasks: Task[],
+    duration: number,
+    globalActiveWorkers: Map<string, ActiveWorkerInfo>,
+    onWorkerStarted?: (taskId: string, task: Task) => void
+  ): Promise<WorkerResult[]> {
     const cpuCount = cpus().length;
     const systemLoad = this.systemMonitor.getMetrics().cpuLoad;
     const maxConcurrentWorkers = Math.min(
@@ -66,26 +83,17 @@ export class WorkerManager {
     for (const task of tasks) {
       await semaphore.acquire();
       const taskId = uuidv4();
-      const worker = new Worker(workerScript, {
-        eval: true,
-        workerData: { ...task, systemInfo: { cpuCount, highPriority: true } },
+      const worker = new Worker(workerPath, {
+        execArgv: workerExecArgv,
+        // Threads don't share the parent's async context, so the worker logs under these ids
+        workerData: { task, logContext: { ...getLogContext(), tabId: task.tabId, workerId: taskId } },
         resourceLimits: {
           maxOldGenerationSizeMb: 150 + (task.botPair.length * 25),
           maxYoungGenerationSizeMb: 75 + (task.botPair.length * 10),
         }
       });
 
-      const terminationTimeout = setTimeout(() => {
-        worker.postMessage({ type: 'TERMINATE' });
-        setTimeout(() => {
-          if (this.activeWorkers.has(taskId)) {
-            worker.terminate();
-            this.activeWorkers.delete(taskId);
-            globalActiveWorkers.delete(taskId);
-            this.systemMonitor.updateMetrics(globalActiveWorkers);
-          }
-        }, this.config.gracePeriod);
-      }, duration * 60 * 1000);
+      const terminationTimeout = this.scheduleTermination(taskId, worker, duration * 60 * 1000, globalActiveWorkers);
 
       this.activeWorkers.set(taskId, {
         worker,
@@ -96,19 +104,34 @@ export class WorkerManager {
       });
       globalActiveWorkers.set(taskId, this.activeWorkers.get(taskId)!);
       this.systemMonitor.updateMetrics(globalActiveWorkers);
+      workersStarted.inc();
+      onWorkerStarted?.(taskId, task);
 
       const workerResults = await new Promise<WorkerResult[]>(resolve => {
         let timeoutId: NodeJS.Timeout;
-        worker.on('message', (result: WorkerResult[]) => {
+        // Workers we terminate at the end of their duration also exit non-zero; only earlier exits are failures
+        let reported = false;
+        // The first of result, error, exit or timeout decides; later ones are ignored
+        let settled = false;
+        const settle = (results: WorkerResult[]) => {
+          if (settled) return;
+          settled = true;
           clearTimeout(timeoutId);
           semaphore.release();
-          resolve(result);
+          resolve(results);
+        };
+        worker.on('message', (message: WorkerMessage) => {
+          if (message.type === 'DRIVER_CALL') {
+            this.handleDriverCall(worker, message);
+            return;
+          }
+          reported = true;
+          settle(message.results);
         });
         worker.on('error', (error) => {
-          clearTimeout(timeoutId);
+          workerFailures.inc({ reason: 'error' });
           this.cleanupWorker(taskId, globalActiveWorkers);
-          semaphore.release();
-          resolve(task.botPair.map(bot => ({
+          settle(task.botPair.map(bot => ({
             success: false,
             botId: bot.id,
             error: `Worker error: ${error.message}`,
@@ -116,11 +139,12 @@ export class WorkerManager {
           })));
         });
         worker.on('exit', (code) => {
+          this.cleanupWorker(taskId, globalActiveWorkers);
           if (code !== 0) {
-            clearTimeout(timeoutId);
-            this.cleanupWorker(taskId, globalActiveWorkers);
-            semaphore.release();
-            resolve(task.botPair.map(bot => ({
+            if (!reported) {
+              workerFailures.inc({ reason: 'exit' });
+            }
+            settle(task.botPair.map(bot => ({
               success: false,
               botId: bot.id,
               error: `Worker exited with code ${code}`,
@@ -129,15 +153,21 @@ export class WorkerManager {
           }
         });
         timeoutId = setTimeout(() => {
-          semaphore.release();
-          resolve(task.botPair.map(bot => ({
-            success: true,
-            botId: bot.id,
-            error: 'Worker timeout but tabs kept open',
-            browser: task.browserType,
-            keepOpenOnTimeout: true,
-            scheduledTermination: new Date(Date.now() + duration * 60 * 1000).toISOString()
-          })));
+          reported = true;
+          // The worker is still busy, so the tab's tracked join state decides whether its bots made it in
+          this.tabDriver.getJoinState(task.tabId)
+            .catch((): { state: JoinState; reason?: JoinFailureReason } => ({ state: 'failed' }))
+            .then(({ state, reason }) => settle(task.botPair.map(bot => ({
+              success: state === 'joined',
+              botId: bot.id,
+              tabId: task.tabId,
+              joinState: state,
+              failureReason: reason,
+              error: state === 'joined' ? 'Worker timeout but tabs kept open' : `Worker timeout while the tab is ${state}`,
+              browser: task.browserType,
+              keepOpenOnTimeout: true,
+              scheduledTermination: new Date(Date.now() + duration * 60 * 1000).toISOString()
+            }))));
         }, this.config.workerTimeout);
       });
 
@@ -147,6 +177,49 @@ export class WorkerManager {
     return results;
   }
 
+  rescheduleTermination(taskId: string, endsAt: number, globalActiveWorkers: Map<string, ActiveWorkerInfo>): void {
+    const info = this.activeWorkers.get(taskId);
+    if (!info) {
+      throw new Error('Worker not found');
+    }
+
+    clearTimeout(info.terminationTimeout);
+    info.terminationTimeout = this.scheduleTermination(taskId, info.worker, Math.max(0, endsAt - Date.now()), globalActiveWorkers);
+    // duration drives scheduledTerminationTime in getActiveWorkers
+    info.duration = (endsAt - info.startTime) / (60 * 1000);
+    log.info(`Rescheduled worker ${taskId} to terminate at ${new Date(endsAt).toISOString()}`);
+  }
+
+  private scheduleTermination(
+    taskId: string,
+    worker: Worker,
+    delayMs: number,
+    globalActiveWorkers: Map<string, ActiveWorkerInfo>
+  ): NodeJS.Timeout {
+    return setTimeout(() => {
+      worker.postMessage({ type: 'TERMINATE' });
+      setTimeout(() => {
+        if (this.activeWorkers.has(taskId)) {
+          worker.terminate();
+          this.activeWorkers.delete(taskId);
+          globalActiveWorkers.delete(taskId);
+          this.systemMonitor.updateMetrics(globalActiveWorkers);
+        }
+      }, this.config.gracePeriod);
+    }, delayMs);
+  }
+
+  private handleDriverCall(worker: Worker, message: Extract<WorkerMessage, { type: 'DRIVER_CALL' }>): void {
+    const method = this.tabDriver[message.method] as (...args: unknown[]) => Promise<unknown>;
+    method.apply(this.tabDriver, message.args)
+      .then(result => worker.postMessage({ type: 'DRIVER_REPLY', callId: message.callId, result } as WorkerCommand))
+      .catch(error => worker.postMessage({
+        type: 'DRIVER_REPLY',
+        callId: message.callId,
+        error: error instanceof Error ? error.message : String(error)
+      } as WorkerCommand));
+  }
+
   private cleanupWorker(taskId: string, globalActiveWorkers: Map<string, ActiveWorkerInfo>): void {
     const workerInfo = this.activeWorkers.get(taskId);
     if (workerInfo) {
@@ -157,26 +230,19 @@ export class WorkerManager {
     }
   }
 
+  async terminateWorkers(taskIds: string[], globalActiveWorkers: Map<string, ActiveWorkerInfo>): Promise<number> {
+    const terminationPromises = taskIds
+      .filter(taskId => this.activeWorkers.has(taskId))
+      .map(taskId => this.terminateWorker(taskId, this.activeWorkers.get(taskId)!, globalActiveWorkers));
+    await Promise.all(terminationPromises);
+    this.systemMonitor.updateMetrics(globalActiveWorkers);
+    return terminationPromises.length;
+  }
+
   async gracefulShutdown(globalActiveWorkers: Map<string, ActiveWorkerInfo>): Promise<void> {
     const terminationPromises: Promise<void>[] = [];
     this.activeWorkers.forEach((info, taskId) => {
-      terminationPromises.push(new Promise(resolve => {
-        clearTimeout(info.terminationTimeout);
-        info.worker.postMessage({ type: 'TERMINATE' });
-        setTimeout(() => {
-          if (this.activeWorkers.has(taskId)) {
-            info.worker.terminate();
-            this.activeWorkers.delete(taskId);
-            globalActiveWorkers.delete(taskId);
-          }
-          resolve();
-        }, this.config.gracePeriod);
-        info.worker.on('exit', () => {
-          this.activeWorkers.delete(taskId);
-          globalActiveWorkers.delete(taskId);
-          resolve();
-        });
-      }));
+      terminationPromises.push(this.terminateWorker(taskId, info, globalActiveWorkers));
     });
     await Promise.race([
       Promise.all(terminationPromises),
@@ -184,6 +250,30 @@ export class WorkerManager {
     ]);
   }
 
+  private terminateWorker(taskId: string, info: ActiveWorkerInfo, globalActiveWorkers: Map<string, ActiveWorkerInfo>): Promise<void> {
+    return new Promise(resolve => {
+      clearTimeout(info.terminationTimeout);
+      info.worker.postMessage({ type: 'TERMINATE' });
+      setTimeout(() => {
+        if (this.activeWorkers.has(taskId)) {
+          info.worker.terminate();
+          this.activeWorkers.delete(taskId);
+          globalActiveWorkers.delete(taskId);
+        }
+        resolve();
+      }, this.config.gracePeriod);
+      info.worker.on('exit', () => {
+        this.activeWorkers.delete(taskId);
+        globalActiveWorkers.delete(taskId);
+        resolve();
+      });
+    });
+  }
+
+  isWorkerActive(taskId: string): boolean {
+    return this.activeWorkers.has(taskId);
+  }
+
   getActiveWorkers(): { taskId: string; botCount: number; startTime: string; duration: number; elapsedMinutes: number; remainingMinutes: number; scheduledTerminationTime: string }[] {
     this.systemMonitor.updateMetrics(this.activeWorkers);
     return Array.from(this.activeWorkers.entries()).map(([taskId, info]) => {